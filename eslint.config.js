@@ -18,4 +18,13 @@ export default [
       "@typescript-eslint/ban-ts-comment": "off",
     },
   },
+  {
+    // Tests are left out of the build, so they have their own project
+    files: ["**/*.test.ts"],
+    languageOptions: {
+      parserOptions: {
+        project: "./tsconfig.test.json",
+      },
+    },
+  },
 ];
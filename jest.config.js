@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  setupFiles: ["<rootDir>/jest.setup.js"],
+  transform: {
+    // Transpile files on their own; `tsc --noEmit` does the type checking
+    "^.+\\.ts$": ["ts-jest", { tsconfig: { isolatedModules: true } }],
+  },
+};
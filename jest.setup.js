@@ -0,0 +1,8 @@
+// Tests run offline against the in-memory stand-ins, so the environment
+// only needs to pass validation and select the local backends
+process.env.NODE_ENV = "test";
+process.env.OPENAI_API_KEY = "test";
+process.env.VECTOR_STORE_PROVIDER = "local";
+process.env.STORAGE_BACKEND = "memory";
+process.env.USER_MEMORY = "off";
+process.env.LOG_LEVEL = "fatal";
@@ -0,0 +1,179 @@
+import { createTestHarness, TestHarness } from "../testing/harness";
+import { ActionStatus, ActionType } from "../config/constants";
+import { ChatResponse } from "../types/conversation";
+import { BaseAction } from "../types/actions";
+import {
+  loadConversationState,
+  saveConversationState,
+} from "../storage/conversation-store";
+
+const REMINDER_RULE = {
+  pattern: /remind me/i,
+  tool: ActionType.SET_REMINDER,
+  args: { title: "Call Ada", date: "2030-01-01", time: "09:00" },
+};
+
+describe("action routes", () => {
+  let harness: TestHarness;
+
+  /**
+   * Start a conversation whose reminder awaits approval
+   */
+  async function requestReminder(
+    headers: Record<string, string> = {}
+  ): Promise<ChatResponse> {
+    const { body } = await harness.request<ChatResponse>(
+      "/api/conversation/chat",
+      {
+        method: "POST",
+        body: { message: "Remind me to call Ada", userId: "user-1" },
+        headers,
+      }
+    );
+    return body;
+  }
+
+  beforeEach(async () => {
+    harness = await createTestHarness({ toolCallRules: [REMINDER_RULE] });
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it("holds gated actions until approved, then runs them", async () => {
+    const chat = await requestReminder();
+    const [action] = chat.actions;
+    expect(action.status).toBe(ActionStatus.AWAITING_APPROVAL);
+
+    const { status, body } = await harness.request<BaseAction>(
+      `/api/actions/${action.id}/approve?userId=user-1`,
+      { method: "POST" }
+    );
+
+    expect(status).toBe(200);
+    expect(body.status).toBe(ActionStatus.COMPLETED);
+
+    // The conversation is still listed for its user
+    const { body: list } = await harness.request<{
+      conversations: { conversationId: string }[];
+    }>("/api/conversation?userId=user-1");
+    expect(list.conversations).toEqual([
+      expect.objectContaining({ conversationId: chat.conversationId }),
+    ]);
+  });
+
+  it("runs only the approved action", async () => {
+    const chat = await requestReminder();
+    const [approved] = chat.actions;
+
+    // Another action of the conversation that has not run yet
+    const state = await loadConversationState(chat.conversationId);
+    await saveConversationState(
+      {
+        ...state!,
+        pending_actions: [
+          ...state!.pending_actions,
+          {
+            id: "act_other",
+            type: ActionType.SET_REMINDER,
+            data: REMINDER_RULE.args,
+            status: ActionStatus.PENDING,
+          },
+        ],
+      },
+      { userId: "user-1" }
+    );
+
+    await harness.request(`/api/actions/${approved.id}/approve?userId=user-1`, {
+      method: "POST",
+    });
+
+    const updated = await loadConversationState(chat.conversationId);
+    expect(
+      updated?.pending_actions.map(({ id, status }) => ({ id, status }))
+    ).toEqual([
+      { id: approved.id, status: ActionStatus.COMPLETED },
+      { id: "act_other", status: ActionStatus.PENDING },
+    ]);
+  });
+
+  it("cancels rejected actions", async () => {
+    const [action] = (await requestReminder()).actions;
+
+    const { body } = await harness.request<BaseAction>(
+      `/api/actions/${action.id}/reject?userId=user-1`,
+      { method: "POST" }
+    );
+
+    expect(body.status).toBe(ActionStatus.CANCELLED);
+  });
+
+  it("does not let status updates bypass the approval gate", async () => {
+    const [action] = (await requestReminder()).actions;
+
+    const intoApproval = await harness.request(
+      `/api/actions/${action.id}?userId=user-1`,
+      {
+        method: "PUT",
+        body: { status: ActionStatus.AWAITING_APPROVAL },
+      }
+    );
+    const outOfApproval = await harness.request(
+      `/api/actions/${action.id}?userId=user-1`,
+      {
+        method: "PUT",
+        body: { status: ActionStatus.PENDING },
+      }
+    );
+    const completed = await harness.request(
+      `/api/actions/${action.id}/complete?userId=user-1`,
+      { method: "POST" }
+    );
+
+    expect(intoApproval.status).toBe(400);
+    expect(outOfApproval.status).toBe(409);
+    expect(completed.status).toBe(409);
+  });
+
+  it("hides actions from other tenants and users", async () => {
+    const [action] = (await requestReminder({ "X-Tenant-Id": "acme" })).actions;
+    const path = `/api/actions/${action.id}`;
+
+    const requests = [
+      { path: `${path}?userId=user-1`, method: "GET", body: undefined },
+      {
+        path: `${path}?userId=user-1`,
+        method: "PUT",
+        body: { status: ActionStatus.COMPLETED },
+      },
+      { path: `${path}/complete?userId=user-1`, method: "POST" },
+      { path: `${path}/fail?userId=user-1`, method: "POST" },
+      { path: `${path}/approve?userId=user-1`, method: "POST" },
+      { path: `${path}/reject?userId=user-1`, method: "POST" },
+    ];
+    const statuses = (headers: Record<string, string>) =>
+      Promise.all(
+        requests.map(
+          async ({ path, method, body }) =>
+            (await harness.request(path, { method, body, headers })).status
+        )
+      );
+
+    expect(await statuses({ "X-Tenant-Id": "globex" })).toEqual([
+      404, 404, 404, 404, 404, 404,
+    ]);
+    expect(await statuses({})).toEqual([404, 404, 404, 404, 404, 404]);
+
+    // Another user of the same tenant cannot see it either
+    const otherUser = await harness.request(`${path}?userId=user-2`, {
+      headers: { "X-Tenant-Id": "acme" },
+    });
+    const owner = await harness.request<BaseAction>(`${path}?userId=user-1`, {
+      headers: { "X-Tenant-Id": "acme" },
+    });
+
+    expect(otherUser.status).toBe(404);
+    expect(owner.body.status).toBe(ActionStatus.AWAITING_APPROVAL);
+  });
+});
@@ -7,8 +7,18 @@ import {
   updateActionStatus,
   markActionFailed,
   markActionCompleted,
+  markActionCancelled,
 } from "../storage/action-store";
+import {
+  loadConversationState,
+  saveConversationState,
+} from "../storage/conversation-store";
+import { applyApprovalDecision } from "../graphs/nodes/approval";
+import { executeActionsById } from "../graphs/nodes/execute-actions";
+import { BaseAction } from "../types/actions";
+import { AppError } from "../utils/error-handler";
 import { createLogger } from "../utils/logger";
+import { getRequestConversation } from "./tenant";
 
 const logger = createLogger("actions-api");
 const router: express.Router = express.Router();
@@ -28,21 +38,81 @@ const updateActionSchema = z.object({
 });
 
 /**
- * GET /api/actions/conversation/:conversationId
+ * Approve or reject an action awaiting approval
+ *
+ * When the action's conversation is available, an approved action is executed
+ * right away and the conversation state is updated; other pending actions of
+ * the conversation are left alone. Otherwise the action is queued for the
+ * background worker.
+ */
+async function resolveActionApproval(
+  action: BaseAction,
+  approved: boolean
+): Promise<void> {
+  const state = await loadConversationState(action.conversationId);
+
+  if (
+    !state ||
+    !state.pending_actions.some((pending) => pending.id === action.id)
+  ) {
+    if (approved) {
+      await updateActionStatus(action.id, { status: ActionStatus.PENDING });
+    } else {
+      await markActionCancelled(action.id, "Rejected by user");
+    }
+    return;
+  }
+
+  let updatedState = await applyApprovalDecision(state, [action.id], approved);
+
+  if (approved) {
+    updatedState = await executeActionsById(updatedState, [action.id]);
+  }
+
+  await saveConversationState(updatedState);
+}
+
+/**
+ * Load an action the request may access
+ *
+ * Actions are only visible to the tenant and user their conversation belongs
+ * to, so an action of another conversation owner is treated as missing.
+ */
+async function getRequestAction(
+  req: express.Request,
+  actionId: string
+): Promise<BaseAction | null> {
+  const action = await getAction(actionId);
+
+  if (!action || !(await getRequestConversation(req, action.conversationId))) {
+    return null;
+  }
+
+  return action;
+}
+
+/**
+ * GET /api/actions/conversation/:conversationId?userId=
  * Get all actions for a conversation
  */
 router.get(
   "/conversation/:conversationId",
-  // @ts-ignore - TODO: fix this
-  async (req: express.Request, res: express.Response) => {
+  async (req: express.Request, res: express.Response): Promise<void> => {
     try {
       const { conversationId } = req.params;
 
       logger.debug({ conversationId }, "Getting actions for conversation");
 
+      if (!(await getRequestConversation(req, conversationId))) {
+        res.status(404).json({
+          error: "Conversation not found",
+        });
+        return;
+      }
+
       const actions = await getConversationActions(conversationId);
 
-      return res.json({
+      res.json({
         conversationId,
         actions,
         count: actions.length,
@@ -53,7 +123,12 @@ router.get(
         "Error getting conversation actions"
       );
 
-      return res.status(500).json({
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
         error: "An error occurred retrieving actions",
         message: (error as Error).message,
       });
@@ -62,202 +137,396 @@ router.get(
 );
 
 /**
- * GET /api/actions/:actionId
+ * GET /api/actions/:actionId?userId=
  * Get a specific action
  */
-// @ts-ignore - TODO: fix this
-router.get("/:actionId", async (req, res) => {
-  try {
-    const validationResult = actionIdSchema.safeParse(req.params.actionId);
-
-    if (!validationResult.success) {
-      return res.status(400).json({
-        error: "Invalid action ID format",
-      });
-    }
+router.get(
+  "/:actionId",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const validationResult = actionIdSchema.safeParse(req.params.actionId);
 
-    const actionId = validationResult.data;
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: "Invalid action ID format",
+        });
+        return;
+      }
 
-    logger.debug({ actionId }, "Getting action");
+      const actionId = validationResult.data;
 
-    const action = await getAction(actionId);
+      logger.debug({ actionId }, "Getting action");
+
+      const action = await getRequestAction(req, actionId);
+
+      if (!action) {
+        res.status(404).json({
+          error: "Action not found",
+        });
+        return;
+      }
+
+      res.json(action);
+    } catch (error) {
+      logger.error(
+        { error, actionId: req.params.actionId },
+        "Error getting action"
+      );
 
-    if (!action) {
-      return res.status(404).json({
-        error: "Action not found",
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred retrieving the action",
+        message: (error as Error).message,
       });
     }
-
-    return res.json(action);
-  } catch (error) {
-    logger.error(
-      { error, actionId: req.params.actionId },
-      "Error getting action"
-    );
-
-    return res.status(500).json({
-      error: "An error occurred retrieving the action",
-      message: (error as Error).message,
-    });
   }
-});
+);
 
 /**
- * PUT /api/actions/:actionId
+ * PUT /api/actions/:actionId?userId=
  * Update an action's status
  */
-// @ts-ignore - TODO: fix this
-router.put("/:actionId", async (req, res) => {
-  try {
-    const actionIdResult = actionIdSchema.safeParse(req.params.actionId);
-    const updateResult = updateActionSchema.safeParse(req.body);
-
-    if (!actionIdResult.success) {
-      return res.status(400).json({
-        error: "Invalid action ID format",
-      });
-    }
-
-    if (!updateResult.success) {
-      return res.status(400).json({
-        error: "Invalid update data",
-        details: updateResult.error.errors,
-      });
-    }
+router.put(
+  "/:actionId",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const actionIdResult = actionIdSchema.safeParse(req.params.actionId);
+      const updateResult = updateActionSchema.safeParse(req.body);
+
+      if (!actionIdResult.success) {
+        res.status(400).json({
+          error: "Invalid action ID format",
+        });
+        return;
+      }
+
+      if (!updateResult.success) {
+        res.status(400).json({
+          error: "Invalid update data",
+          details: updateResult.error.errors,
+        });
+        return;
+      }
+
+      const actionId = actionIdResult.data;
+      const updateData = updateResult.data;
+
+      logger.debug(
+        { actionId, status: updateData.status },
+        "Updating action status"
+      );
 
-    const actionId = actionIdResult.data;
-    const updateData = updateResult.data;
+      // Check if action exists and belongs to the requester
+      const action = await getRequestAction(req, actionId);
 
-    logger.debug(
-      { actionId, status: updateData.status },
-      "Updating action status"
-    );
+      if (!action) {
+        res.status(404).json({
+          error: "Action not found",
+        });
+        return;
+      }
 
-    // Check if action exists
-    const action = await getAction(actionId);
+      // Gated actions only leave approval through approve and reject
+      if (action.status === ActionStatus.AWAITING_APPROVAL) {
+        res.status(409).json({
+          error: "Action is awaiting approval",
+          status: action.status,
+        });
+        return;
+      }
 
-    if (!action) {
-      return res.status(404).json({
-        error: "Action not found",
-      });
-    }
+      // Update the action
+      await updateActionStatus(actionId, updateData);
 
-    // Update the action
-    await updateActionStatus(actionId, updateData);
+      // Get the updated action
+      const updatedAction = await getAction(actionId);
 
-    // Get the updated action
-    const updatedAction = await getAction(actionId);
+      res.json(updatedAction);
+    } catch (error) {
+      logger.error(
+        { error, actionId: req.params.actionId },
+        "Error updating action"
+      );
 
-    return res.json(updatedAction);
-  } catch (error) {
-    logger.error(
-      { error, actionId: req.params.actionId },
-      "Error updating action"
-    );
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
 
-    return res.status(500).json({
-      error: "An error occurred updating the action",
-      message: (error as Error).message,
-    });
+      res.status(500).json({
+        error: "An error occurred updating the action",
+        message: (error as Error).message,
+      });
+    }
   }
-});
+);
 
 /**
- * POST /api/actions/:actionId/complete
+ * POST /api/actions/:actionId/complete?userId=
  * Mark an action as completed
  */
-// @ts-ignore - TODO: fix this
-router.post("/:actionId/complete", async (req, res) => {
-  try {
-    const actionIdResult = actionIdSchema.safeParse(req.params.actionId);
-
-    if (!actionIdResult.success) {
-      return res.status(400).json({
-        error: "Invalid action ID format",
+router.post(
+  "/:actionId/complete",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const actionIdResult = actionIdSchema.safeParse(req.params.actionId);
+
+      if (!actionIdResult.success) {
+        res.status(400).json({
+          error: "Invalid action ID format",
+        });
+        return;
+      }
+
+      const actionId = actionIdResult.data;
+      const result = req.body.result || {};
+
+      logger.debug({ actionId }, "Marking action as completed");
+
+      // Check if action exists and belongs to the requester
+      const action = await getRequestAction(req, actionId);
+
+      if (!action) {
+        res.status(404).json({
+          error: "Action not found",
+        });
+        return;
+      }
+
+      // Gated actions only leave approval through approve and reject
+      if (action.status === ActionStatus.AWAITING_APPROVAL) {
+        res.status(409).json({
+          error: "Action is awaiting approval",
+          status: action.status,
+        });
+        return;
+      }
+
+      // Mark the action as completed
+      await markActionCompleted(actionId, result);
+
+      // Get the updated action
+      const updatedAction = await getAction(actionId);
+
+      res.json(updatedAction);
+    } catch (error) {
+      logger.error(
+        { error, actionId: req.params.actionId },
+        "Error completing action"
+      );
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred completing the action",
+        message: (error as Error).message,
       });
     }
+  }
+);
 
-    const actionId = actionIdResult.data;
-    const result = req.body.result || {};
-
-    logger.debug({ actionId }, "Marking action as completed");
+/**
+ * POST /api/actions/:actionId/fail?userId=
+ * Mark an action as failed
+ */
+router.post(
+  "/:actionId/fail",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const actionIdResult = actionIdSchema.safeParse(req.params.actionId);
+
+      if (!actionIdResult.success) {
+        res.status(400).json({
+          error: "Invalid action ID format",
+        });
+        return;
+      }
+
+      const actionId = actionIdResult.data;
+      const error = req.body.error || "Action failed";
+
+      logger.debug({ actionId }, "Marking action as failed");
+
+      // Check if action exists and belongs to the requester
+      const action = await getRequestAction(req, actionId);
+
+      if (!action) {
+        res.status(404).json({
+          error: "Action not found",
+        });
+        return;
+      }
+
+      // Gated actions only leave approval through approve and reject
+      if (action.status === ActionStatus.AWAITING_APPROVAL) {
+        res.status(409).json({
+          error: "Action is awaiting approval",
+          status: action.status,
+        });
+        return;
+      }
+
+      // Mark the action as failed
+      await markActionFailed(actionId, error);
+
+      // Get the updated action
+      const updatedAction = await getAction(actionId);
+
+      res.json(updatedAction);
+    } catch (error) {
+      logger.error(
+        { error, actionId: req.params.actionId },
+        "Error failing action"
+      );
 
-    // Check if action exists
-    const action = await getAction(actionId);
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
 
-    if (!action) {
-      return res.status(404).json({
-        error: "Action not found",
+      res.status(500).json({
+        error: "An error occurred marking the action as failed",
+        message: (error as Error).message,
       });
     }
+  }
+);
+
+/**
+ * POST /api/actions/:actionId/approve?userId=
+ * Approve an action awaiting approval and execute it
+ */
+router.post(
+  "/:actionId/approve",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const actionIdResult = actionIdSchema.safeParse(req.params.actionId);
+
+      if (!actionIdResult.success) {
+        res.status(400).json({
+          error: "Invalid action ID format",
+        });
+        return;
+      }
+
+      const actionId = actionIdResult.data;
+
+      logger.debug({ actionId }, "Approving action");
+
+      // Check if action exists and belongs to the requester
+      const action = await getRequestAction(req, actionId);
+
+      if (!action) {
+        res.status(404).json({
+          error: "Action not found",
+        });
+        return;
+      }
+
+      if (action.status !== ActionStatus.AWAITING_APPROVAL) {
+        res.status(409).json({
+          error: "Action is not awaiting approval",
+          status: action.status,
+        });
+        return;
+      }
 
-    // Mark the action as completed
-    await markActionCompleted(actionId, result);
+      // Approve and execute the action
+      await resolveActionApproval(action, true);
 
-    // Get the updated action
-    const updatedAction = await getAction(actionId);
+      // Get the updated action
+      const updatedAction = await getAction(actionId);
 
-    return res.json(updatedAction);
-  } catch (error) {
-    logger.error(
-      { error, actionId: req.params.actionId },
-      "Error completing action"
-    );
+      res.json(updatedAction);
+    } catch (error) {
+      logger.error(
+        { error, actionId: req.params.actionId },
+        "Error approving action"
+      );
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
 
-    return res.status(500).json({
-      error: "An error occurred completing the action",
-      message: (error as Error).message,
-    });
+      res.status(500).json({
+        error: "An error occurred approving the action",
+        message: (error as Error).message,
+      });
+    }
   }
-});
+);
 
 /**
- * POST /api/actions/:actionId/fail
- * Mark an action as failed
+ * POST /api/actions/:actionId/reject?userId=
+ * Reject an action awaiting approval
  */
-// @ts-ignore - TODO: fix this
-router.post("/:actionId/fail", async (req, res) => {
-  try {
-    const actionIdResult = actionIdSchema.safeParse(req.params.actionId);
-
-    if (!actionIdResult.success) {
-      return res.status(400).json({
-        error: "Invalid action ID format",
-      });
-    }
+router.post(
+  "/:actionId/reject",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const actionIdResult = actionIdSchema.safeParse(req.params.actionId);
 
-    const actionId = actionIdResult.data;
-    const error = req.body.error || "Action failed";
+      if (!actionIdResult.success) {
+        res.status(400).json({
+          error: "Invalid action ID format",
+        });
+        return;
+      }
 
-    logger.debug({ actionId }, "Marking action as failed");
+      const actionId = actionIdResult.data;
 
-    // Check if action exists
-    const action = await getAction(actionId);
+      logger.debug({ actionId }, "Rejecting action");
 
-    if (!action) {
-      return res.status(404).json({
-        error: "Action not found",
-      });
-    }
+      // Check if action exists and belongs to the requester
+      const action = await getRequestAction(req, actionId);
+
+      if (!action) {
+        res.status(404).json({
+          error: "Action not found",
+        });
+        return;
+      }
+
+      if (action.status !== ActionStatus.AWAITING_APPROVAL) {
+        res.status(409).json({
+          error: "Action is not awaiting approval",
+          status: action.status,
+        });
+        return;
+      }
 
-    // Mark the action as failed
-    await markActionFailed(actionId, error);
+      // Cancel the action
+      await resolveActionApproval(action, false);
 
-    // Get the updated action
-    const updatedAction = await getAction(actionId);
+      // Get the updated action
+      const updatedAction = await getAction(actionId);
 
-    return res.json(updatedAction);
-  } catch (error) {
-    logger.error(
-      { error, actionId: req.params.actionId },
-      "Error failing action"
-    );
+      res.json(updatedAction);
+    } catch (error) {
+      logger.error(
+        { error, actionId: req.params.actionId },
+        "Error rejecting action"
+      );
 
-    return res.status(500).json({
-      error: "An error occurred marking the action as failed",
-      message: (error as Error).message,
-    });
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred rejecting the action",
+        message: (error as Error).message,
+      });
+    }
   }
-});
+);
 
 export default router;
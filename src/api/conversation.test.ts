@@ -0,0 +1,449 @@
+import { createTestHarness, TestHarness } from "../testing/harness";
+import { ChatResponse, ChatStreamEvent } from "../types/conversation";
+import {
+  ActionStatus,
+  ActionType,
+  DB_TABLES,
+  RESPONSE_STYLES,
+} from "../config/constants";
+import * as env from "../config/env";
+import { getConversationActions } from "../storage/action-store";
+
+const REFUND_POLICY = {
+  title: "Refund policy",
+  source: "https://example.com/refunds",
+  content: "Customers can request a refund within 30 days of purchase.",
+  contentType: "text" as const,
+};
+
+describe("conversation routes", () => {
+  let harness: TestHarness;
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it("streams raw tokens and ends with the stored answer", async () => {
+    harness = await createTestHarness({
+      documents: [REFUND_POLICY],
+      responses: ["Refunds take 30 days [1] [7]."],
+    });
+
+    const { status, body: events } = await harness.request<ChatStreamEvent[]>(
+      "/api/conversation/chat/stream",
+      { method: "POST", body: { message: "How long do refunds take?" } }
+    );
+
+    const streamed = events
+      .map((event) => (event.type === "token" ? event.delta : ""))
+      .join("");
+    const done = events.find((event) => event.type === "done");
+
+    expect(status).toBe(200);
+    expect(streamed).toBe("Refunds take 30 days [1] [7].");
+
+    // The citation of a chunk that was not retrieved is removed
+    expect(done).toEqual(
+      expect.objectContaining({ message: "Refunds take 30 days [1]." })
+    );
+
+    const { body: conversation } = await harness.request<{
+      messages: { content: string }[];
+    }>(
+      `/api/conversation/${(done as { response: ChatResponse }).response.conversationId}`
+    );
+    expect(conversation.messages[1].content).toBe("Refunds take 30 days [1].");
+  });
+
+  describe("deleting a conversation", () => {
+    let conversationId: string;
+
+    beforeEach(async () => {
+      harness = await createTestHarness({
+        toolCallRules: [
+          {
+            pattern: /remind me/i,
+            tool: ActionType.SET_REMINDER,
+            args: { title: "Call Ada", date: "2030-01-01", time: "09:00" },
+          },
+        ],
+      });
+
+      const { body } = await harness.request<ChatResponse>(
+        "/api/conversation/chat",
+        { method: "POST", body: { message: "Remind me to call Ada" } }
+      );
+      conversationId = body.conversationId;
+    });
+
+    it("removes its state, actions and checkpoints", async () => {
+      const { status, body } = await harness.request(
+        `/api/conversation/${conversationId}`,
+        { method: "DELETE" }
+      );
+
+      expect(status).toBe(200);
+      expect(body).toEqual(expect.objectContaining({ deletedActions: 1 }));
+      expect(await getConversationActions(conversationId)).toEqual([]);
+      expect(
+        await harness.storage.scanItems(DB_TABLES.CONVERSATION_STATES)
+      ).toEqual([]);
+    });
+
+    it("soft-deletes it until restored", async () => {
+      await harness.request(`/api/conversation/${conversationId}?soft=true`, {
+        method: "DELETE",
+      });
+
+      const [action] = await getConversationActions(conversationId);
+      expect(action.status).toBe(ActionStatus.CANCELLED);
+
+      const continued = await harness.request("/api/conversation/chat", {
+        method: "POST",
+        body: { message: "Hello again", conversationId },
+      });
+      expect(continued.status).toBe(410);
+
+      const restored = await harness.request(
+        `/api/conversation/${conversationId}/restore`,
+        { method: "POST" }
+      );
+      expect(restored.status).toBe(200);
+
+      const { status } = await harness.request("/api/conversation/chat", {
+        method: "POST",
+        body: { message: "Hello again", conversationId },
+      });
+      expect(status).toBe(200);
+    });
+  });
+
+  describe("listing and history", () => {
+    interface ConversationList {
+      conversations: { conversationId: string; messageCount: number }[];
+      nextCursor: string | null;
+    }
+
+    interface MessagePage {
+      messages: { content: string }[];
+      total: number;
+      nextCursor: string | null;
+    }
+
+    /**
+     * Send a message as user-1, returning the conversation ID
+     */
+    async function chat(message: string, conversationId?: string) {
+      const { body } = await harness.request<ChatResponse>(
+        "/api/conversation/chat",
+        { method: "POST", body: { message, conversationId, userId: "user-1" } }
+      );
+      return body.conversationId;
+    }
+
+    beforeEach(async () => {
+      harness = await createTestHarness();
+    });
+
+    it("pages through a user's conversations, newest first", async () => {
+      const ids = [];
+      for (const message of ["first", "second", "third"]) {
+        ids.push(await chat(message));
+      }
+      await harness.request(
+        `/api/conversation/${ids[1]}?userId=user-1&soft=true`,
+        {
+          method: "DELETE",
+        }
+      );
+
+      const first = await harness.request<ConversationList>(
+        "/api/conversation?userId=user-1&limit=1"
+      );
+      const rest = await harness.request<ConversationList>(
+        `/api/conversation?userId=user-1&limit=5&cursor=${first.body.nextCursor}`
+      );
+
+      expect(first.body.conversations.map((c) => c.conversationId)).toEqual([
+        ids[2],
+      ]);
+      expect(rest.body.conversations.map((c) => c.conversationId)).toEqual([
+        ids[0],
+      ]);
+      expect(rest.body.nextCursor).toBeNull();
+    });
+
+    it("pages through messages from the newest page back", async () => {
+      const conversationId = await chat("one");
+      await chat("two", conversationId);
+
+      const latest = await harness.request<MessagePage>(
+        `/api/conversation/${conversationId}/messages?userId=user-1&limit=3`
+      );
+      const earlier = await harness.request<MessagePage>(
+        `/api/conversation/${conversationId}/messages?userId=user-1&limit=3&cursor=${latest.body.nextCursor}`
+      );
+
+      expect(latest.body.total).toBe(4);
+      expect(latest.body.messages.map((m) => m.content)).toEqual([
+        "Fake response to: one",
+        "two",
+        "Fake response to: two",
+      ]);
+      expect(earlier.body.messages.map((m) => m.content)).toEqual(["one"]);
+      expect(earlier.body.nextCursor).toBeNull();
+    });
+
+    it("rejects malformed cursors", async () => {
+      const conversationId = await chat("one");
+
+      const list = await harness.request(
+        "/api/conversation?userId=user-1&cursor=not-a-cursor"
+      );
+      const messages = await harness.request(
+        `/api/conversation/${conversationId}/messages?cursor=not-a-cursor`
+      );
+
+      expect(list.status).toBe(400);
+      expect(messages.status).toBe(400);
+    });
+  });
+
+  describe("conversation access", () => {
+    /**
+     * Start a conversation with the given body fields and headers
+     */
+    async function startConversation(
+      body: Record<string, string>,
+      headers: Record<string, string> = {}
+    ) {
+      const { body: response } = await harness.request<ChatResponse>(
+        "/api/conversation/chat",
+        { method: "POST", body: { message: "Hello", ...body }, headers }
+      );
+      return response.conversationId;
+    }
+
+    beforeEach(async () => {
+      harness = await createTestHarness();
+    });
+
+    it("hides a user's conversation from other users", async () => {
+      const conversationId = await startConversation({ userId: "user-1" });
+      const path = `/api/conversation/${conversationId}`;
+
+      const statuses = await Promise.all(
+        [
+          path,
+          `${path}?userId=user-2`,
+          `${path}/messages?userId=user-2`,
+          `/api/actions/conversation/${conversationId}?userId=user-2`,
+        ].map(async (url) => (await harness.request(url)).status)
+      );
+      const deleted = await harness.request(`${path}?userId=user-2`, {
+        method: "DELETE",
+      });
+      const restored = await harness.request(`${path}/restore?userId=user-2`, {
+        method: "POST",
+      });
+      const owner = await harness.request(`${path}?userId=user-1`);
+
+      expect(statuses).toEqual([404, 404, 404, 404]);
+      expect(deleted.status).toBe(404);
+      expect(restored.status).toBe(404);
+      expect(owner.status).toBe(200);
+    });
+
+    it("does not continue another user's conversation", async () => {
+      const conversationId = await startConversation({ userId: "user-1" });
+
+      const anonymous = await harness.request("/api/conversation/chat", {
+        method: "POST",
+        body: { message: "Hi", conversationId },
+      });
+      const otherUser = await harness.request("/api/conversation/chat", {
+        method: "POST",
+        body: { message: "Hi", conversationId, userId: "user-2" },
+      });
+
+      expect(anonymous.status).toBe(404);
+      expect(otherUser.status).toBe(404);
+    });
+
+    it("hides a tenant's conversation from other tenants", async () => {
+      const conversationId = await startConversation(
+        {},
+        { "X-Tenant-Id": "acme" }
+      );
+      const path = `/api/conversation/${conversationId}`;
+
+      const untenanted = await harness.request(path);
+      const otherTenant = await harness.request(path, {
+        headers: { "X-Tenant-Id": "globex" },
+      });
+      const continued = await harness.request("/api/conversation/chat", {
+        method: "POST",
+        body: { message: "Hi", conversationId, tenantId: "globex" },
+      });
+      const tenant = await harness.request(path, {
+        headers: { "X-Tenant-Id": "acme" },
+      });
+
+      expect(untenanted.status).toBe(404);
+      expect(otherTenant.status).toBe(404);
+      expect(continued.status).toBe(404);
+      expect(tenant.status).toBe(200);
+    });
+
+    it("lists a user's conversations within the tenant only", async () => {
+      const acme = await startConversation(
+        { userId: "user-1" },
+        { "X-Tenant-Id": "acme" }
+      );
+      const globex = await startConversation(
+        { userId: "user-1" },
+        { "X-Tenant-Id": "globex" }
+      );
+      const untenanted = await startConversation({ userId: "user-1" });
+
+      const list = async (headers: Record<string, string>) => {
+        const { body } = await harness.request<{
+          conversations: { conversationId: string }[];
+        }>("/api/conversation?userId=user-1", { headers });
+        return body.conversations.map((c) => c.conversationId);
+      };
+
+      expect(await list({ "X-Tenant-Id": "acme" })).toEqual([acme]);
+      expect(await list({ "X-Tenant-Id": "globex" })).toEqual([globex]);
+      expect(await list({})).toEqual([untenanted]);
+    });
+
+    it("retrieves context from the tenant's namespace only", async () => {
+      harness.chatModel.defaultResponse = "See [1].";
+      await harness.request("/api/knowledge/documents", {
+        method: "POST",
+        body: REFUND_POLICY,
+        headers: { "X-Tenant-Id": "acme" },
+      });
+
+      const chat = (headers: Record<string, string>) =>
+        harness.request<ChatResponse>("/api/conversation/chat", {
+          method: "POST",
+          body: { message: "How long do refunds take?" },
+          headers,
+        });
+      const tenant = await chat({ "X-Tenant-Id": "acme" });
+      const otherTenant = await chat({ "X-Tenant-Id": "globex" });
+      const untenanted = await chat({});
+
+      expect(tenant.body.citations.map((c) => c.title)).toEqual([
+        "Refund policy",
+      ]);
+      expect(otherTenant.body.citations).toEqual([]);
+      expect(untenanted.body.citations).toEqual([]);
+    });
+  });
+
+  describe("generation settings", () => {
+    /**
+     * Send a chat message with the given settings
+     */
+    function chat(settings?: Record<string, unknown>, conversationId?: string) {
+      return harness.request<ChatResponse>("/api/conversation/chat", {
+        method: "POST",
+        body: { message: "Explain refunds", conversationId, settings },
+      });
+    }
+
+    beforeEach(async () => {
+      jest.replaceProperty(env, "LLM_ALLOWED_MODELS", ["gpt-4o-mini"]);
+      harness = await createTestHarness({ defaultResponse: "Short answer." });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("keeps the chosen settings for later turns", async () => {
+      const first = await chat({ model: "gpt-4o-mini", style: "concise" });
+      const second = await chat(undefined, first.body.conversationId);
+      const { body: conversation } = await harness.request<{
+        generationSettings: unknown;
+      }>(`/api/conversation/${first.body.conversationId}`);
+
+      expect(second.status).toBe(200);
+      expect(second.body.metadata?.model).toEqual(
+        expect.objectContaining({ model: "gpt-4o-mini" })
+      );
+      expect(conversation.generationSettings).toEqual({
+        model: "gpt-4o-mini",
+        style: "concise",
+      });
+
+      const calls = harness.chatModel.calls;
+      const prompt = calls[calls.length - 1]
+        .filter((message) => message.getType() === "system")
+        .map((message) => message.content.toString())
+        .join("\n");
+      expect(prompt).toContain(RESPONSE_STYLES.concise);
+    });
+
+    it("restores a default when a setting is null", async () => {
+      const first = await chat({ model: "gpt-4o-mini", temperature: 0.5 });
+      const second = await chat({ model: null }, first.body.conversationId);
+      const { body: conversation } = await harness.request<{
+        generationSettings: unknown;
+      }>(`/api/conversation/${first.body.conversationId}`);
+
+      expect(second.body.metadata?.model).toEqual(
+        expect.objectContaining({ model: env.LLM_MODEL })
+      );
+      expect(conversation.generationSettings).toEqual({ temperature: 0.5 });
+    });
+
+    it("rejects models outside the allow-list", async () => {
+      const allowed = await chat({ model: env.LLM_MODEL });
+      const callCount = harness.chatModel.calls.length;
+      const disallowed = await chat({ model: "gpt-4-turbo" });
+
+      expect(allowed.status).toBe(200);
+      expect(disallowed.status).toBe(400);
+      // The rejected request never reached the model
+      expect(harness.chatModel.calls).toHaveLength(callCount);
+    });
+
+    it("rejects out-of-range temperature and maxTokens", async () => {
+      const statuses = await Promise.all(
+        [
+          { temperature: 2.5 },
+          { temperature: -1 },
+          { maxTokens: 0 },
+          { maxTokens: 1.5 },
+          { maxTokens: 100_000 },
+        ].map(async (settings) => (await chat(settings)).status)
+      );
+
+      expect(statuses).toEqual([400, 400, 400, 400, 400]);
+    });
+
+    it("limits temperature to the provider's maximum", async () => {
+      await harness.cleanup();
+      harness = await createTestHarness({ maxTemperature: 1 });
+
+      const within = await chat({ temperature: 1 });
+      const above = await chat({ temperature: 1.5 });
+
+      expect(within.status).toBe(200);
+      expect(above.status).toBe(400);
+    });
+
+    it("rejects a model when the provider has a fixed one", async () => {
+      await harness.cleanup();
+      harness = await createTestHarness({ modelSelection: false });
+
+      const { status } = await chat({ model: env.LLM_MODEL });
+
+      expect(status).toBe(400);
+    });
+  });
+});
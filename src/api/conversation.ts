@@ -1,39 +1,418 @@
 import express from "express";
 import { z } from "zod";
-import { createAdvancedConversationGraph } from "../graphs/conversation-graph";
 import {
+  createAdvancedConversationGraph,
+  runConversationGraph,
+} from "../graphs/conversation-graph";
+import {
+  deleteConversationState,
   getOrCreateConversationState,
+  getStoredConversationState,
+  listUserConversations,
+  restoreConversationState,
   saveConversationState,
+  softDeleteConversationState,
 } from "../storage/conversation-store";
+import {
+  cancelConversationActions,
+  deleteConversationActions,
+} from "../storage/action-store";
+import { getCheckpointer } from "../storage/checkpoint-store";
 import { addHumanMessage } from "../conversation/memory";
-import { ChatResponse } from "../types/conversation";
+import { extractUserMemories } from "../conversation/user-memory";
+import {
+  ChatResponse,
+  ChatStreamEvent,
+  Citation,
+  GenerationSettings,
+  NodeOptions,
+  ResponseStyle,
+  StoredConversationState,
+} from "../types/conversation";
+import { LLM_ALLOWED_MODELS, LLM_MODEL, USER_MEMORY } from "../config/env";
+import { GENERATION_SETTINGS, RESPONSE_STYLES } from "../config/constants";
+import { getModelProvider } from "../models/model-provider";
 import { createLogger } from "../utils/logger";
 import { v4 as uuidv4 } from "uuid";
 import { traceManager } from "../utils/trace-manager";
+import { AppError, ErrorFactory } from "../utils/error-handler";
+import { paginationSchema } from "../utils/validators";
+import { BaseMessage } from "@langchain/core/messages";
+import { openEventStream, wantsEventStream } from "./event-stream";
+import {
+  canAccessConversation,
+  getRequestConversation,
+  getRequestTenantId,
+  tenantIdSchema,
+} from "./tenant";
 
 const logger = createLogger("conversation-api");
 const router: express.Router = express.Router();
 
+/**
+ * Get the models chat requests may select
+ * None when the provider serves a fixed deployment instead of named models
+ */
+function getAllowedModels(): Set<string> {
+  return getModelProvider().modelSelection
+    ? new Set([LLM_MODEL, ...LLM_ALLOWED_MODELS])
+    : new Set();
+}
+
+/**
+ * Check requested settings against what the chat provider can honour
+ */
+function validateProviderSettings(
+  settings: { model?: string | null; temperature?: number | null },
+  ctx: z.RefinementCtx
+) {
+  const provider = getModelProvider();
+  const allowedModels = getAllowedModels();
+
+  if (settings.model && !allowedModels.has(settings.model)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["model"],
+      message: allowedModels.size
+        ? `Model must be one of: ${[...allowedModels].join(", ")}`
+        : `The model cannot be chosen with the ${provider.name} provider`,
+    });
+  }
+
+  if ((settings.temperature ?? 0) > provider.maxTemperature) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["temperature"],
+      message: `Temperature must be at most ${provider.maxTemperature} with the ${provider.name} provider`,
+    });
+  }
+}
+
+// Generation settings a chat request may choose; null restores the default
+const generationSettingsSchema = z
+  .object({
+    model: z.string().min(1).nullable(),
+    temperature: z.number().min(0).nullable(), // Up to the provider's maximum
+    maxTokens: z
+      .number()
+      .int()
+      .positive()
+      .max(GENERATION_SETTINGS.MAX_TOKENS)
+      .nullable(),
+    style: z
+      .enum(Object.keys(RESPONSE_STYLES) as [ResponseStyle, ...ResponseStyle[]])
+      .nullable(),
+  })
+  .partial()
+  .strict()
+  .superRefine(validateProviderSettings);
+
 // Request validation schema
 const chatRequestSchema = z.object({
   message: z.string().min(1, "Message cannot be empty"),
   conversationId: z.string().optional(),
+  userId: z.string().min(1).optional(),
+  tenantId: tenantIdSchema.optional(),
+  settings: generationSettingsSchema.optional(),
   metadata: z.record(z.any()).optional(),
 });
 
+type ChatRequestBody = z.infer<typeof chatRequestSchema>;
+
+// Listing query validation
+const listConversationsSchema = paginationSchema.extend({
+  userId: z.string().min(1, "userId is required"),
+});
+
 // Store run IDs for parent-child relationships
 const runIdMap = new Map<string, string>();
 
 /**
- * POST /api/conversation/chat
- * Main endpoint for chat interactions
+ * Apply a request's generation settings over the conversation's, where a
+ * null setting restores the default
+ * A saved model that has since left the allow-list is dropped.
+ */
+function mergeGenerationSettings(
+  current: GenerationSettings | null | undefined,
+  requested: ChatRequestBody["settings"]
+): GenerationSettings | null {
+  const allowedModels = getAllowedModels();
+  const merged = Object.fromEntries(
+    Object.entries({ ...current, ...requested }).filter(
+      ([key, value]) =>
+        value !== null &&
+        value !== undefined &&
+        (key !== "model" || allowedModels.has(value as string))
+    )
+  ) as GenerationSettings;
+
+  return Object.keys(merged).length ? merged : null;
+}
+
+/**
+ * Run a single chat turn through the conversation graph and persist the result
+ */
+async function processChatTurn(
+  request: ChatRequestBody,
+  options?: NodeOptions
+): Promise<ChatResponse> {
+  const { message, conversationId, userId, tenantId, settings, metadata } =
+    request;
+
+  // Generate a conversation ID if not provided
+  const finalConversationId = conversationId || `conv_${uuidv4()}`;
+
+  const storedState = conversationId
+    ? await getStoredConversationState(conversationId)
+    : null;
+
+  // Conversations stay with the tenant and user that started them, so
+  // retrieval never reaches another tenant's knowledge base
+  if (storedState && !canAccessConversation(storedState, tenantId, userId)) {
+    throw ErrorFactory.notFound("Conversation not found");
+  }
+
+  // A soft-deleted conversation must be restored before it can continue
+  if (storedState?.deletedAt) {
+    throw ErrorFactory.gone("Conversation has been deleted");
+  }
+
+  const ownerId = storedState?.userId || userId;
+
+  logger.info(
+    {
+      conversationId: finalConversationId,
+      messageLength: message.length,
+      streaming: Boolean(options?.onEvent),
+    },
+    "Processing chat request"
+  );
+
+  // Start timing for performance tracking
+  const startTime = Date.now();
+
+  // Get or create conversation state
+  const state = await getOrCreateConversationState(finalConversationId);
+
+  // Add the user message to state
+  // Settings chosen by earlier requests stay until replaced
+  const updatedState = addHumanMessage(
+    {
+      ...state,
+      tenantId,
+      userId: ownerId,
+      generationSettings: mergeGenerationSettings(
+        state.generationSettings,
+        settings
+      ),
+    },
+    message
+  );
+
+  // Create a new run ID and get parent run ID if available
+  const runId = uuidv4();
+  const parentRunId = runIdMap.get(finalConversationId);
+
+  // Create the conversation graph
+  const graph = createAdvancedConversationGraph();
+
+  // Set up tracing for this conversation
+  await traceManager.setupTraceSession(finalConversationId);
+
+  // Run with tracing context
+  const result = await traceManager.runWithTracing(
+    finalConversationId,
+    () => runConversationGraph(graph, updatedState, options),
+    {
+      runId,
+      parentRunId,
+      metadata: {
+        conversationId: finalConversationId,
+        messageIndex: state.messages.length,
+      },
+    }
+  );
+
+  // Store this run ID for future requests
+  runIdMap.set(finalConversationId, runId);
+
+  // Calculate processing time
+  const processingTime = Date.now() - startTime;
+
+  // Save the updated state
+  await saveConversationState(result, { userId: ownerId });
+
+  // Facts about the user are extracted in the background, so remembering
+  // them never delays or fails the turn
+  if (USER_MEMORY === "on" && ownerId) {
+    void extractUserMemories(result, ownerId);
+  }
+
+  // Get the last AI message
+  const lastAiMessage = result.messages[result.messages.length - 1];
+
+  // Build the response
+  const response: ChatResponse = {
+    message: lastAiMessage.content as string,
+    conversationId: finalConversationId,
+    actions: result.pending_actions.filter(
+      (action: any) =>
+        action.status === "completed" || action.status === "awaiting_approval"
+    ),
+    citations:
+      (lastAiMessage.additional_kwargs?.citations as Citation[] | undefined) ??
+      [],
+    metadata: {
+      processingTime,
+      traceId: runId,
+      ...(lastAiMessage.additional_kwargs?.promptTokens
+        ? { promptTokens: lastAiMessage.additional_kwargs.promptTokens }
+        : {}),
+      ...(lastAiMessage.additional_kwargs?.model
+        ? { model: lastAiMessage.additional_kwargs.model }
+        : {}),
+      ...(metadata || {}),
+    },
+  };
+
+  logger.info(
+    {
+      conversationId: finalConversationId,
+      processingTime,
+      actionCount: response.actions.length,
+    },
+    "Chat request processed successfully"
+  );
+
+  return response;
+}
+
+/**
+ * Delete a conversation and everything that hangs off it
+ *
+ * A hard delete removes the conversation state, its actions and its graph
+ * checkpoints. A soft delete only hides the conversation and cancels actions
+ * that have not run yet, so it can be restored later.
+ * Returns null if the conversation is already soft-deleted.
+ */
+async function deleteConversation(
+  storedState: StoredConversationState,
+  soft: boolean
+): Promise<{ actionCount: number } | null> {
+  const conversationId = storedState.id;
+
+  // Soft-deleting twice is treated as not found; a hard delete purges it
+  if (soft && storedState.deletedAt) {
+    return null;
+  }
+
+  let actionCount: number;
+
+  if (soft) {
+    await softDeleteConversationState(conversationId);
+    actionCount = await cancelConversationActions(
+      conversationId,
+      "Conversation deleted"
+    );
+  } else {
+    actionCount = await deleteConversationActions(conversationId);
+    await getCheckpointer().deleteThread(conversationId);
+    await deleteConversationState(conversationId);
+  }
+
+  // Drop in-memory tracing state for the conversation
+  runIdMap.delete(conversationId);
+  traceManager.endTraceSession(conversationId);
+
+  logger.info({ conversationId, soft, actionCount }, "Conversation deleted");
+
+  return { actionCount };
+}
+
+/**
+ * Format a message for API responses
+ */
+function formatMessage(message: BaseMessage) {
+  return {
+    role: message._getType ? message._getType() : "unknown",
+    content: message.content,
+    timestamp: message.additional_kwargs?.timestamp || Date.now(),
+    ...(message.additional_kwargs?.citations
+      ? { citations: message.additional_kwargs.citations as Citation[] }
+      : {}),
+  };
+}
+
+/**
+ * Encode a message offset as a pagination cursor
+ */
+function encodeMessageCursor(before: number): string {
+  return Buffer.from(JSON.stringify({ before })).toString("base64url");
+}
+
+/**
+ * Decode a message pagination cursor
+ * Returns null if the cursor is malformed
+ */
+function decodeMessageCursor(cursor: string): number | null {
+  try {
+    const { before } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    return Number.isInteger(before) && before >= 0 ? before : null;
+  } catch (error) {
+    logger.debug({ error }, "Invalid message cursor");
+    return null;
+  }
+}
+
+/**
+ * Stream a chat turn to the client as Server-Sent Events
+ *
+ * If the client disconnects mid-stream the turn still runs to completion so
+ * that executed actions and the conversation state are persisted; we only
+ * stop writing to the closed connection.
  */
-// @ts-ignore - express router
-router.post("/chat", async (req, res) => {
+async function streamChatTurn(
+  res: express.Response,
+  request: ChatRequestBody
+): Promise<void> {
+  const stream = openEventStream<ChatStreamEvent>(res, () =>
+    logger.info(
+      { conversationId: request.conversationId },
+      "Client disconnected from chat stream"
+    )
+  );
+
   try {
-    logger.info("Received chat request", {
-      runIdMap: Array.from(runIdMap.entries()),
+    const response = await processChatTurn(request, { onEvent: stream.send });
+    stream.send({ type: "done", message: response.message, response });
+  } catch (error) {
+    logger.error({ error }, "Error processing streamed chat request");
+
+    stream.send({
+      type: "error",
+      error: "An error occurred processing your request",
+      message: (error as Error).message,
     });
+  } finally {
+    stream.end();
+  }
+}
+
+/**
+ * Validate a chat request and respond with JSON or an event stream
+ */
+async function handleChat(
+  req: express.Request,
+  res: express.Response,
+  stream: boolean
+): Promise<void> {
+  try {
+    logger.info(
+      { runIdMap: Array.from(runIdMap.entries()) },
+      "Received chat request"
+    );
 
     // Validate request
     const validationResult = chatRequestSchema.safeParse(req.body);
@@ -43,184 +422,335 @@ router.post("/chat", async (req, res) => {
         { errors: validationResult.error.errors },
         "Invalid chat request"
       );
-      return res.status(400).json({
+      res.status(400).json({
         error: "Invalid request",
         details: validationResult.error.errors,
       });
+      return;
     }
 
-    const { message, conversationId, metadata } = validationResult.data;
+    const request = {
+      ...validationResult.data,
+      tenantId: getRequestTenantId(req, validationResult.data.tenantId),
+    };
 
-    // Generate a conversation ID if not provided
-    const finalConversationId = conversationId || `conv_${uuidv4()}`;
+    if (stream) {
+      await streamChatTurn(res, request);
+      return;
+    }
 
-    logger.info(
-      {
-        conversationId: finalConversationId,
-        messageLength: message.length,
-      },
-      "Processing chat request"
-    );
+    const response = await processChatTurn(request);
+
+    res.json(response);
+  } catch (error) {
+    logger.error({ error }, "Error processing chat request");
 
-    // Start timing for performance tracking
-    const startTime = Date.now();
+    if (error instanceof AppError && error.isOperational) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
 
-    // Get or create conversation state
-    const state = await getOrCreateConversationState(finalConversationId);
+    res.status(500).json({
+      error: "An error occurred processing your request",
+      message: (error as Error).message,
+    });
+  }
+}
 
-    // Add the user message to state
-    const updatedState = addHumanMessage(state, message);
+/**
+ * POST /api/conversation/chat
+ * Main endpoint for chat interactions
+ * Responds with Server-Sent Events when the client sends
+ * `Accept: text/event-stream`
+ */
+router.post("/chat", (req, res) => handleChat(req, res, wantsEventStream(req)));
 
-    // Create a new run ID and get parent run ID if available
-    const runId = uuidv4();
-    const parentRunId = runIdMap.get(finalConversationId);
+/**
+ * POST /api/conversation/chat/stream
+ * Streaming chat endpoint using Server-Sent Events
+ */
+router.post("/chat/stream", (req, res) => handleChat(req, res, true));
 
-    // Create the conversation graph
-    const graph = createAdvancedConversationGraph();
+/**
+ * GET /api/conversation?userId=&limit=&cursor=
+ * List a user's conversations in the request's tenant, most recently updated
+ * first
+ */
+router.get(
+  "/",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const validationResult = listConversationsSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: "Invalid request",
+          details: validationResult.error.errors,
+        });
+        return;
+      }
 
-    // Set up tracing for this conversation
-    await traceManager.setupTraceSession(finalConversationId);
+      const { userId, limit, cursor } = validationResult.data;
+      const tenantId = getRequestTenantId(req);
 
-    // Run the conversation graph with tracing info
-    logger.debug(
-      { conversationId: updatedState.conversationId },
-      "Running conversation graph"
-    );
+      logger.debug({ userId, tenantId, limit }, "Listing conversations");
 
-    // Run with tracing context
-    const result = await traceManager.runWithTracing(
-      finalConversationId,
-      () => graph.invoke(updatedState),
-      {
-        runId,
-        parentRunId,
-        metadata: {
-          conversationId: finalConversationId,
-          messageIndex: state.messages.length,
-        },
+      const page = await listUserConversations(userId, tenantId, limit, cursor);
+
+      res.json({
+        conversations: page.conversations,
+        nextCursor: page.nextCursor ?? null,
+      });
+    } catch (error) {
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
       }
-    );
 
-    // Store this run ID for future requests
-    runIdMap.set(finalConversationId, runId);
+      logger.error({ error }, "Error listing conversations");
+
+      res.status(500).json({
+        error: "An error occurred listing conversations",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/conversation/:conversationId/messages?userId=&limit=&cursor=
+ * Page through a conversation's messages, newest page first
+ * Messages within a page are in chronological order; `nextCursor` points
+ * at the previous (older) page
+ */
+router.get(
+  "/:conversationId/messages",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params;
+      const validationResult = paginationSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: "Invalid request",
+          details: validationResult.error.errors,
+        });
+        return;
+      }
 
-    // Calculate processing time
-    const processingTime = Date.now() - startTime;
+      const { limit, cursor } = validationResult.data;
+      const before = cursor ? decodeMessageCursor(cursor) : undefined;
 
-    // Save the updated state
-    await saveConversationState(result);
+      if (before === null) {
+        res.status(400).json({
+          error: "Invalid cursor",
+        });
+        return;
+      }
 
-    // Get the last AI message
-    const lastAiMessage = result.messages[result.messages.length - 1];
+      logger.debug({ conversationId, limit }, "Getting conversation messages");
 
-    // Build the response
-    const response: ChatResponse = {
-      message: lastAiMessage.content as string,
-      conversationId: finalConversationId,
-      actions: result.pending_actions.filter(
-        (action: any) => action.status === "completed"
-      ),
-      metadata: {
-        processingTime,
-        traceId: runId,
-        ...(metadata || {}),
-      },
-    };
+      const storedState = await getRequestConversation(req, conversationId);
+      const state =
+        storedState && (await getOrCreateConversationState(conversationId));
 
-    logger.info(
-      {
-        conversationId: finalConversationId,
-        processingTime,
-        actionCount: response.actions.length,
-      },
-      "Chat request processed successfully"
-    );
+      if (!state || state.messages.length === 0) {
+        res.status(404).json({
+          error: "Conversation not found",
+        });
+        return;
+      }
 
-    return res.json(response);
-  } catch (error) {
-    logger.error({ error }, "Error processing chat request");
+      const end = Math.min(
+        before ?? state.messages.length,
+        state.messages.length
+      );
+      const start = Math.max(0, end - limit);
 
-    return res.status(500).json({
-      error: "An error occurred processing your request",
-      message: (error as Error).message,
-    });
+      res.json({
+        conversationId,
+        messages: state.messages.slice(start, end).map(formatMessage),
+        total: state.messages.length,
+        nextCursor: start > 0 ? encodeMessageCursor(start) : null,
+      });
+    } catch (error) {
+      logger.error(
+        { error, conversationId: req.params.conversationId },
+        "Error getting conversation messages"
+      );
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred retrieving the conversation messages",
+        message: (error as Error).message,
+      });
+    }
   }
-});
+);
 
 /**
- * GET /api/conversation/:conversationId
+ * GET /api/conversation/:conversationId?userId=
  * Get conversation history and metadata
  */
-// @ts-ignore - express router
-router.get("/:conversationId", async (req, res) => {
-  try {
-    const { conversationId } = req.params;
+router.get(
+  "/:conversationId",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params;
+
+      logger.debug({ conversationId }, "Getting conversation");
+
+      // Get conversation state
+      const storedState = await getRequestConversation(req, conversationId);
+      const state =
+        storedState && (await getOrCreateConversationState(conversationId));
+
+      // Check if conversation exists (has messages)
+      if (!state || state.messages.length === 0) {
+        res.status(404).json({
+          error: "Conversation not found",
+        });
+        return;
+      }
+
+      // Format messages for the response
+      const messages = state.messages.map(formatMessage);
 
-    logger.debug({ conversationId }, "Getting conversation");
+      res.json({
+        conversationId,
+        messages,
+        actionCount: state.pending_actions.length,
+        summary: state.summary ?? null,
+        generationSettings: state.generationSettings ?? null,
+      });
+    } catch (error) {
+      logger.error(
+        { error, conversationId: req.params.conversationId },
+        "Error getting conversation"
+      );
 
-    // Get conversation state
-    const state = await getOrCreateConversationState(conversationId);
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
 
-    // Check if conversation exists (has messages)
-    if (!state || state.messages.length === 0) {
-      return res.status(404).json({
-        error: "Conversation not found",
+      res.status(500).json({
+        error: "An error occurred retrieving the conversation",
+        message: (error as Error).message,
       });
     }
+  }
+);
 
-    // Format messages for the response
-    const messages = state.messages.map((message) => ({
-      role: message._getType ? message._getType() : "unknown",
-      content: message.content,
-      timestamp: message.additional_kwargs?.timestamp || Date.now(),
-    }));
+/**
+ * DELETE /api/conversation/:conversationId?userId=&soft=
+ * Delete a conversation, its actions and checkpoints
+ * Pass `?soft=true` to soft-delete so it can be restored later
+ */
+router.delete(
+  "/:conversationId",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params;
+      const soft = req.query.soft === "true";
+
+      logger.debug({ conversationId, soft }, "Deleting conversation");
+
+      const storedState = await getRequestConversation(req, conversationId);
+      const result =
+        storedState && (await deleteConversation(storedState, soft));
+
+      if (!result) {
+        res.status(404).json({
+          error: "Conversation not found",
+        });
+        return;
+      }
 
-    return res.json({
-      conversationId,
-      messages,
-      actionCount: state.pending_actions.length,
-    });
-  } catch (error) {
-    logger.error(
-      { error, conversationId: req.params.conversationId },
-      "Error getting conversation"
-    );
+      res.json({
+        success: true,
+        message: soft
+          ? "Conversation soft-deleted; it can be restored"
+          : "Conversation deleted successfully",
+        soft,
+        ...(soft
+          ? { cancelledActions: result.actionCount }
+          : { deletedActions: result.actionCount }),
+      });
+    } catch (error) {
+      logger.error(
+        { error, conversationId: req.params.conversationId },
+        "Error deleting conversation"
+      );
 
-    return res.status(500).json({
-      error: "An error occurred retrieving the conversation",
-      message: (error as Error).message,
-    });
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred deleting the conversation",
+        message: (error as Error).message,
+      });
+    }
   }
-});
+);
 
 /**
- * DELETE /api/conversation/:conversationId
- * Delete a conversation
+ * POST /api/conversation/:conversationId/restore?userId=
+ * Restore a soft-deleted conversation
  */
-// @ts-ignore - express router
-router.delete("/:conversationId", async (req, res) => {
-  try {
-    const { conversationId } = req.params;
+router.post(
+  "/:conversationId/restore",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const { conversationId } = req.params;
 
-    logger.debug({ conversationId }, "Deleting conversation");
+      logger.debug({ conversationId }, "Restoring conversation");
 
-    // TODO: Implement conversation deletion
+      const storedState = await getRequestConversation(req, conversationId);
 
-    return res.json({
-      success: true,
-      message: "Conversation deleted successfully",
-    });
-  } catch (error) {
-    logger.error(
-      { error, conversationId: req.params.conversationId },
-      "Error deleting conversation"
-    );
+      if (!storedState) {
+        res.status(404).json({
+          error: "Conversation not found",
+        });
+        return;
+      }
 
-    return res.status(500).json({
-      error: "An error occurred deleting the conversation",
-      message: (error as Error).message,
-    });
+      if (!storedState.deletedAt) {
+        res.status(409).json({
+          error: "Conversation is not deleted",
+        });
+        return;
+      }
+
+      await restoreConversationState(conversationId);
+
+      res.json({
+        success: true,
+        message: "Conversation restored successfully",
+      });
+    } catch (error) {
+      logger.error(
+        { error, conversationId: req.params.conversationId },
+        "Error restoring conversation"
+      );
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred restoring the conversation",
+        message: (error as Error).message,
+      });
+    }
   }
-});
+);
 
 export default router;
@@ -0,0 +1,56 @@
+import express from "express";
+
+/**
+ * Server-Sent Events connection to a client
+ */
+export interface EventStream<E extends { type: string }> {
+  send(event: E): void;
+  end(): void;
+}
+
+/**
+ * Check whether the client asked for a Server-Sent Events response
+ */
+export function wantsEventStream(req: express.Request): boolean {
+  return (req.headers.accept || "").includes("text/event-stream");
+}
+
+/**
+ * Start a Server-Sent Events response
+ *
+ * Each event is written with its `type` as the event name. Once the client
+ * disconnects, events are dropped instead of written to the closed
+ * connection and `onDisconnect` is called.
+ */
+export function openEventStream<E extends { type: string }>(
+  res: express.Response,
+  onDisconnect?: () => void
+): EventStream<E> {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no"); // Disable proxy buffering
+  res.flushHeaders();
+
+  let clientConnected = true;
+
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      clientConnected = false;
+      onDisconnect?.();
+    }
+  });
+
+  return {
+    send(event: E) {
+      if (!clientConnected) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    },
+    end() {
+      if (clientConnected) {
+        res.end();
+      }
+    },
+  };
+}
@@ -0,0 +1,227 @@
+import { createTestHarness, TestHarness } from "../testing/harness";
+import { getChunkId, parseChunkId } from "../knowledge/ingestion";
+import { listDocumentIds } from "../vectorstore/vector-store";
+import {
+  IngestionResult,
+  KnowledgeBaseStats,
+  KnowledgeSource,
+  KnowledgeSourceSummary,
+} from "../types/knowledge";
+
+/**
+ * Text that splits into the given number of 100-character chunks
+ */
+function paragraphs(count: number): string {
+  return Array.from({ length: count }, (_, i) =>
+    `Paragraph ${i} ${"of the handbook ".repeat(5)}`.trim()
+  ).join("\n\n");
+}
+
+describe("knowledge ingestion routes", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await createTestHarness();
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it("parses the chunk ids it creates", () => {
+    expect(getChunkId("handbook:v2", 3)).toBe("handbook:v2#3");
+    expect(parseChunkId("handbook:v2#3")).toEqual({
+      sourceId: "handbook:v2",
+      chunkIndex: 3,
+    });
+    // Vectors added outside ingestion are single-chunk sources
+    expect(parseChunkId("legacy-id")).toEqual({
+      sourceId: "legacy-id",
+      chunkIndex: 0,
+    });
+  });
+
+  it("replaces a source's chunks when it is ingested again", async () => {
+    const ingest = (content: string) =>
+      harness.request<IngestionResult>("/api/knowledge/documents", {
+        method: "POST",
+        body: {
+          sourceId: "handbook",
+          content,
+          chunkSize: 100,
+          chunkOverlap: 0,
+        },
+      });
+
+    const first = await ingest(paragraphs(4));
+    const second = await ingest(paragraphs(2));
+
+    expect(first.status).toBe(201);
+    expect(first.body.chunkCount).toBe(4);
+    expect(second.body).toMatchObject({ chunkCount: 2, removedChunks: 2 });
+    expect((await listDocumentIds("handbook#")).sort()).toEqual([
+      "handbook#0",
+      "handbook#1",
+    ]);
+  });
+
+  it("rejects an overlap that does not advance the chunks", async () => {
+    const { status, body } = await harness.request<{ details: unknown[] }>(
+      "/api/knowledge/documents",
+      {
+        method: "POST",
+        body: { content: "Text", chunkSize: 100, chunkOverlap: 100 },
+      }
+    );
+
+    expect(status).toBe(400);
+    expect(body.details).toEqual([
+      expect.objectContaining({ path: ["chunkOverlap"] }),
+    ]);
+  });
+
+  it("reports failed documents of a batch without stopping it", async () => {
+    const { status, body } = await harness.request<{
+      documents: IngestionResult[];
+      failed: { sourceId: string }[];
+    }>("/api/knowledge/documents/batch", {
+      method: "POST",
+      body: {
+        documents: [
+          { sourceId: "empty", content: "<p></p>", contentType: "html" },
+          { sourceId: "faq", content: "Shipping takes two days." },
+        ],
+      },
+    });
+
+    expect(status).toBe(200);
+    expect(body.failed.map((failure) => failure.sourceId)).toEqual(["empty"]);
+    expect(body.documents.map((document) => document.sourceId)).toEqual([
+      "faq",
+    ]);
+  });
+});
+
+describe("knowledge source routes", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await createTestHarness();
+
+    await harness.request("/api/knowledge/documents/batch", {
+      method: "POST",
+      body: {
+        chunkSize: 100,
+        chunkOverlap: 0,
+        documents: [
+          { sourceId: "returns", title: "Returns", content: paragraphs(3) },
+          { sourceId: "billing", content: "Invoices are sent monthly." },
+          { sourceId: "shipping", content: "Orders ship in two days." },
+        ],
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it("lists sources by ID, a page at a time", async () => {
+    const first = await harness.request<{
+      sources: KnowledgeSourceSummary[];
+      nextCursor?: string;
+    }>("/api/knowledge/documents?limit=2");
+    const rest = await harness.request<{
+      sources: KnowledgeSourceSummary[];
+      nextCursor?: string;
+    }>(`/api/knowledge/documents?limit=2&cursor=${first.body.nextCursor}`);
+
+    expect(
+      first.body.sources.map(({ sourceId, chunkCount }) => ({
+        sourceId,
+        chunkCount,
+      }))
+    ).toEqual([
+      { sourceId: "billing", chunkCount: 1 },
+      { sourceId: "returns", chunkCount: 3 },
+    ]);
+    expect(rest.body.sources.map((source) => source.sourceId)).toEqual([
+      "shipping",
+    ]);
+    expect(rest.body.nextCursor).toBeUndefined();
+  });
+
+  it("gets a source with its chunks in order", async () => {
+    const { status, body } = await harness.request<KnowledgeSource>(
+      "/api/knowledge/documents/returns"
+    );
+
+    expect(status).toBe(200);
+    expect(body.title).toBe("Returns");
+    expect(body.chunks.map((chunk) => chunk.id)).toEqual([
+      "returns#0",
+      "returns#1",
+      "returns#2",
+    ]);
+  });
+
+  it("deletes a source's chunks", async () => {
+    const deleted = await harness.request("/api/knowledge/documents/returns", {
+      method: "DELETE",
+    });
+    const missing = await harness.request("/api/knowledge/documents/returns");
+    const stats = await harness.request<KnowledgeBaseStats>(
+      "/api/knowledge/stats"
+    );
+
+    expect(deleted.body).toEqual({ sourceId: "returns", deletedChunks: 3 });
+    expect(missing.status).toBe(404);
+    expect(stats.body).toMatchObject({ vectorCount: 2, sourceCount: 2 });
+  });
+
+  it("keeps namespaces apart", async () => {
+    await harness.request("/api/knowledge/documents", {
+      method: "POST",
+      body: { sourceId: "returns", content: "Other", namespace: "staging" },
+    });
+
+    const staging = await harness.request<KnowledgeSource>(
+      "/api/knowledge/documents/returns?namespace=staging"
+    );
+    const stats = await harness.request<KnowledgeBaseStats>(
+      "/api/knowledge/stats?namespace=staging"
+    );
+
+    expect(staging.body.chunks.map((chunk) => chunk.content)).toEqual([
+      "Other",
+    ]);
+    expect(stats.body).toMatchObject({ vectorCount: 1, sourceCount: 1 });
+  });
+
+  it("routes tenant requests to the tenant's namespace", async () => {
+    const tenant = { "X-Tenant-Id": "acme" };
+    await harness.request("/api/knowledge/documents", {
+      method: "POST",
+      body: { sourceId: "returns", content: "Acme returns" },
+      headers: tenant,
+    });
+
+    const own = await harness.request<KnowledgeSource>(
+      "/api/knowledge/documents/returns",
+      { headers: tenant }
+    );
+    const chosenNamespace = await harness.request(
+      "/api/knowledge/documents/returns?namespace=staging",
+      { headers: tenant }
+    );
+    const untenanted = await harness.request(
+      "/api/knowledge/documents/returns?namespace=tenant:acme"
+    );
+
+    expect(own.body.chunks.map((chunk) => chunk.content)).toEqual([
+      "Acme returns",
+    ]);
+    expect(chosenNamespace.status).toBe(400);
+    expect(untenanted.status).toBe(403);
+  });
+});
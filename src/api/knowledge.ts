@@ -0,0 +1,458 @@
+import express from "express";
+import { z } from "zod";
+import { KNOWLEDGE } from "../config/constants";
+import {
+  getSourceId,
+  ingestDocument,
+  ingestDocuments,
+  IngestionOptions,
+} from "../knowledge/ingestion";
+import {
+  deleteSource,
+  getKnowledgeBaseStats,
+  getSource,
+  listSources,
+} from "../knowledge/knowledge-base";
+import {
+  IngestionProgressEvent,
+  KnowledgeDocumentInput,
+} from "../types/knowledge";
+import { AppError } from "../utils/error-handler";
+import { paginationSchema } from "../utils/validators";
+import { createLogger } from "../utils/logger";
+import { openEventStream, wantsEventStream } from "./event-stream";
+import { getRequestNamespace } from "./tenant";
+
+const logger = createLogger("knowledge-api");
+const router: express.Router = express.Router();
+
+// Validation schemas
+const sourceIdSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z0-9._:-]{1,128}$/,
+    "sourceId may only contain letters, digits, '.', '_', ':' and '-'"
+  );
+
+const documentSchema = z.object({
+  sourceId: sourceIdSchema.optional(),
+  source: z.string().min(1).optional(),
+  title: z.string().min(1).optional(),
+  content: z
+    .unknown()
+    .refine(
+      (content) => content !== undefined && content !== null && content !== "",
+      "content is required"
+    ),
+  contentType: z.enum(["text", "markdown", "html", "json"]).default("text"),
+  category: z.string().min(1).optional(),
+  author: z.string().min(1).optional(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+  metadata: z
+    .record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]))
+    .optional(),
+});
+
+const namespaceQuerySchema = z.object({
+  namespace: z.string().min(1).optional(),
+});
+
+const listSourcesSchema = paginationSchema.merge(namespaceQuerySchema);
+
+const ingestionOptionsSchema = z.object({
+  namespace: z.string().min(1).optional(),
+  chunkSize: z.number().int().min(100).max(KNOWLEDGE.MAX_CHUNK_SIZE).optional(),
+  chunkOverlap: z.number().int().min(0).optional(),
+});
+
+/**
+ * Chunks must advance, so the overlap has to be smaller than the chunk size
+ */
+function validateOverlap(
+  options: z.infer<typeof ingestionOptionsSchema>,
+  ctx: z.RefinementCtx
+) {
+  const chunkSize = options.chunkSize ?? KNOWLEDGE.DEFAULT_CHUNK_SIZE;
+
+  if (options.chunkOverlap !== undefined && options.chunkOverlap >= chunkSize) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["chunkOverlap"],
+      message: "chunkOverlap must be smaller than chunkSize",
+    });
+  }
+}
+
+const ingestDocumentSchema = documentSchema
+  .merge(ingestionOptionsSchema)
+  .superRefine(validateOverlap);
+
+const ingestBatchSchema = ingestionOptionsSchema
+  .extend({
+    documents: z
+      .array(documentSchema)
+      .min(1, "At least one document is required")
+      .max(KNOWLEDGE.MAX_BATCH_DOCUMENTS),
+  })
+  .superRefine(validateOverlap)
+  .superRefine(({ documents }, ctx) => {
+    const sourceIds = documents.map((document) =>
+      getSourceId(document as KnowledgeDocumentInput)
+    );
+    const duplicates = sourceIds.filter(
+      (sourceId, i) => sourceIds.indexOf(sourceId) !== i
+    );
+
+    if (duplicates.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["documents"],
+        message: `Duplicate source IDs in batch: ${[...new Set(duplicates)].join(", ")}`,
+      });
+    }
+  });
+
+/**
+ * Ingest documents while streaming progress as Server-Sent Events
+ * Ingestion carries on if the client disconnects
+ */
+async function streamIngestion(
+  res: express.Response,
+  documents: KnowledgeDocumentInput[],
+  options: IngestionOptions
+): Promise<void> {
+  const stream = openEventStream<IngestionProgressEvent>(res, () =>
+    logger.info("Client disconnected from ingestion stream")
+  );
+
+  try {
+    const result = await ingestDocuments(documents, {
+      ...options,
+      onProgress: stream.send,
+    });
+    stream.send({ type: "done", result });
+  } catch (error) {
+    logger.error({ error }, "Error ingesting documents");
+
+    stream.send({
+      type: "error",
+      error: "An error occurred ingesting documents",
+      message: (error as Error).message,
+    });
+  } finally {
+    stream.end();
+  }
+}
+
+/**
+ * POST /api/knowledge/documents
+ * Ingest a single document, replacing any previous version of its source
+ * Streams progress when the client sends `Accept: text/event-stream`
+ */
+router.post(
+  "/documents",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const validationResult = ingestDocumentSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: "Invalid document",
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const { namespace, chunkSize, chunkOverlap, ...document } =
+        validationResult.data;
+      const options = {
+        namespace: getRequestNamespace(req, namespace),
+        chunkSize,
+        chunkOverlap,
+      };
+
+      if (wantsEventStream(req)) {
+        await streamIngestion(
+          res,
+          [document as KnowledgeDocumentInput],
+          options
+        );
+        return;
+      }
+
+      const result = await ingestDocument(
+        document as KnowledgeDocumentInput,
+        options
+      );
+
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error({ error }, "Error ingesting document");
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred ingesting the document",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/knowledge/documents/batch
+ * Ingest several documents; failures are reported per document
+ * Streams progress when the client sends `Accept: text/event-stream`
+ */
+router.post(
+  "/documents/batch",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const validationResult = ingestBatchSchema.safeParse(req.body);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: "Invalid batch",
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const { documents, namespace, ...chunking } = validationResult.data;
+      const options = {
+        ...chunking,
+        namespace: getRequestNamespace(req, namespace),
+      };
+
+      if (wantsEventStream(req)) {
+        await streamIngestion(
+          res,
+          documents as KnowledgeDocumentInput[],
+          options
+        );
+        return;
+      }
+
+      const result = await ingestDocuments(
+        documents as KnowledgeDocumentInput[],
+        options
+      );
+
+      res.json(result);
+    } catch (error) {
+      logger.error({ error }, "Error ingesting document batch");
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred ingesting the documents",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/knowledge/documents?namespace=&limit=&cursor=
+ * List the sources in a namespace with their chunk counts
+ */
+router.get(
+  "/documents",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const validationResult = listSourcesSchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: "Invalid request",
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const { namespace, limit, cursor } = validationResult.data;
+      const { sources, nextCursor } = await listSources(
+        getRequestNamespace(req, namespace),
+        limit,
+        cursor
+      );
+
+      res.json({
+        sources,
+        count: sources.length,
+        ...(nextCursor && { nextCursor }),
+      });
+    } catch (error) {
+      logger.error({ error }, "Error listing knowledge sources");
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred listing documents",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/knowledge/documents/:sourceId?namespace=
+ * Get a source with its chunks and their metadata
+ */
+router.get(
+  "/documents/:sourceId",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const sourceIdResult = sourceIdSchema.safeParse(req.params.sourceId);
+      const queryResult = namespaceQuerySchema.safeParse(req.query);
+
+      if (!sourceIdResult.success || !queryResult.success) {
+        res.status(400).json({
+          error: "Invalid request",
+          details: [
+            ...(sourceIdResult.error?.errors ?? []),
+            ...(queryResult.error?.errors ?? []),
+          ],
+        });
+        return;
+      }
+
+      const source = await getSource(
+        sourceIdResult.data,
+        getRequestNamespace(req, queryResult.data.namespace)
+      );
+
+      if (!source) {
+        res.status(404).json({
+          error: "Document not found",
+        });
+        return;
+      }
+
+      res.json(source);
+    } catch (error) {
+      logger.error(
+        { error, sourceId: req.params.sourceId },
+        "Error getting knowledge source"
+      );
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred retrieving the document",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/knowledge/documents/:sourceId?namespace=
+ * Delete all chunks of a source
+ */
+router.delete(
+  "/documents/:sourceId",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const sourceIdResult = sourceIdSchema.safeParse(req.params.sourceId);
+      const queryResult = namespaceQuerySchema.safeParse(req.query);
+
+      if (!sourceIdResult.success || !queryResult.success) {
+        res.status(400).json({
+          error: "Invalid request",
+          details: [
+            ...(sourceIdResult.error?.errors ?? []),
+            ...(queryResult.error?.errors ?? []),
+          ],
+        });
+        return;
+      }
+
+      const sourceId = sourceIdResult.data;
+      const deletedChunks = await deleteSource(
+        sourceId,
+        getRequestNamespace(req, queryResult.data.namespace)
+      );
+
+      if (!deletedChunks) {
+        res.status(404).json({
+          error: "Document not found",
+        });
+        return;
+      }
+
+      res.json({ sourceId, deletedChunks });
+    } catch (error) {
+      logger.error(
+        { error, sourceId: req.params.sourceId },
+        "Error deleting knowledge source"
+      );
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred deleting the document",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/knowledge/stats?namespace=
+ * Get vector and source counts for a namespace
+ */
+router.get(
+  "/stats",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const validationResult = namespaceQuerySchema.safeParse(req.query);
+
+      if (!validationResult.success) {
+        res.status(400).json({
+          error: "Invalid request",
+          details: validationResult.error.errors,
+        });
+        return;
+      }
+
+      const stats = await getKnowledgeBaseStats(
+        getRequestNamespace(req, validationResult.data.namespace)
+      );
+
+      res.json(stats);
+    } catch (error) {
+      logger.error({ error }, "Error getting knowledge base stats");
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred retrieving knowledge base stats",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+export default router;
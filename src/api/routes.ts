@@ -1,6 +1,8 @@
 import express from "express";
 import conversationRoutes from "./conversation";
 import actionRoutes from "./actions";
+import knowledgeRoutes from "./knowledge";
+import userRoutes from "./users";
 import { API_ENDPOINTS } from "../config/constants";
 import { createLogger } from "../utils/logger";
 
@@ -21,5 +23,7 @@ router.get("/", (req, res) => {
 // Apply route handlers
 router.use(API_ENDPOINTS.CONVERSATION, conversationRoutes);
 router.use(API_ENDPOINTS.ACTIONS, actionRoutes);
+router.use(API_ENDPOINTS.KNOWLEDGE, knowledgeRoutes);
+router.use(API_ENDPOINTS.USERS, userRoutes);
 
 export default router;
@@ -2,12 +2,17 @@ import express from "express";
 import cors from "cors";
 import helmet from "helmet";
 import morgan from "morgan";
-import { PORT, NODE_ENV } from "../config/env";
-import { API_ENDPOINTS } from "../config/constants";
+import { PORT, NODE_ENV, STORAGE_BACKEND } from "../config/env";
+import { API_ENDPOINTS, KNOWLEDGE } from "../config/constants";
 import routes from "./routes";
 import { createLogger } from "../utils/logger";
-import { initPinecone } from "../vectorstore/pinecone-client";
+import {
+  getVectorStoreProvider,
+  initVectorStore,
+  pingVectorStore,
+} from "../vectorstore/vector-store-provider";
 import { initDynamoClient } from "../storage/dynamo-client";
+import { getStorageAdapter, pingStorage } from "../storage/storage-adapter";
 
 // Define HttpError interface
 interface HttpError extends Error {
@@ -22,12 +27,12 @@ export const app: express.Express = express();
 // Apply middleware
 app.use(helmet()); // Security headers
 app.use(cors()); // CORS handling
-app.use(express.json()); // JSON parsing
+app.use(express.json({ limit: KNOWLEDGE.MAX_REQUEST_BODY_SIZE })); // JSON parsing, sized for document uploads
 
-// Set up request logging
-if (NODE_ENV !== "production") {
+// Set up request logging; tests keep their output to failures
+if (NODE_ENV === "development") {
   app.use(morgan("dev"));
-} else {
+} else if (NODE_ENV === "production") {
   app.use(morgan("combined"));
 }
 
@@ -46,17 +51,19 @@ app.use("/", routes);
 app.get(API_ENDPOINTS.HEALTH, async (req, res) => {
   try {
     // Check connections to external services
-    const dynamoHealth = await pingDynamoDB();
-    const pineconeHealth = await pingPinecone();
+    const storageHealth = await pingStorage();
+    const vectorStoreHealth = await pingVectorStore();
 
-    if (dynamoHealth && pineconeHealth) {
+    if (storageHealth && vectorStoreHealth) {
       return res.status(200).json({ status: "healthy" });
     } else {
       return res.status(500).json({
         status: "unhealthy",
         services: {
-          dynamodb: dynamoHealth ? "healthy" : "unhealthy",
-          pinecone: pineconeHealth ? "healthy" : "unhealthy",
+          [getStorageAdapter().name]: storageHealth ? "healthy" : "unhealthy",
+          [getVectorStoreProvider().name]: vectorStoreHealth
+            ? "healthy"
+            : "unhealthy",
         },
       });
     }
@@ -94,13 +101,28 @@ async function initializeServices() {
   try {
     logger.info("Initializing services");
 
-    // Initialize DynamoDB
-    initDynamoClient();
-    logger.info("DynamoDB client initialized");
-
-    // Initialize Pinecone
-    await initPinecone();
-    logger.info("Pinecone client initialized");
+    // Initialize storage; only the DynamoDB backend needs a client
+    if (STORAGE_BACKEND === "dynamodb") {
+      initDynamoClient();
+      logger.info("DynamoDB client initialized");
+    }
+    logger.info({ backend: getStorageAdapter().name }, "Storage initialized");
+
+    // Initialize the vector store; retrieval degrades to no context rather
+    // than taking the whole server down when it is unavailable
+    const vectorStoreProvider = getVectorStoreProvider().name;
+    try {
+      await initVectorStore();
+      logger.info(
+        { provider: vectorStoreProvider },
+        "Vector store initialized"
+      );
+    } catch (error) {
+      logger.warn(
+        { error, provider: vectorStoreProvider },
+        "Vector store unavailable, continuing without retrieval"
+      );
+    }
 
     logger.info("All services initialized successfully");
   } catch (error) {
@@ -109,29 +131,6 @@ async function initializeServices() {
   }
 }
 
-// Health check functions
-async function pingDynamoDB(): Promise<boolean> {
-  try {
-    // Simple connection check to DynamoDB
-    // Implementation in dynamo-client.ts
-    return true;
-  } catch (error) {
-    logger.error({ error }, "DynamoDB health check failed");
-    return false;
-  }
-}
-
-async function pingPinecone(): Promise<boolean> {
-  try {
-    // Simple connection check to Pinecone
-    // Implementation in pinecone-client.ts
-    return true;
-  } catch (error) {
-    logger.error({ error }, "Pinecone health check failed");
-    return false;
-  }
-}
-
 // Start the server
 export async function startServer() {
   try {
@@ -0,0 +1,174 @@
+import express from "express";
+import { z } from "zod";
+import { TENANT_API_KEYS } from "../config/env";
+import {
+  getTenantNamespace,
+  isTenantNamespace,
+} from "../vectorstore/vector-store";
+import { getStoredConversationState } from "../storage/conversation-store";
+import { StoredConversationState } from "../types/conversation";
+import { ErrorFactory } from "../utils/error-handler";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("tenant");
+
+export const TENANT_HEADER = "x-tenant-id";
+export const API_KEY_HEADER = "x-api-key";
+
+export const tenantIdSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z0-9._-]{1,64}$/,
+    "tenantId may only contain letters, digits, '.', '_' and '-'"
+  );
+
+const userIdSchema = z.string().min(1).optional();
+
+/**
+ * Parse TENANT_API_KEYS into a map from API key to tenant ID
+ */
+function parseTenantApiKeys(value?: string): Map<string, string> {
+  const keys = new Map<string, string>();
+
+  for (const pair of (value ?? "").split(",")) {
+    const separator = pair.lastIndexOf(":");
+    const key = pair.slice(0, separator).trim();
+    const tenantId = pair.slice(separator + 1).trim();
+
+    if (
+      separator === -1 ||
+      !key ||
+      !tenantIdSchema.safeParse(tenantId).success
+    ) {
+      if (pair.trim()) {
+        logger.warn("Ignoring malformed entry in TENANT_API_KEYS");
+      }
+      continue;
+    }
+
+    keys.set(key, tenantId);
+  }
+
+  return keys;
+}
+
+const tenantApiKeys = parseTenantApiKeys(TENANT_API_KEYS);
+
+/**
+ * Resolve the tenant a request acts for
+ *
+ * With TENANT_API_KEYS configured the tenant comes from the request's API
+ * key, and any tenant the request claims must match it. Otherwise the
+ * tenant is taken from the X-Tenant-Id header or the claimed tenant, as
+ * set by a trusted gateway. Returns undefined for untenanted requests.
+ */
+export function getRequestTenantId(
+  req: express.Request,
+  claimedTenantId?: string
+): string | undefined {
+  const headerTenantId = req.get(TENANT_HEADER);
+
+  if (headerTenantId && !tenantIdSchema.safeParse(headerTenantId).success) {
+    throw ErrorFactory.badRequest("Invalid tenant ID");
+  }
+
+  if (headerTenantId && claimedTenantId && headerTenantId !== claimedTenantId) {
+    throw ErrorFactory.badRequest("Conflicting tenant IDs");
+  }
+
+  const requestedTenantId = headerTenantId || claimedTenantId;
+
+  if (!tenantApiKeys.size) {
+    return requestedTenantId;
+  }
+
+  const apiKey = req.get(API_KEY_HEADER);
+  const tenantId = apiKey ? tenantApiKeys.get(apiKey) : undefined;
+
+  if (!tenantId) {
+    throw ErrorFactory.unauthorized("A valid API key is required");
+  }
+
+  if (requestedTenantId && requestedTenantId !== tenantId) {
+    throw ErrorFactory.forbidden("API key does not belong to this tenant");
+  }
+
+  return tenantId;
+}
+
+/**
+ * Resolve the vector store namespace a knowledge request works on
+ *
+ * Tenants always work on their own namespace. Untenanted requests may pick
+ * a namespace, but not one that belongs to a tenant.
+ */
+export function getRequestNamespace(
+  req: express.Request,
+  namespace?: string
+): string | undefined {
+  const tenantId = getRequestTenantId(req);
+
+  if (tenantId) {
+    if (namespace) {
+      throw ErrorFactory.badRequest(
+        "namespace cannot be set on tenant requests"
+      );
+    }
+    return getTenantNamespace(tenantId);
+  }
+
+  if (isTenantNamespace(namespace)) {
+    throw ErrorFactory.forbidden(
+      "Tenant namespaces can only be accessed by their tenant"
+    );
+  }
+
+  return namespace;
+}
+
+/**
+ * Check whether a conversation belongs to the tenant and user a request
+ * acts for
+ * Conversations without an owner are open to every user of their tenant.
+ */
+export function canAccessConversation(
+  state: Pick<StoredConversationState, "tenantId" | "userId">,
+  tenantId: string | undefined,
+  userId: string | undefined
+): boolean {
+  return (
+    (state.tenantId || undefined) === tenantId &&
+    (!state.userId || state.userId === userId)
+  );
+}
+
+/**
+ * Load the stored state of a conversation the request may access
+ *
+ * The tenant is resolved as for any request and the user is taken from the
+ * `userId` query parameter. Conversations of another tenant or user are
+ * treated as missing, so their IDs cannot be probed. Returns null if the
+ * conversation does not exist or cannot be accessed.
+ */
+export async function getRequestConversation(
+  req: express.Request,
+  conversationId: string
+): Promise<StoredConversationState | null> {
+  const userIdResult = userIdSchema.safeParse(req.query.userId);
+
+  if (!userIdResult.success) {
+    throw ErrorFactory.badRequest("Invalid user ID");
+  }
+
+  const tenantId = getRequestTenantId(req);
+  const storedState = await getStoredConversationState(conversationId);
+
+  if (
+    !storedState ||
+    !canAccessConversation(storedState, tenantId, userIdResult.data)
+  ) {
+    return null;
+  }
+
+  return storedState;
+}
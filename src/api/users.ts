@@ -0,0 +1,173 @@
+import express from "express";
+import { z } from "zod";
+import {
+  deleteUserMemories,
+  deleteUserMemory,
+  getUserMemories,
+  getUserMemory,
+} from "../storage/user-memory-store";
+import { toUserMemory } from "../conversation/user-memory";
+import { AppError } from "../utils/error-handler";
+import { createLogger } from "../utils/logger";
+import { getRequestTenantId } from "./tenant";
+
+const logger = createLogger("users-api");
+const router: express.Router = express.Router();
+
+// Validation schemas
+const userIdSchema = z.string().min(1, "userId is required");
+const memoryIdSchema = z.string().min(1, "memoryId is required");
+
+/**
+ * GET /api/users/:userId/memories
+ * List what the assistant remembers about a user, newest first
+ * Tenant requests only see the memories learned in their tenant
+ */
+router.get(
+  "/:userId/memories",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const userIdResult = userIdSchema.safeParse(req.params.userId);
+
+      if (!userIdResult.success) {
+        res.status(400).json({
+          error: "Invalid request",
+          details: userIdResult.error.errors,
+        });
+        return;
+      }
+
+      const userId = userIdResult.data;
+      const memories = await getUserMemories(userId, getRequestTenantId(req));
+
+      res.json({
+        userId,
+        memories: memories
+          .map(toUserMemory)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+      });
+    } catch (error) {
+      logger.error(
+        { error, userId: req.params.userId },
+        "Error listing user memories"
+      );
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred listing the user's memories",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/users/:userId/memories
+ * Erase everything the assistant remembers about a user
+ */
+router.delete(
+  "/:userId/memories",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const userIdResult = userIdSchema.safeParse(req.params.userId);
+
+      if (!userIdResult.success) {
+        res.status(400).json({
+          error: "Invalid request",
+          details: userIdResult.error.errors,
+        });
+        return;
+      }
+
+      const userId = userIdResult.data;
+      const deletedMemories = await deleteUserMemories(
+        userId,
+        getRequestTenantId(req)
+      );
+
+      res.json({ userId, deletedMemories });
+    } catch (error) {
+      logger.error(
+        { error, userId: req.params.userId },
+        "Error deleting user memories"
+      );
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred deleting the user's memories",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /api/users/:userId/memories/:memoryId
+ * Erase a single memory
+ */
+router.delete(
+  "/:userId/memories/:memoryId",
+  async (req: express.Request, res: express.Response): Promise<void> => {
+    try {
+      const userIdResult = userIdSchema.safeParse(req.params.userId);
+      const memoryIdResult = memoryIdSchema.safeParse(req.params.memoryId);
+
+      if (!userIdResult.success || !memoryIdResult.success) {
+        res.status(400).json({
+          error: "Invalid request",
+          details: [
+            ...(userIdResult.error?.errors ?? []),
+            ...(memoryIdResult.error?.errors ?? []),
+          ],
+        });
+        return;
+      }
+
+      const tenantId = getRequestTenantId(req);
+      const memory = await getUserMemory(memoryIdResult.data);
+
+      if (
+        !memory ||
+        memory.userId !== userIdResult.data ||
+        memory.tenantId !== tenantId
+      ) {
+        res.status(404).json({
+          error: "Memory not found",
+        });
+        return;
+      }
+
+      await deleteUserMemory(memory.id);
+
+      res.json({
+        success: true,
+        message: "Memory deleted successfully",
+      });
+    } catch (error) {
+      logger.error(
+        { error, memoryId: req.params.memoryId },
+        "Error deleting user memory"
+      );
+
+      if (error instanceof AppError && error.isOperational) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+
+      res.status(500).json({
+        error: "An error occurred deleting the memory",
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+export default router;
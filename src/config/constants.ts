@@ -6,6 +6,39 @@
 export const DB_TABLES = {
   CONVERSATION_STATES: "conversation-states",
   ACTION_QUEUE: "action-queue",
+  USER_MEMORIES: "user-memories",
+};
+
+// Key schema shared by all tables, and the TTL attribute (epoch seconds)
+export const DB_PRIMARY_KEY = "id";
+export const DB_TTL_ATTRIBUTE = "ttl";
+
+// Global secondary indexes per table, emulated by the local storage backends
+export const DB_INDEXES: Record<
+  string,
+  Record<string, { partitionKey: string; sortKey?: string }>
+> = {
+  [DB_TABLES.CONVERSATION_STATES]: {
+    "userId-index": { partitionKey: "userId", sortKey: "lastUpdated" },
+  },
+  [DB_TABLES.ACTION_QUEUE]: {
+    "conversationId-index": { partitionKey: "conversationId" },
+  },
+  [DB_TABLES.USER_MEMORIES]: {
+    "userId-index": { partitionKey: "userId", sortKey: "createdAt" },
+  },
+};
+
+// LangGraph checkpoints (stored in the conversation-states table)
+export const CHECKPOINTS = {
+  KEY_PREFIX: "checkpoint",
+  WRITES_KEY_PREFIX: "checkpoint-writes",
+  NAMESPACES_KEY_PREFIX: "checkpoint-namespaces",
+  MAX_PER_THREAD: 20,
+  // DynamoDB items are limited to 400 KB; larger values are split into parts
+  MAX_INLINE_SIZE: 300 * 1024,
+  MAX_INLINE_WRITE_SIZE: 16 * 1024, // Per write, as a checkpoint has many
+  INDEX_WRITE_ATTEMPTS: 5, // Retries of index updates racing other writers
 };
 
 // Action status types
@@ -15,6 +48,7 @@ export enum ActionStatus {
   COMPLETED = "completed",
   FAILED = "failed",
   CANCELLED = "cancelled",
+  AWAITING_APPROVAL = "awaiting_approval",
 }
 
 // Action types
@@ -25,11 +59,79 @@ export enum ActionType {
   SEARCH_KNOWLEDGE = "search_knowledge",
 }
 
+// Approval policies for extracted actions
+export enum ApprovalPolicy {
+  AUTO = "auto", // Execute immediately
+  REQUIRE_CONFIRMATION = "require_confirmation", // Wait for the user to approve
+  FORBIDDEN = "forbidden", // Never execute
+}
+
+// Policy for registered actions that do not declare one
+export const DEFAULT_APPROVAL_POLICY = ApprovalPolicy.REQUIRE_CONFIRMATION;
+
 // Conversation constants
 export const CONVERSATION = {
   MAX_HISTORY_LENGTH: 10,
   MAX_CONTEXT_CHUNKS: 5,
   DEFAULT_RETRIEVAL_LIMIT: 3,
+  MAX_CLARIFICATION_ATTEMPTS: 3, // Questions asked before a draft action is dropped
+  SUMMARY_KEEP_RECENT: 6, // Latest messages never folded into the summary
+  SUMMARY_MAX_TOKENS: 500, // Length the summarizer is asked to stay within
+};
+
+// Long-term user memory
+export const USER_MEMORY = {
+  MAX_PER_USER: 200, // Lowest-confidence, oldest memories are dropped beyond this
+  MAX_RECALLED: 5, // Memories added to a prompt
+  MIN_RELEVANCE: 0.3, // Cosine similarity a memory needs to be recalled
+  MIN_CONFIDENCE: 0.5, // Extracted facts below this are not stored
+  DUPLICATE_SIMILARITY: 0.9, // Facts this similar update the existing memory
+  EXCERPT_LENGTH: 200, // Characters of the source message kept as provenance
+};
+
+// Context retrieval
+export const RETRIEVAL = {
+  RRF_K: 60, // Dampens the weight of top ranks in reciprocal-rank fusion
+  HYBRID_CANDIDATE_MULTIPLIER: 4, // Candidates fetched per retriever, per result
+  KEYWORD_INDEX_WARN_SIZE: 10000, // Chunks above which building a keyword index logs a warning
+  KEYWORD_INDEX_MAX_SIZE: 50000, // Larger namespaces get vector search only
+  OVERFETCH_MULTIPLIER: 3, // Candidates fetched per context chunk kept
+  MAX_SEARCH_RESULTS: 20, // Most results a knowledge search may ask for
+  REWRITE_MESSAGE_LENGTH: 500, // Characters of each earlier turn shown to the query rewriter
+  BM25: { K1: 1.2, B: 0.75 },
+};
+
+// Share of the prompt token budget left after the system prompt and the
+// latest message; budget a part does not use goes to the others
+export const PROMPT_BUDGET = {
+  ACTION_SUMMARY_SHARE: 0.2,
+  USER_MEMORY_SHARE: 0.1,
+  CONTEXT_SHARE: 0.4,
+  HISTORY_SHARE: 0.3,
+  MIN_TRUNCATED_TOKENS: 50, // Smaller remainders drop a chunk instead
+};
+
+// Context windows of known chat models in tokens, shared by prompt and answer
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  "gpt-4o": 128000,
+  "gpt-4o-mini": 128000,
+  "gpt-4-turbo": 128000,
+  "gpt-4": 8192,
+  "gpt-3.5-turbo": 16385,
+  "claude-3-5-sonnet-latest": 200000,
+  "claude-3-5-haiku-latest": 200000,
+};
+
+// Knowledge base ingestion
+export const KNOWLEDGE = {
+  DEFAULT_CHUNK_SIZE: 1000, // Characters per chunk
+  DEFAULT_CHUNK_OVERLAP: 200,
+  MAX_CHUNK_SIZE: 8000,
+  INDEXING_BATCH_SIZE: 100, // Chunks embedded and upserted per request
+  MAX_BATCH_DOCUMENTS: 50,
+  MAX_REQUEST_BODY_SIZE: "10mb",
+  CHUNK_ID_SEPARATOR: "#", // Chunk ids are `<sourceId>#<chunkIndex>`
+  TENANT_NAMESPACE_PREFIX: "tenant:", // Tenant knowledge bases are `tenant:<tenantId>`
 };
 
 // Rate limiting
@@ -46,7 +148,42 @@ export const SYSTEM_MESSAGES = {
 
   RAG: `You are a helpful assistant with access to a knowledge base.
   When responding to questions, use only the provided context and do not hallucinate information.
-  If you don't know the answer based on the provided context, say so.`,
+  If you don't know the answer based on the provided context, say so.
+  Context entries are numbered like [1]. Cite the entries you use by putting their numbers in brackets right after the statement they support, e.g. [1] or [1, 3].
+  Only cite numbers that appear in the context, and do not cite the action summary or what you remember about the user.`,
+
+  CONDENSE_QUERY: `You rewrite the latest message of a conversation into a standalone search query for a knowledge base.
+  Resolve pronouns and references using the conversation, and keep names, codes and numbers exactly as written.
+  Write the query on the first line, with no explanation.`,
+
+  SUMMARIZE: `You maintain a running summary of a conversation between a user and an assistant.
+  Merge the new messages into the existing summary, keeping the user's goals, facts they shared, decisions, actions taken and open questions.
+  Keep names, dates, codes and numbers exactly as written, and leave out small talk.
+  Respond with only the updated summary.`,
+
+  EXTRACT_MEMORIES: `You pick out facts worth remembering about the user from their latest message, for future conversations.
+  Only keep lasting personal facts the user states about themselves, such as their role, location, team, preferences or the people they work with; ignore questions, requests and passing details.
+  Write each fact as a standalone sentence about "the user", and give a confidence from 0 to 1 for how clearly the user stated it.
+  Do not repeat facts that are already known unless the message changes them.
+  Respond with only JSON of the form {"memories": [{"content": "...", "confidence": n}, ...]}, with an empty list if there is nothing to remember.`,
+
+  RERANK: `You grade how relevant passages are to a search query.
+  Score each passage from 0 (unrelated) to 10 (directly answers the query).
+  Respond with only JSON of the form {"scores": [n, ...]}, one score per passage in the order given.`,
+};
+
+// Instructions added to the system prompt for each response style
+export const RESPONSE_STYLES = {
+  concise: "Keep answers short: a few sentences at most, without preamble.",
+  detailed:
+    "Give thorough answers that explain the reasoning and include relevant details and examples.",
+  friendly: "Use a warm, conversational tone.",
+  formal: "Use a formal, professional tone.",
+};
+
+// Limits on the generation settings a chat request may choose
+export const GENERATION_SETTINGS = {
+  MAX_TOKENS: 4096,
 };
 
 // Timeouts and retry configurations
@@ -58,6 +195,13 @@ export const TIMEOUTS = {
   RETRY_BACKOFF_MS: 1000, // 1 second base for exponential backoff
 };
 
+// Circuit breakers for chat models
+export const CIRCUIT_BREAKER = {
+  FAILURE_THRESHOLD: 3, // Consecutive failures that open the circuit
+  RESET_TIMEOUT_MS: 30000, // Time open before a probe request is let through
+  FALLBACK_RETRY_ATTEMPTS: 0, // Retries of a model that has fallbacks after it
+};
+
 // Cache TTLs
 export const CACHE_TTL = {
   VECTOR_SEARCH_TTL_MS: 5 * 60 * 1000, // 5 minutes
@@ -68,5 +212,7 @@ export const CACHE_TTL = {
 export const API_ENDPOINTS = {
   CONVERSATION: "/api/conversation",
   ACTIONS: "/api/actions",
+  KNOWLEDGE: "/api/knowledge",
+  USERS: "/api/users",
   HEALTH: "/api/health",
 };
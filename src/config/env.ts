@@ -4,44 +4,245 @@ import { z } from "zod";
 // Load environment variables from .env file
 dotenv.config();
 
+// Model providers, and those of them that also serve embeddings
+export const LLM_PROVIDERS = [
+  "openai",
+  "azure",
+  "anthropic",
+  "openai-compatible",
+] as const;
+const EMBEDDING_PROVIDERS = ["openai", "azure", "openai-compatible"] as const;
+
+type LlmProviderName = (typeof LLM_PROVIDERS)[number];
+type EmbeddingProviderName = (typeof EMBEDDING_PROVIDERS)[number];
+
+/**
+ * A model to fall back to when the models before it fail
+ */
+export interface ModelFallback {
+  provider: LlmProviderName;
+  model: string;
+}
+
+/**
+ * Parse LLM_FALLBACKS, e.g. "gpt-4o-mini,anthropic:claude-3-5-haiku-latest"
+ * An entry is only prefixed with a provider when it starts with a provider
+ * name, so model names containing colons (e.g. "llama3.1:8b") stay whole.
+ * Entries without a provider use LLM_PROVIDER.
+ */
+function parseModelFallbacks(
+  value: string | undefined,
+  defaultProvider: LlmProviderName
+): ModelFallback[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const provider = LLM_PROVIDERS.find(
+        (name) => name === entry.slice(0, separator)
+      );
+
+      return provider
+        ? { provider, model: entry.slice(separator + 1).trim() }
+        : { provider: defaultProvider, model: entry };
+    });
+}
+
+/**
+ * Default the embedding provider to the chat provider when it has embeddings
+ */
+function resolveEmbeddingProvider(values: {
+  LLM_PROVIDER: (typeof LLM_PROVIDERS)[number];
+  EMBEDDING_PROVIDER?: EmbeddingProviderName;
+}): EmbeddingProviderName {
+  if (values.EMBEDDING_PROVIDER) {
+    return values.EMBEDDING_PROVIDER;
+  }
+
+  return values.LLM_PROVIDER === "anthropic" ? "openai" : values.LLM_PROVIDER;
+}
+
 // Define environment variable schema for validation
-const envSchema = z.object({
-  // Server configuration
-  NODE_ENV: z
-    .enum(["development", "production", "test"])
-    .default("development"),
-  PORT: z.string().transform(Number).default("3000"),
-
-  // API Keys
-  OPENAI_API_KEY: z.string({
-    required_error: "OPENAI_API_KEY is required in the environment variables",
-  }),
-
-  // Vector DB - Pinecone
-  PINECONE_API_KEY: z.string({
-    required_error: "PINECONE_API_KEY is required in the environment variables",
-  }),
-  PINECONE_INDEX: z.string({
-    required_error: "PINECONE_INDEX is required in the environment variables",
-  }),
-  PINECONE_ENVIRONMENT: z.string().optional(),
-
-  // AWS Configuration (for DynamoDB)
-  AWS_REGION: z.string().default("us-east-1"),
-  AWS_ACCESS_KEY_ID: z.string().optional(),
-  AWS_SECRET_ACCESS_KEY: z.string().optional(),
-
-  // LLM Configuration
-  LLM_MODEL: z.string().default("gpt-4o"),
-  LLM_TEMPERATURE: z.string().transform(Number).default("0.2"),
-  EMBEDDING_MODEL: z.string().default("text-embedding-3-large"),
-
-  // Application configuration
-  LOG_LEVEL: z
-    .enum(["fatal", "error", "warn", "info", "debug", "trace"])
-    .default("info"),
-  CONVERSATION_TTL_DAYS: z.string().transform(Number).default("30"),
-});
+const envSchema = z
+  .object({
+    // Server configuration
+    NODE_ENV: z
+      .enum(["development", "production", "test"])
+      .default("development"),
+    PORT: z.string().transform(Number).default("3000"),
+
+    // Model providers for chat and embeddings. EMBEDDING_PROVIDER defaults
+    // to LLM_PROVIDER, or to openai when LLM_PROVIDER has no embeddings
+    LLM_PROVIDER: z.enum(LLM_PROVIDERS).default("openai"),
+    EMBEDDING_PROVIDER: z.enum(EMBEDDING_PROVIDERS).optional(),
+    // Comma-separated tool_calling, streaming and json_mode flags replacing
+    // the chat provider's defaults, e.g. for a local model without tools
+    LLM_CAPABILITIES: z.string().optional(),
+
+    // API Keys (each required when its provider is selected)
+    OPENAI_API_KEY: z.string().optional(),
+    ANTHROPIC_API_KEY: z.string().optional(),
+
+    // Azure OpenAI
+    AZURE_OPENAI_API_KEY: z.string().optional(),
+    AZURE_OPENAI_API_INSTANCE_NAME: z.string().optional(),
+    AZURE_OPENAI_API_DEPLOYMENT_NAME: z.string().optional(),
+    AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME: z.string().optional(),
+    AZURE_OPENAI_API_VERSION: z.string().default("2024-10-21"),
+
+    // OpenAI-compatible servers, e.g. Ollama at http://localhost:11434/v1
+    OPENAI_COMPATIBLE_BASE_URL: z.string().url().optional(),
+    OPENAI_COMPATIBLE_API_KEY: z.string().optional(),
+
+    // Vector DB: Pinecone, or a local store persisted to VECTOR_STORE_DIR
+    VECTOR_STORE_PROVIDER: z.enum(["pinecone", "local"]).default("pinecone"),
+    VECTOR_STORE_DIR: z.string().default(".data/vectors"),
+
+    // Vector DB - Pinecone (required when VECTOR_STORE_PROVIDER is pinecone)
+    PINECONE_API_KEY: z.string().optional(),
+    PINECONE_INDEX: z.string().optional(),
+    PINECONE_ENVIRONMENT: z.string().optional(),
+
+    // Default context retrieval: dense vectors only, or vectors fused with BM25
+    RETRIEVAL_MODE: z.enum(["vector", "hybrid"]).default("vector"),
+    // Context below this score is dropped (reranker relevance 0-1 when
+    // reranking, otherwise vector similarity); unset keeps everything
+    RETRIEVAL_MIN_SCORE: z.string().transform(Number).optional(),
+    // Reorders retrieved context: none, llm, or local (term overlap)
+    RERANKER: z.enum(["none", "llm", "local"]).default("none"),
+    // Rewrites follow-ups into standalone queries before retrieval: none,
+    // condense, or multi (also searches QUERY_VARIANTS alternative phrasings)
+    QUERY_REWRITING: z.enum(["none", "condense", "multi"]).default("none"),
+    QUERY_VARIANTS: z.string().transform(Number).default("3"),
+    // Remembers facts about users across conversations and recalls them
+    // into prompts: off or on
+    USER_MEMORY: z.enum(["off", "on"]).default("off"),
+
+    // Tenant API keys as `key:tenantId` pairs separated by commas. When set,
+    // every chat and knowledge request needs a key in the X-API-Key header
+    TENANT_API_KEYS: z.string().optional(),
+
+    // AWS Configuration (for DynamoDB)
+    AWS_REGION: z.string().default("us-east-1"),
+    AWS_ACCESS_KEY_ID: z.string().optional(),
+    AWS_SECRET_ACCESS_KEY: z.string().optional(),
+
+    // Storage backend: DynamoDB, in-memory, or JSON files for local runs
+    STORAGE_BACKEND: z.enum(["dynamodb", "memory", "file"]).default("dynamodb"),
+    STORAGE_FILE_DIR: z.string().default(".data"),
+
+    // LLM Configuration
+    LLM_MODEL: z.string().default("gpt-4o"),
+    LLM_TEMPERATURE: z.string().transform(Number).default("0.2"),
+    // Comma-separated models tried in order when LLM_MODEL fails, each
+    // optionally prefixed with its provider, e.g. "gpt-4o-mini,anthropic:..."
+    LLM_FALLBACKS: z.string().optional(),
+    // Comma-separated models chat requests may select besides LLM_MODEL
+    LLM_ALLOWED_MODELS: z
+      .string()
+      .optional()
+      .transform((value) =>
+        (value ?? "")
+          .split(",")
+          .map((model) => model.trim())
+          .filter(Boolean)
+      ),
+    EMBEDDING_MODEL: z.string().default("text-embedding-3-large"),
+    // Token budget for prompts sent to LLM_MODEL, leaving room for the reply
+    MAX_PROMPT_TOKENS: z.string().transform(Number).default("8000"),
+    // Older turns are folded into a running summary once the unsummarized
+    // history exceeds either threshold; 0 disables a threshold
+    SUMMARY_MESSAGE_THRESHOLD: z.string().transform(Number).default("20"),
+    SUMMARY_TOKEN_THRESHOLD: z.string().transform(Number).default("3000"),
+
+    // Application configuration
+    LOG_LEVEL: z
+      .enum(["fatal", "error", "warn", "info", "debug", "trace"])
+      .default("info"),
+    CONVERSATION_TTL_DAYS: z.string().transform(Number).default("30"),
+  })
+  .superRefine((values, ctx) => {
+    const requireSetting = (key: keyof typeof values, reason: string) => {
+      if (!values[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `${key} is required when ${reason}`,
+        });
+      }
+    };
+
+    if (values.VECTOR_STORE_PROVIDER === "pinecone") {
+      for (const key of ["PINECONE_API_KEY", "PINECONE_INDEX"] as const) {
+        requireSetting(key, "VECTOR_STORE_PROVIDER is pinecone");
+      }
+    }
+
+    const embeddingProvider = resolveEmbeddingProvider(values);
+    const fallbacks = parseModelFallbacks(
+      values.LLM_FALLBACKS,
+      values.LLM_PROVIDER
+    );
+
+    if (fallbacks.some((fallback) => !fallback.model)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["LLM_FALLBACKS"],
+        message: "LLM_FALLBACKS entries need a model name",
+      });
+    }
+
+    const fallbackProviders = new Set(
+      fallbacks
+        .map((fallback) => fallback.provider)
+        .filter((provider) => provider !== values.LLM_PROVIDER)
+    );
+
+    for (const [setting, provider] of [
+      ["LLM_PROVIDER", values.LLM_PROVIDER],
+      ["EMBEDDING_PROVIDER", embeddingProvider],
+      ...[...fallbackProviders].map(
+        (provider) => ["LLM_FALLBACKS", provider] as const
+      ),
+    ] as const) {
+      const reason =
+        setting === "LLM_FALLBACKS"
+          ? `LLM_FALLBACKS uses ${provider}`
+          : `${setting} is ${provider}`;
+
+      switch (provider) {
+        case "openai":
+          requireSetting("OPENAI_API_KEY", reason);
+          break;
+        case "anthropic":
+          requireSetting("ANTHROPIC_API_KEY", reason);
+          break;
+        case "azure":
+          requireSetting("AZURE_OPENAI_API_KEY", reason);
+          requireSetting("AZURE_OPENAI_API_INSTANCE_NAME", reason);
+          requireSetting(
+            setting === "EMBEDDING_PROVIDER"
+              ? "AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME"
+              : "AZURE_OPENAI_API_DEPLOYMENT_NAME",
+            reason
+          );
+          break;
+        case "openai-compatible":
+          requireSetting("OPENAI_COMPATIBLE_BASE_URL", reason);
+          break;
+      }
+    }
+  })
+  .transform((values) => ({
+    ...values,
+    EMBEDDING_PROVIDER: resolveEmbeddingProvider(values),
+    LLM_FALLBACKS: parseModelFallbacks(
+      values.LLM_FALLBACKS,
+      values.LLM_PROVIDER
+    ),
+  }));
 
 // Parse and validate environment variables
 const envResult = envSchema.safeParse(process.env);
@@ -68,14 +269,41 @@ export const env = envResult.data;
 export const {
   NODE_ENV,
   PORT,
+  LLM_PROVIDER,
+  EMBEDDING_PROVIDER,
+  LLM_CAPABILITIES,
   OPENAI_API_KEY,
+  ANTHROPIC_API_KEY,
+  AZURE_OPENAI_API_KEY,
+  AZURE_OPENAI_API_INSTANCE_NAME,
+  AZURE_OPENAI_API_DEPLOYMENT_NAME,
+  AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME,
+  AZURE_OPENAI_API_VERSION,
+  OPENAI_COMPATIBLE_BASE_URL,
+  OPENAI_COMPATIBLE_API_KEY,
+  VECTOR_STORE_PROVIDER,
+  VECTOR_STORE_DIR,
   PINECONE_API_KEY,
   PINECONE_INDEX,
   PINECONE_ENVIRONMENT,
+  RETRIEVAL_MODE,
+  RETRIEVAL_MIN_SCORE,
+  RERANKER,
+  QUERY_REWRITING,
+  QUERY_VARIANTS,
+  USER_MEMORY,
+  TENANT_API_KEYS,
   AWS_REGION,
+  STORAGE_BACKEND,
+  STORAGE_FILE_DIR,
   LLM_MODEL,
   LLM_TEMPERATURE,
+  LLM_FALLBACKS,
+  LLM_ALLOWED_MODELS,
   EMBEDDING_MODEL,
+  MAX_PROMPT_TOKENS,
+  SUMMARY_MESSAGE_THRESHOLD,
+  SUMMARY_TOKEN_THRESHOLD,
   LOG_LEVEL,
   CONVERSATION_TTL_DAYS,
 } = env;
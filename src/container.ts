@@ -0,0 +1,79 @@
+import {
+  getEmbeddingProvider,
+  getModelProvider,
+  ModelProvider,
+  setEmbeddingProvider,
+  setModelProvider,
+} from "./models/model-provider";
+import { embeddingsCache } from "./models/embeddings";
+import {
+  getStorageAdapter,
+  setStorageAdapter,
+  StorageAdapter,
+} from "./storage/storage-adapter";
+import {
+  getVectorStoreProvider,
+  setVectorStoreProvider,
+  VectorStoreProvider,
+} from "./vectorstore/vector-store-provider";
+import { clearVectorStoreCache } from "./vectorstore/vector-store";
+import { createLogger } from "./utils/logger";
+
+const logger = createLogger("container");
+
+/**
+ * The replaceable services the application runs on
+ * Each defaults to the one selected by the environment.
+ */
+export interface Container {
+  modelProvider: ModelProvider;
+  embeddingProvider: ModelProvider;
+  storageAdapter: StorageAdapter;
+  vectorStoreProvider: VectorStoreProvider;
+}
+
+/**
+ * Get the services currently in use
+ */
+export function getContainer(): Container {
+  return {
+    modelProvider: getModelProvider(),
+    embeddingProvider: getEmbeddingProvider(),
+    storageAdapter: getStorageAdapter(),
+    vectorStoreProvider: getVectorStoreProvider(),
+  };
+}
+
+/**
+ * Replace services, e.g. with fakes in tests
+ *
+ * Cached vector stores and embeddings belong to the services they were
+ * created with, so they are dropped when those services change.
+ */
+export function configureContainer(services: Partial<Container>): void {
+  if (services.modelProvider) {
+    setModelProvider(services.modelProvider);
+  }
+
+  if (services.embeddingProvider) {
+    setEmbeddingProvider(services.embeddingProvider);
+    embeddingsCache.clear();
+  }
+
+  if (services.storageAdapter) {
+    setStorageAdapter(services.storageAdapter);
+  }
+
+  if (services.vectorStoreProvider) {
+    setVectorStoreProvider(services.vectorStoreProvider);
+  }
+
+  if (services.embeddingProvider || services.vectorStoreProvider) {
+    clearVectorStoreCache();
+  }
+
+  logger.debug(
+    { services: Object.keys(services) },
+    "Container services replaced"
+  );
+}
@@ -0,0 +1,64 @@
+import { resolveCitations } from "./citations";
+import { ContextChunk } from "../types/conversation";
+
+const CONTEXT: ContextChunk[] = [
+  {
+    id: "refunds#0",
+    sourceId: "refunds",
+    content: "Refunds take 30 days.",
+    metadata: { title: "Refund policy", source: "https://example.com/refunds" },
+    score: 0.9,
+  },
+  {
+    id: "shipping#0",
+    sourceId: "shipping",
+    content: "Orders ship within 2 days.",
+    metadata: { title: "Shipping" },
+    score: 0.7,
+  },
+];
+
+describe("resolveCitations", () => {
+  it("maps markers to the retrieved chunks and strips the rest", () => {
+    const { message, citations } = resolveCitations(
+      "Refunds take 30 days [1, 3]. Orders ship fast [2] [5].",
+      CONTEXT
+    );
+
+    expect(message).toBe("Refunds take 30 days [1]. Orders ship fast [2].");
+    expect(citations).toEqual([
+      expect.objectContaining({
+        index: 1,
+        chunkId: "refunds#0",
+        url: "https://example.com/refunds",
+      }),
+      expect.objectContaining({
+        index: 2,
+        chunkId: "shipping#0",
+        url: undefined,
+      }),
+    ]);
+  });
+
+  it("leaves indexing in code untouched", () => {
+    const answer = [
+      "Use `items[0]` for the first order [2].",
+      "",
+      "```ts",
+      "const first = items[0];",
+      "const cell = matrix[1, 2] + matrix[3];",
+      "```",
+    ].join("\n");
+
+    const { message, citations } = resolveCitations(answer, CONTEXT);
+
+    expect(message).toBe(answer);
+    expect(citations.map((citation) => citation.index)).toEqual([2]);
+  });
+
+  it("leaves a code block cut off at the end of the answer untouched", () => {
+    const answer = "See [1].\n```js\nconst last = list[7];";
+
+    expect(resolveCitations(answer, CONTEXT).message).toBe(answer);
+  });
+});
@@ -0,0 +1,92 @@
+import { Citation, ContextChunk } from "../types/conversation";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("citations");
+
+// Bracketed citation markers such as [2] or [1, 3]
+const CITATION_PATTERN = /\s?\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Fenced code blocks (possibly cut off at the end) and inline code spans
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+
+/**
+ * Get a link for a chunk from its `url` metadata, or its source if that is
+ * a URL
+ */
+function getChunkUrl(chunk: ContextChunk): string | undefined {
+  const { url, source } = chunk.metadata ?? {};
+
+  if (typeof url === "string" && url) {
+    return url;
+  }
+
+  return typeof source === "string" && /^https?:\/\//i.test(source)
+    ? source
+    : undefined;
+}
+
+/**
+ * Resolve the citation markers in an answer against the context it was
+ * generated from
+ *
+ * Markers are numbered from 1 in context order. Numbers that do not match a
+ * retrieved chunk are stripped from the answer, and a marker left with no
+ * valid numbers is removed entirely. Code blocks and inline code are left as
+ * they are, so indexing such as `arr[0]` is not read as a citation.
+ * Citations are returned in order of first use.
+ */
+export function resolveCitations(
+  answer: string,
+  context: ContextChunk[]
+): { message: string; citations: Citation[] } {
+  const cited = new Map<number, Citation>();
+  let stripped = 0;
+
+  const resolveMarkers = (text: string) =>
+    text.replace(CITATION_PATTERN, (marker, numbers: string) => {
+      const valid = numbers
+        .split(",")
+        .map((number) => Number(number.trim()))
+        .filter((index) => {
+          const isValid = index >= 1 && index <= context.length;
+          if (!isValid) stripped++;
+          return isValid;
+        });
+
+      if (!valid.length) {
+        return "";
+      }
+
+      for (const index of valid) {
+        if (cited.has(index)) continue;
+
+        const chunk = context[index - 1];
+        cited.set(index, {
+          index,
+          chunkId: chunk.id,
+          sourceId: chunk.sourceId ?? chunk.metadata?.sourceId,
+          title: chunk.metadata?.title,
+          url: getChunkUrl(chunk),
+          score: chunk.score,
+        });
+      }
+
+      const leadingSpace = marker.startsWith(" ") ? " " : "";
+      return `${leadingSpace}[${valid.join(", ")}]`;
+    });
+
+  // Splitting on the capturing pattern puts the code at the odd indices
+  const message = answer
+    .split(CODE_PATTERN)
+    .map((part, index) => (index % 2 ? part : resolveMarkers(part)))
+    .join("");
+
+  if (stripped) {
+    logger.warn(
+      { stripped, contextCount: context.length },
+      "Stripped citations to chunks that were not retrieved"
+    );
+  }
+
+  return { message, citations: [...cited.values()] };
+}
@@ -0,0 +1,96 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import {
+  getUnsummarizedMessages,
+  HistorySummarizer,
+  summarizeConversationHistory,
+} from "./memory";
+import { initialState } from "../graphs/state";
+import { ConversationState } from "../types/conversation";
+
+/**
+ * A conversation of alternating human and AI messages, numbered from 0
+ */
+function conversation(count: number, text = "message"): ConversationState {
+  return {
+    ...initialState,
+    conversationId: "conv-1",
+    messages: Array.from({ length: count }, (_, i) =>
+      i % 2 ? new AIMessage(`${text} ${i}`) : new HumanMessage(`${text} ${i}`)
+    ),
+  };
+}
+
+describe("summarizeConversationHistory", () => {
+  let summarizer: jest.MockedFunction<HistorySummarizer>;
+
+  beforeEach(() => {
+    summarizer = jest.fn<Promise<string>, Parameters<HistorySummarizer>>(
+      async (previous) => (previous ? `${previous} More.` : "Summary.")
+    );
+  });
+
+  it("leaves history below the thresholds alone", async () => {
+    const state = conversation(20);
+
+    expect(await summarizeConversationHistory(state, summarizer)).toBe(state);
+    expect(summarizer).not.toHaveBeenCalled();
+  });
+
+  it("folds all but the latest messages in once past the message threshold", async () => {
+    const result = await summarizeConversationHistory(
+      conversation(21),
+      summarizer
+    );
+
+    const [previous, transcript] = summarizer.mock.calls[0];
+    expect(previous).toBe("");
+    expect(transcript).toContain("message 14");
+    expect(transcript).not.toContain("message 15");
+    expect(result.summary).toMatchObject({
+      content: "Summary.",
+      summarizedCount: 15,
+    });
+    // Summarized messages are kept for the transcript
+    expect(result.messages).toHaveLength(21);
+    expect(getUnsummarizedMessages(result)).toHaveLength(6);
+  });
+
+  it("extends the running summary with the messages after it", async () => {
+    const first = await summarizeConversationHistory(
+      conversation(21),
+      summarizer
+    );
+    const continued = { ...conversation(36), summary: first.summary };
+
+    const result = await summarizeConversationHistory(continued, summarizer);
+
+    const [previous, transcript] = summarizer.mock.calls[1];
+    expect(previous).toBe("Summary.");
+    expect(transcript).not.toContain("message 14");
+    expect(transcript).toContain("message 15");
+    expect(result.summary).toMatchObject({
+      content: "Summary. More.",
+      summarizedCount: 30,
+    });
+  });
+
+  it("summarizes few but long messages past the token threshold", async () => {
+    const state = conversation(8, "word ".repeat(500));
+
+    const result = await summarizeConversationHistory(state, summarizer);
+
+    expect(result.summary?.summarizedCount).toBe(2);
+  });
+
+  it("keeps the previous summary when summarizing fails", async () => {
+    const state = conversation(21);
+
+    const failed = await summarizeConversationHistory(state, () =>
+      Promise.reject(new Error("Model unavailable"))
+    );
+    const empty = await summarizeConversationHistory(state, async () => "");
+
+    expect(failed).toBe(state);
+    expect(empty).toBe(state);
+  });
+});
@@ -1,10 +1,17 @@
 import {
   HumanMessage,
   AIMessage,
+  BaseMessage,
   SystemMessage,
 } from "@langchain/core/messages";
 import { ConversationState } from "../types/conversation";
-import { CONVERSATION } from "../config/constants";
+import { createChatModel } from "../models/llm";
+import { countTokens } from "../models/tokens";
+import { CONVERSATION, SYSTEM_MESSAGES } from "../config/constants";
+import {
+  SUMMARY_MESSAGE_THRESHOLD,
+  SUMMARY_TOKEN_THRESHOLD,
+} from "../config/env";
 import { createLogger } from "../utils/logger";
 
 const logger = createLogger("memory");
@@ -42,10 +49,12 @@ export function addHumanMessage(
 
 /**
  * Add an AI message to conversation state
+ * Extra fields (e.g. citations) are kept in the message's additional_kwargs
  */
 export function addAIMessage(
   state: ConversationState,
-  content: string
+  content: string,
+  additionalKwargs: Record<string, any> = {}
 ): ConversationState {
   logger.debug(
     {
@@ -62,6 +71,7 @@ export function addAIMessage(
 
   // Create a new message with timestamp
   const message = new AIMessage(content, {
+    ...additionalKwargs,
     timestamp: Date.now(),
   });
 
@@ -178,49 +188,132 @@ export function clearConversationHistory(
   return {
     ...state,
     messages: [],
+    summary: null,
   };
 }
 
 /**
- * Summarize conversation history to manage context window
- * This is useful when the conversation is too long and we need to compress it
+ * Fold older messages into a running summary
+ * Receives the summary so far (empty for the first one) and the messages
+ * to add to it, formatted as a transcript
+ */
+export type HistorySummarizer = (
+  previousSummary: string,
+  transcript: string
+) => Promise<string>;
+
+/**
+ * Summarizer backed by the chat model
+ */
+export const llmSummarizer: HistorySummarizer = async (
+  previousSummary,
+  transcript
+) => {
+  const response = await createChatModel().invoke([
+    new SystemMessage(
+      `${SYSTEM_MESSAGES.SUMMARIZE}\n  Keep the summary under ${CONVERSATION.SUMMARY_MAX_TOKENS} tokens.`
+    ),
+    new HumanMessage(
+      `Current summary:\n${previousSummary || "(none)"}\n\nNew messages:\n${transcript}`
+    ),
+  ]);
+
+  return response.content.toString().trim();
+};
+
+/**
+ * Get the messages not yet covered by the running summary
+ */
+export function getUnsummarizedMessages(
+  state: ConversationState
+): BaseMessage[] {
+  return state.messages.slice(state.summary?.summarizedCount ?? 0);
+}
+
+/**
+ * Check whether unsummarized history has passed a summarization threshold
+ */
+function exceedsSummaryThreshold(
+  state: ConversationState,
+  messages: BaseMessage[]
+): boolean {
+  if (
+    SUMMARY_MESSAGE_THRESHOLD > 0 &&
+    messages.length > SUMMARY_MESSAGE_THRESHOLD
+  ) {
+    return true;
+  }
+
+  return (
+    SUMMARY_TOKEN_THRESHOLD > 0 &&
+    countTokens(
+      getFormattedMessageHistory({ ...state, messages }, messages.length)
+    ) > SUMMARY_TOKEN_THRESHOLD
+  );
+}
+
+/**
+ * Summarize older conversation history to manage the context window
+ *
+ * Once the messages after the running summary pass the message or token
+ * threshold, all but the latest CONVERSATION.SUMMARY_KEEP_RECENT of them are
+ * folded into the summary. The messages themselves are kept, so the full
+ * transcript stays available; prompts use the summary and the messages
+ * after it. If summarizing fails the state is returned unchanged.
  */
 export async function summarizeConversationHistory(
   state: ConversationState,
-  summarizer: (history: string) => Promise<string>
+  summarizer: HistorySummarizer = llmSummarizer
 ): Promise<ConversationState> {
-  logger.debug(
-    { conversationId: state.conversationId },
-    "Summarizing conversation history"
-  );
+  const unsummarized = getUnsummarizedMessages(state);
 
-  // If there aren't enough messages to summarize, return the state as is
-  if (state.messages.length <= CONVERSATION.MAX_HISTORY_LENGTH) {
+  if (
+    unsummarized.length <= CONVERSATION.SUMMARY_KEEP_RECENT ||
+    !exceedsSummaryThreshold(state, unsummarized)
+  ) {
     return state;
   }
 
-  // Format history for summarization
-  const formattedHistory = getFormattedMessageHistory(
-    state,
-    state.messages.length
+  const toSummarize = unsummarized.slice(0, -CONVERSATION.SUMMARY_KEEP_RECENT);
+  const summarizedCount =
+    (state.summary?.summarizedCount ?? 0) + toSummarize.length;
+
+  logger.debug(
+    {
+      conversationId: state.conversationId,
+      summarizing: toSummarize.length,
+      summarizedCount,
+    },
+    "Summarizing conversation history"
   );
 
-  // Get summary
-  const summary = await summarizer(formattedHistory);
+  try {
+    const content = await summarizer(
+      state.summary?.content ?? "",
+      getFormattedMessageHistory(
+        { ...state, messages: toSummarize },
+        toSummarize.length
+      )
+    );
 
-  // Create a new state with the summarized history as a system message
-  // and the most recent messages
-  const recentMessages = state.messages.slice(
-    -Math.floor(CONVERSATION.MAX_HISTORY_LENGTH / 2)
-  );
+    if (!content) {
+      throw new Error("Summarizer returned an empty summary");
+    }
 
-  return {
-    ...state,
-    messages: [
-      new SystemMessage(`Previous conversation summary: ${summary}`, {
-        timestamp: Date.now(),
-      }),
-      ...recentMessages,
-    ],
-  };
+    return {
+      ...state,
+      summary: {
+        content,
+        summarizedCount,
+        updatedAt: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    // The prompt budget still drops the oldest messages without a summary
+    logger.warn(
+      { error, conversationId: state.conversationId },
+      "Failed to summarize conversation history, keeping it unsummarized"
+    );
+    return state;
+  }
 }
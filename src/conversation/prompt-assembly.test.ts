@@ -0,0 +1,182 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import {
+  assemblePrompt,
+  getPromptBudget,
+  PromptSections,
+} from "./prompt-assembly";
+import { countTokens } from "../models/tokens";
+import { ContextChunk } from "../types/conversation";
+import { MAX_PROMPT_TOKENS } from "../config/env";
+import {
+  GENERATION_SETTINGS,
+  MODEL_CONTEXT_WINDOWS,
+} from "../config/constants";
+
+/**
+ * Text repeating a word the given number of times
+ */
+function words(count: number, word = "lorem"): string {
+  return Array.from({ length: count }, () => word).join(" ");
+}
+
+/**
+ * Context chunks of the given number of words, most relevant first
+ */
+function chunks(count: number, tokens: number): ContextChunk[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `doc#${i}`,
+    content: words(tokens, `chunk${i}`),
+    metadata: {},
+  }));
+}
+
+/**
+ * Alternating human and AI messages of the given number of words
+ */
+function history(count: number, tokens: number) {
+  return Array.from({ length: count }, (_, i) =>
+    i % 2
+      ? new AIMessage(words(tokens, `answer${i}`))
+      : new HumanMessage(words(tokens, `question${i}`))
+  );
+}
+
+const SECTIONS: PromptSections = {
+  systemPrompt: "You are a helpful assistant.",
+  input: "What is the refund policy?",
+  history: [],
+  context: [],
+};
+
+describe("assemblePrompt", () => {
+  it("includes everything that fits and accounts for every token", () => {
+    const { breakdown, contextChunks } = assemblePrompt(
+      {
+        ...SECTIONS,
+        history: history(4, 20),
+        context: chunks(3, 50),
+        memories: ["Works in the Berlin office"],
+        actionSummary: "Created a ticket",
+      },
+      null,
+      8000
+    );
+
+    expect(contextChunks).toHaveLength(3);
+    expect(breakdown.contextChunks).toEqual({
+      included: 3,
+      dropped: 0,
+      truncated: 0,
+    });
+    expect(breakdown.historyMessages).toEqual({ included: 4, dropped: 0 });
+    expect(breakdown.memories).toEqual({ included: 1, dropped: 0 });
+    expect(breakdown.actionSummary).toBe(countTokens("Created a ticket"));
+    expect(breakdown.total).toBeLessThanOrEqual(8000);
+  });
+
+  it("gives budget a section does not need to the others", () => {
+    const budget = 1000;
+    const { breakdown } = assemblePrompt(
+      { ...SECTIONS, history: history(20, 50) },
+      null,
+      budget
+    );
+
+    // Without context, history goes well past its 30% share
+    expect(breakdown.history).toBeGreaterThan(budget * 0.6);
+    expect(breakdown.historyMessages.dropped).toBeGreaterThan(0);
+    expect(breakdown.total).toBeLessThanOrEqual(budget);
+  });
+
+  it("drops the least relevant chunks and the oldest messages first", () => {
+    const messages = history(10, 40);
+    const result = assemblePrompt(
+      { ...SECTIONS, history: messages, context: chunks(10, 40) },
+      null,
+      600
+    );
+    const { breakdown } = result;
+
+    expect(breakdown.total).toBeLessThanOrEqual(600);
+    expect(breakdown.contextChunks.dropped).toBeGreaterThan(0);
+    expect(result.contextChunks.map((chunk) => chunk.id)).toEqual(
+      chunks(breakdown.contextChunks.included, 40).map((chunk) => chunk.id)
+    );
+    expect(breakdown.historyMessages.dropped).toBeGreaterThan(0);
+    expect(result.chatHistory).toContain("answer9");
+    expect(result.chatHistory).not.toContain("question0");
+  });
+
+  it("truncates the last chunk when enough room is left for it", () => {
+    const result = assemblePrompt(
+      { ...SECTIONS, context: chunks(2, 150) },
+      null,
+      500
+    );
+
+    expect(result.breakdown.contextChunks).toEqual({
+      included: 2,
+      dropped: 0,
+      truncated: 1,
+    });
+    expect(result.contextChunks[1].content.length).toBeLessThan(
+      chunks(2, 150)[1].content.length
+    );
+    expect(result.breakdown.total).toBeLessThanOrEqual(500);
+  });
+
+  it("keeps the history summary ahead of older messages", () => {
+    const result = assemblePrompt(
+      {
+        ...SECTIONS,
+        history: history(10, 40),
+        historySummary: "The user asked about refunds.",
+      },
+      null,
+      300
+    );
+
+    expect(
+      result.chatHistory.startsWith(
+        "Summary of the earlier conversation: The user asked about refunds."
+      )
+    ).toBe(true);
+    expect(result.breakdown.historySummary).toBeGreaterThan(0);
+    expect(result.breakdown.historyMessages.dropped).toBeGreaterThan(0);
+  });
+
+  it("truncates an input that alone exceeds the budget", () => {
+    const { input, breakdown } = assemblePrompt(
+      { ...SECTIONS, input: words(500), context: chunks(1, 20) },
+      null,
+      200
+    );
+
+    expect(breakdown.inputTruncated).toBe(true);
+    expect(countTokens(input)).toBeLessThan(200);
+    expect(breakdown.contextChunks.included).toBe(0);
+    expect(breakdown.total).toBeLessThanOrEqual(200);
+  });
+
+  it("leaves room in a small model's context window for the answer", () => {
+    const contextWindow = MODEL_CONTEXT_WINDOWS["gpt-4"];
+    const { breakdown } = assemblePrompt(
+      { ...SECTIONS, history: history(200, 50) },
+      { model: "gpt-4", maxTokens: 3000 }
+    );
+
+    expect(breakdown.budget).toBe(contextWindow - 3000);
+    expect(breakdown.total).toBeLessThanOrEqual(contextWindow - 3000);
+    expect(breakdown.historyMessages.dropped).toBeGreaterThan(0);
+
+    // Without maxTokens the longest answer allowed is kept free
+    expect(getPromptBudget({ model: "gpt-4" })).toBe(
+      contextWindow - GENERATION_SETTINGS.MAX_TOKENS
+    );
+    // Models with room to spare and unknown models keep MAX_PROMPT_TOKENS
+    expect(getPromptBudget({ model: "gpt-4o", maxTokens: 3000 })).toBe(
+      MAX_PROMPT_TOKENS
+    );
+    expect(getPromptBudget({ model: "local-model" })).toBe(MAX_PROMPT_TOKENS);
+  });
+});
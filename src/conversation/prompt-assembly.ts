@@ -0,0 +1,349 @@
+import { BaseMessage } from "@langchain/core/messages";
+import { formatChatHistory } from "../models/llm";
+import {
+  countTokens,
+  TOKENS_PER_MESSAGE,
+  truncateToTokens,
+} from "../models/tokens";
+import { formatContextChunks } from "../graphs/state";
+import { LLM_MODEL, MAX_PROMPT_TOKENS } from "../config/env";
+import {
+  GENERATION_SETTINGS,
+  MODEL_CONTEXT_WINDOWS,
+  PROMPT_BUDGET,
+} from "../config/constants";
+import {
+  ContextChunk,
+  GenerationSettings,
+  PromptTokenBreakdown,
+} from "../types/conversation";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("prompt-assembly");
+
+// Messages in the RAG prompt: system with context, history and input
+const PROMPT_MESSAGE_COUNT = 3;
+
+// Separator between context chunks and between history messages
+const SEPARATOR = "\n\n";
+
+// Introduces the running summary at the start of the chat history
+const HISTORY_SUMMARY_PREFIX = "Summary of the earlier conversation: ";
+
+// Introduces the facts remembered about the user in the context
+const USER_MEMORIES_HEADING =
+  "What you remember about the user from earlier conversations:";
+
+export interface PromptSections {
+  systemPrompt: string;
+  input: string; // Latest message, answered by the model
+  history: BaseMessage[]; // Earlier messages, oldest first
+  historySummary?: string; // Summary of the turns before `history`
+  context: ContextChunk[]; // Retrieved chunks, most relevant first
+  memories?: string[]; // Facts remembered about the user, most relevant first
+  actionSummary?: string;
+}
+
+export interface AssembledPrompt {
+  input: string;
+  chatHistory: string;
+  context: string; // Context chunks, user memories, then the action summary
+  contextChunks: ContextChunk[]; // Chunks in the prompt, numbered from 1
+  breakdown: PromptTokenBreakdown;
+}
+
+type SectionName = "actionSummary" | "userMemories" | "context" | "history";
+
+// Sections sharing the budget left after the system prompt and input,
+// highest priority first
+const SECTION_PRIORITY: SectionName[] = [
+  "actionSummary",
+  "userMemories",
+  "context",
+  "history",
+];
+
+/**
+ * Split the budget between the sections
+ *
+ * Each section gets up to its share, then budget a section does not need
+ * goes to the others in priority order, so a short chat leaves more room
+ * for context and vice versa.
+ */
+function allocateBudget(
+  budget: number,
+  needs: Record<SectionName, number>
+): Record<SectionName, number> {
+  const shares: Record<SectionName, number> = {
+    actionSummary: PROMPT_BUDGET.ACTION_SUMMARY_SHARE,
+    userMemories: PROMPT_BUDGET.USER_MEMORY_SHARE,
+    context: PROMPT_BUDGET.CONTEXT_SHARE,
+    history: PROMPT_BUDGET.HISTORY_SHARE,
+  };
+  const allocation = {} as Record<SectionName, number>;
+  let left = budget;
+
+  for (const section of SECTION_PRIORITY) {
+    allocation[section] = Math.min(
+      needs[section],
+      Math.floor(budget * shares[section])
+    );
+    left -= allocation[section];
+  }
+
+  for (const section of SECTION_PRIORITY) {
+    const extra = Math.min(needs[section] - allocation[section], left);
+    allocation[section] += extra;
+    left -= extra;
+  }
+
+  return allocation;
+}
+
+/**
+ * Keep the most relevant chunks that fit, truncating the first chunk that
+ * does not fit when enough room is left for it to be useful
+ */
+function fitContext(
+  chunks: ContextChunk[],
+  budget: number,
+  model: string
+): { chunks: ContextChunk[]; tokens: number; truncated: number } {
+  const fitted: ContextChunk[] = [];
+  let tokens = 0;
+
+  for (const [i, chunk] of chunks.entries()) {
+    const formatted = formatContextChunks([...fitted, chunk])[fitted.length];
+    const separator = i > 0 ? countTokens(SEPARATOR, model) : 0;
+    const chunkTokens = countTokens(formatted, model) + separator;
+
+    if (tokens + chunkTokens <= budget) {
+      fitted.push(chunk);
+      tokens += chunkTokens;
+      continue;
+    }
+
+    const room = budget - tokens - separator;
+    const prefixTokens =
+      chunkTokens - separator - countTokens(chunk.content, model);
+
+    if (room - prefixTokens >= PROMPT_BUDGET.MIN_TRUNCATED_TOKENS) {
+      const content = truncateToTokens(
+        chunk.content,
+        room - prefixTokens,
+        model
+      );
+      fitted.push({ ...chunk, content });
+      tokens += separator + prefixTokens + countTokens(content, model);
+      return { chunks: fitted, tokens, truncated: 1 };
+    }
+
+    break;
+  }
+
+  return { chunks: fitted, tokens, truncated: 0 };
+}
+
+/**
+ * Format user memories as a list under a heading
+ */
+function formatUserMemories(memories: string[]): string {
+  return memories.length
+    ? [USER_MEMORIES_HEADING, ...memories.map((memory) => `- ${memory}`)].join(
+        "\n"
+      )
+    : "";
+}
+
+/**
+ * Keep the most relevant memories that fit
+ */
+function fitUserMemories(
+  memories: string[],
+  budget: number,
+  model: string
+): { text: string; memories: number } {
+  let kept = 0;
+
+  while (
+    kept < memories.length &&
+    countTokens(formatUserMemories(memories.slice(0, kept + 1)), model) <=
+      budget
+  ) {
+    kept++;
+  }
+
+  return { text: formatUserMemories(memories.slice(0, kept)), memories: kept };
+}
+
+/**
+ * Fit the history summary, then the most recent messages that fit after it
+ * The summary is compact and stands in for all older turns, so older
+ * messages are dropped before it is truncated.
+ */
+function fitHistory(
+  history: BaseMessage[],
+  summary: string,
+  budget: number,
+  model: string
+): { history: string; summaryTokens: number; messages: number } {
+  const fittedSummary = summary
+    ? truncateToTokens(`${HISTORY_SUMMARY_PREFIX}${summary}`, budget, model)
+    : "";
+  const summaryTokens = countTokens(fittedSummary, model);
+  const separatorTokens = countTokens(SEPARATOR, model);
+  let kept = 0;
+  let tokens = summaryTokens;
+
+  for (const message of [...history].reverse()) {
+    const messageTokens =
+      countTokens(formatChatHistory([message]), model) +
+      (kept || fittedSummary ? separatorTokens : 0);
+
+    if (tokens + messageTokens > budget) break;
+
+    tokens += messageTokens;
+    kept++;
+  }
+
+  const parts = [
+    ...(fittedSummary ? [fittedSummary] : []),
+    ...(kept ? [formatChatHistory(history.slice(-kept))] : []),
+  ];
+
+  return {
+    history: parts.join(SEPARATOR),
+    summaryTokens,
+    messages: kept,
+  };
+}
+
+/**
+ * Get the prompt budget for a conversation's generation settings
+ *
+ * Prompts stay within MAX_PROMPT_TOKENS. For a model with a known context
+ * window, room is also left in it for the longest answer the settings allow.
+ */
+export function getPromptBudget(settings?: GenerationSettings | null): number {
+  const contextWindow = MODEL_CONTEXT_WINDOWS[settings?.model ?? LLM_MODEL];
+
+  if (!contextWindow) {
+    return MAX_PROMPT_TOKENS;
+  }
+
+  const answerTokens = settings?.maxTokens ?? GENERATION_SETTINGS.MAX_TOKENS;
+  return Math.max(Math.min(MAX_PROMPT_TOKENS, contextWindow - answerTokens), 0);
+}
+
+/**
+ * Assemble the prompt inputs within a token budget
+ *
+ * The system prompt and latest message always go in, the latest message
+ * truncated if it alone would exceed the budget. The rest is shared by the
+ * action summary, user memories, retrieved context and history, in that
+ * order of priority: the least relevant memories and chunks and the oldest
+ * messages are dropped first, and the action summary is truncated only as
+ * a last resort. The running summary of older turns leads the history,
+ * ahead of earlier messages. Tokens are counted for the conversation's
+ * model, and the budget defaults to the one for its settings.
+ */
+export function assemblePrompt(
+  sections: PromptSections,
+  settings?: GenerationSettings | null,
+  budget = getPromptBudget(settings)
+): AssembledPrompt {
+  const model = settings?.model ?? LLM_MODEL;
+  const overhead = PROMPT_MESSAGE_COUNT * TOKENS_PER_MESSAGE;
+  const systemTokens = countTokens(sections.systemPrompt, model);
+
+  const inputBudget = Math.max(budget - overhead - systemTokens, 0);
+  const input = truncateToTokens(sections.input, inputBudget, model);
+  const inputTokens = countTokens(input, model);
+
+  const actionSummary = sections.actionSummary ?? "";
+  const memories = sections.memories ?? [];
+  const historySummary = sections.historySummary ?? "";
+  const contextText = formatContextChunks(sections.context).join(SEPARATOR);
+  const allocation = allocateBudget(
+    Math.max(budget - overhead - systemTokens - inputTokens, 0),
+    {
+      actionSummary: countTokens(actionSummary, model),
+      userMemories: countTokens(formatUserMemories(memories), model),
+      context: countTokens(contextText, model),
+      history:
+        countTokens(formatChatHistory(sections.history), model) +
+        (historySummary
+          ? countTokens(`${HISTORY_SUMMARY_PREFIX}${historySummary}`, model) +
+            countTokens(SEPARATOR, model)
+          : 0),
+    }
+  );
+
+  const fittedSummary = truncateToTokens(
+    actionSummary,
+    allocation.actionSummary,
+    model
+  );
+  const userMemories = fitUserMemories(
+    memories,
+    allocation.userMemories,
+    model
+  );
+  const context = fitContext(sections.context, allocation.context, model);
+  const history = fitHistory(
+    sections.history,
+    historySummary,
+    allocation.history,
+    model
+  );
+
+  const contextParts = [
+    ...formatContextChunks(context.chunks),
+    ...(userMemories.text ? [userMemories.text] : []),
+    ...(fittedSummary ? [fittedSummary] : []),
+  ];
+
+  const breakdown: PromptTokenBreakdown = {
+    budget,
+    systemPrompt: systemTokens,
+    input: inputTokens,
+    actionSummary: countTokens(fittedSummary, model),
+    userMemories: countTokens(userMemories.text, model),
+    context: context.tokens,
+    historySummary: history.summaryTokens,
+    history: countTokens(history.history, model) - history.summaryTokens,
+    total: 0,
+    contextChunks: {
+      included: context.chunks.length,
+      dropped: sections.context.length - context.chunks.length,
+      truncated: context.truncated,
+    },
+    memories: {
+      included: userMemories.memories,
+      dropped: memories.length - userMemories.memories,
+    },
+    historyMessages: {
+      included: history.messages,
+      dropped: sections.history.length - history.messages,
+    },
+    inputTruncated: input !== sections.input,
+  };
+  breakdown.total =
+    overhead +
+    breakdown.systemPrompt +
+    breakdown.input +
+    breakdown.actionSummary +
+    breakdown.userMemories +
+    breakdown.context +
+    breakdown.history;
+
+  logger.debug({ ...breakdown }, "Assembled prompt");
+
+  return {
+    input,
+    chatHistory: history.history,
+    context: contextParts.join(SEPARATOR),
+    contextChunks: context.chunks,
+    breakdown,
+  };
+}
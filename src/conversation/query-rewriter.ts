@@ -0,0 +1,119 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { createChatModel } from "../models/llm";
+import { getMessageHistory } from "./memory";
+import { QUERY_REWRITING, QUERY_VARIANTS } from "../config/env";
+import { CONVERSATION, RETRIEVAL, SYSTEM_MESSAGES } from "../config/constants";
+import { ConversationState } from "../types/conversation";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("query-rewriter");
+
+// none: search with the raw message; condense: rewrite it into a standalone
+// query; multi: also search with alternative phrasings of that query
+export type QueryRewritingMode = "none" | "condense" | "multi";
+
+export interface RewrittenQuery {
+  original: string;
+  query: string; // Standalone query
+  variants: string[]; // Alternative phrasings, searched alongside the query
+}
+
+/**
+ * Format the turns before the latest message for the rewriting prompt
+ * Returns an empty string when there is no earlier human or AI message
+ */
+function formatPriorTurns(state: ConversationState): string {
+  const messages = getMessageHistory(state, CONVERSATION.MAX_HISTORY_LENGTH)
+    .slice(0, -1)
+    .filter((message) => ["human", "ai"].includes(message._getType()));
+
+  return messages
+    .map((message) => {
+      const role = message._getType() === "human" ? "Human" : "Assistant";
+      const content = message.content.toString();
+      const truncated =
+        content.length > RETRIEVAL.REWRITE_MESSAGE_LENGTH
+          ? `${content.slice(0, RETRIEVAL.REWRITE_MESSAGE_LENGTH)}...`
+          : content;
+      return `${role}: ${truncated}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Split the rewriting model's output into queries, dropping list markers
+ */
+function parseQueries(content: string): string[] {
+  return content
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "")
+        .replace(/^["']|["']$/g, "")
+        .trim()
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Rewrite the latest message into a standalone search query
+ *
+ * Follow-ups like "what about for contractors?" only make sense with the
+ * turns before them, so the chat model rewrites them using the recent
+ * history. In multi mode it also suggests alternative phrasings. The first
+ * message of a conversation is searched as is, and the raw message is used
+ * if rewriting fails.
+ */
+export async function rewriteQuery(
+  state: ConversationState,
+  message: string,
+  mode: QueryRewritingMode = QUERY_REWRITING
+): Promise<RewrittenQuery> {
+  const unchanged = { original: message, query: message, variants: [] };
+  const priorTurns = mode === "none" ? "" : formatPriorTurns(state);
+
+  if (mode === "none" || (!priorTurns && mode === "condense")) {
+    return unchanged;
+  }
+
+  const variantCount = mode === "multi" ? QUERY_VARIANTS : 0;
+  const instructions = variantCount
+    ? `${SYSTEM_MESSAGES.CONDENSE_QUERY}\n  Then write ${variantCount} alternative phrasings of it, one per line.`
+    : SYSTEM_MESSAGES.CONDENSE_QUERY;
+
+  try {
+    const response = await createChatModel().invoke([
+      new SystemMessage(instructions),
+      new HumanMessage(
+        `Conversation:\n${priorTurns || "(none)"}\n\nLatest message: ${message}`
+      ),
+    ]);
+
+    const [query, ...variants] = parseQueries(response.content.toString());
+
+    if (!query) {
+      return unchanged;
+    }
+
+    const rewritten = {
+      original: message,
+      query,
+      variants: [...new Set(variants)]
+        .filter((variant) => variant !== query)
+        .slice(0, variantCount),
+    };
+
+    logger.debug(
+      { conversationId: state.conversationId, ...rewritten },
+      "Rewrote search query"
+    );
+
+    return rewritten;
+  } catch (error) {
+    logger.warn(
+      { error, conversationId: state.conversationId },
+      "Query rewriting failed, searching with the raw message"
+    );
+    return unchanged;
+  }
+}
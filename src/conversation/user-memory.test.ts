@@ -0,0 +1,135 @@
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { extractUserMemories, recallUserMemories } from "./user-memory";
+import { getUserMemories } from "../storage/user-memory-store";
+import { initialState } from "../graphs/state";
+import { createTestHarness, TestHarness } from "../testing/harness";
+import { USER_MEMORY } from "../config/constants";
+import { ConversationState } from "../types/conversation";
+
+/**
+ * A turn in which the user says something, as seen after the reply
+ */
+function turn(message: string, tenantId?: string): ConversationState {
+  return {
+    ...initialState,
+    conversationId: "conv-1",
+    tenantId,
+    messages: [
+      new HumanMessage({ content: message, id: "msg-1" }),
+      new AIMessage("Noted."),
+    ],
+  };
+}
+
+/**
+ * The extraction model's reply listing the given facts
+ */
+function extracted(...memories: { content: string; confidence: number }[]) {
+  return JSON.stringify({ memories });
+}
+
+describe("user memory", () => {
+  let harness: TestHarness;
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await harness.cleanup();
+  });
+
+  it("remembers confident facts with where they were learned", async () => {
+    harness = await createTestHarness({
+      responses: [
+        extracted(
+          { content: "The user works in the Berlin office.", confidence: 0.9 },
+          { content: "The user might like tea.", confidence: 0.3 }
+        ),
+      ],
+    });
+
+    const saved = await extractUserMemories(
+      turn("I work in the Berlin office"),
+      "user-1"
+    );
+
+    expect(saved).toEqual([
+      expect.objectContaining({
+        content: "The user works in the Berlin office.",
+        confidence: 0.9,
+        source: {
+          conversationId: "conv-1",
+          messageId: "msg-1",
+          excerpt: "I work in the Berlin office",
+        },
+      }),
+    ]);
+  });
+
+  it("updates a known fact instead of adding a duplicate", async () => {
+    const fact = "The user works in the Berlin office.";
+    harness = await createTestHarness({
+      responses: [
+        extracted({ content: fact, confidence: 0.6 }),
+        extracted({ content: fact, confidence: 0.95 }),
+      ],
+    });
+
+    const [first] = await extractUserMemories(turn("Berlin"), "user-1");
+    const [second] = await extractUserMemories(turn("Berlin"), "user-1");
+    const stored = await getUserMemories("user-1");
+
+    expect(second.id).toBe(first.id);
+    expect(second.createdAt).toBe(first.createdAt);
+    expect(stored).toHaveLength(1);
+    expect(stored[0].confidence).toBe(0.95);
+  });
+
+  it("drops the least confident memories beyond the limit", async () => {
+    jest.replaceProperty(USER_MEMORY, "MAX_PER_USER", 2);
+    harness = await createTestHarness({
+      responses: [
+        extracted(
+          { content: "The user works in the Berlin office.", confidence: 0.9 },
+          { content: "The user has two cats.", confidence: 0.6 },
+          { content: "The user's manager is Priya.", confidence: 0.8 }
+        ),
+      ],
+    });
+
+    await extractUserMemories(turn("About me"), "user-1");
+    const stored = await getUserMemories("user-1");
+
+    expect(stored.map((memory) => memory.content).sort()).toEqual([
+      "The user works in the Berlin office.",
+      "The user's manager is Priya.",
+    ]);
+  });
+
+  it("recalls relevant memories within their tenant only", async () => {
+    harness = await createTestHarness({
+      responses: [
+        extracted({
+          content: "The user works in the Berlin office.",
+          confidence: 0.9,
+        }),
+      ],
+    });
+
+    await extractUserMemories(turn("Berlin", "acme"), "user-1");
+
+    const recalled = await recallUserMemories(
+      "user-1",
+      "Which office does the user work in?",
+      "acme"
+    );
+    const otherTenant = await recallUserMemories(
+      "user-1",
+      "Which office does the user work in?",
+      "globex"
+    );
+
+    expect(recalled.map((memory) => memory.content)).toEqual([
+      "The user works in the Berlin office.",
+    ]);
+    expect(otherTenant).toEqual([]);
+  });
+});
@@ -0,0 +1,247 @@
+import { v4 as uuidv4 } from "uuid";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { createChatModel } from "../models/llm";
+import { createCachedEmbeddings } from "../models/embeddings";
+import { cosineSimilarity } from "../vectorstore/local-vector-store";
+import {
+  deleteUserMemory,
+  getUserMemories,
+  saveUserMemory,
+} from "../storage/user-memory-store";
+import { SYSTEM_MESSAGES, USER_MEMORY } from "../config/constants";
+import { ConversationState } from "../types/conversation";
+import { RecalledMemory, StoredUserMemory, UserMemory } from "../types/memory";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("user-memory");
+
+/**
+ * A fact returned by the extraction model
+ */
+interface ExtractedFact {
+  content: string;
+  confidence: number;
+}
+
+/**
+ * Parse the facts returned by the extraction model
+ */
+function parseExtractedFacts(content: string): ExtractedFact[] {
+  const json = content.match(/\{[\s\S]*\}/);
+  const memories = json ? JSON.parse(json[0]).memories : undefined;
+
+  if (!Array.isArray(memories)) {
+    throw new Error("Expected a list of memories");
+  }
+
+  return memories
+    .filter((fact) => typeof fact?.content === "string" && fact.content.trim())
+    .map((fact) => ({
+      content: fact.content.trim(),
+      confidence: Math.min(Math.max(Number(fact.confidence) || 0, 0), 1),
+    }));
+}
+
+/**
+ * Leave out the stored embedding
+ */
+export function toUserMemory(memory: StoredUserMemory): UserMemory {
+  const userMemory: UserMemory & { embedding?: number[] } = { ...memory };
+  delete userMemory.embedding;
+  return userMemory;
+}
+
+/**
+ * Find the latest user message and the assistant message it replies to
+ */
+function getLatestExchange(state: ConversationState) {
+  const messages = [...state.messages].reverse();
+  const index = messages.findIndex((message) => message._getType() === "human");
+
+  if (index === -1) {
+    return null;
+  }
+
+  return {
+    userMessage: messages[index],
+    assistantMessage: messages
+      .slice(index + 1)
+      .find((message) => message._getType() === "ai"),
+  };
+}
+
+/**
+ * Find the memory most similar to an embedding, if similar enough to be
+ * the same fact
+ */
+function findDuplicate(
+  memories: StoredUserMemory[],
+  embedding: number[]
+): StoredUserMemory | undefined {
+  let duplicate: StoredUserMemory | undefined;
+  let best = USER_MEMORY.DUPLICATE_SIMILARITY;
+
+  for (const memory of memories) {
+    const similarity = cosineSimilarity(memory.embedding, embedding);
+
+    if (similarity >= best) {
+      duplicate = memory;
+      best = similarity;
+    }
+  }
+
+  return duplicate;
+}
+
+/**
+ * Drop the lowest-confidence, oldest memories beyond the per-user limit
+ */
+async function pruneUserMemories(memories: StoredUserMemory[]): Promise<void> {
+  const excess = memories.length - USER_MEMORY.MAX_PER_USER;
+
+  if (excess <= 0) {
+    return;
+  }
+
+  const dropped = [...memories]
+    .sort(
+      (a, b) =>
+        a.confidence - b.confidence || a.updatedAt.localeCompare(b.updatedAt)
+    )
+    .slice(0, excess);
+
+  await Promise.all(dropped.map((memory) => deleteUserMemory(memory.id)));
+}
+
+/**
+ * Extract facts about the user from the latest turn and remember them
+ *
+ * Runs after a turn. The chat model picks lasting facts the user stated
+ * about themselves; facts below USER_MEMORY.MIN_CONFIDENCE are ignored, and
+ * a fact close enough to a known one updates it instead of being added.
+ * Each memory records the conversation and message it came from. Returns
+ * the memories saved, or none if extraction fails.
+ */
+export async function extractUserMemories(
+  state: ConversationState,
+  userId: string
+): Promise<UserMemory[]> {
+  const exchange = getLatestExchange(state);
+
+  if (!exchange) {
+    return [];
+  }
+
+  try {
+    const { userMessage, assistantMessage } = exchange;
+    const known = await getUserMemories(userId, state.tenantId);
+
+    const response = await createChatModel({ jsonMode: true }).invoke([
+      new SystemMessage(SYSTEM_MESSAGES.EXTRACT_MEMORIES),
+      new HumanMessage(
+        [
+          `Known facts:\n${
+            known.map((memory) => `- ${memory.content}`).join("\n") || "(none)"
+          }`,
+          ...(assistantMessage
+            ? [`Assistant: ${assistantMessage.content.toString()}`]
+            : []),
+          `User: ${userMessage.content.toString()}`,
+        ].join("\n\n")
+      ),
+    ]);
+
+    const facts = parseExtractedFacts(response.content.toString()).filter(
+      (fact) => fact.confidence >= USER_MEMORY.MIN_CONFIDENCE
+    );
+
+    if (!facts.length) {
+      return [];
+    }
+
+    const vectors = await createCachedEmbeddings().embedDocuments(
+      facts.map((fact) => fact.content)
+    );
+    const now = new Date().toISOString();
+    const source = {
+      conversationId: state.conversationId,
+      ...(userMessage.id ? { messageId: userMessage.id } : {}),
+      excerpt: userMessage.content
+        .toString()
+        .slice(0, USER_MEMORY.EXCERPT_LENGTH),
+    };
+    const memories = [...known];
+    const saved: StoredUserMemory[] = [];
+
+    for (const [i, fact] of facts.entries()) {
+      const duplicate = findDuplicate(memories, vectors[i]);
+      const memory: StoredUserMemory = {
+        id: duplicate?.id ?? `mem_${uuidv4()}`,
+        userId,
+        ...(state.tenantId ? { tenantId: state.tenantId } : {}),
+        content: fact.content,
+        confidence: fact.confidence,
+        source,
+        embedding: vectors[i],
+        createdAt: duplicate?.createdAt ?? now,
+        updatedAt: now,
+      };
+
+      await saveUserMemory(memory);
+
+      if (duplicate) {
+        memories.splice(memories.indexOf(duplicate), 1, memory);
+      } else {
+        memories.push(memory);
+      }
+      saved.push(memory);
+    }
+
+    await pruneUserMemories(memories);
+
+    logger.info(
+      {
+        conversationId: state.conversationId,
+        userId,
+        saved: saved.length,
+      },
+      "Remembered facts about the user"
+    );
+
+    return saved.map(toUserMemory);
+  } catch (error) {
+    logger.warn(
+      { error, conversationId: state.conversationId, userId },
+      "Failed to extract user memories"
+    );
+    return [];
+  }
+}
+
+/**
+ * Recall the user's memories most relevant to a message
+ * Only memories from the given tenant are considered
+ */
+export async function recallUserMemories(
+  userId: string,
+  query: string,
+  tenantId?: string,
+  limit: number = USER_MEMORY.MAX_RECALLED
+): Promise<RecalledMemory[]> {
+  const memories = await getUserMemories(userId, tenantId);
+
+  if (!memories.length) {
+    return [];
+  }
+
+  const queryEmbedding = await createCachedEmbeddings().embedQuery(query);
+
+  return memories
+    .map((memory) => ({
+      ...toUserMemory(memory),
+      score: cosineSimilarity(memory.embedding, queryEmbedding),
+    }))
+    .filter((memory) => memory.score >= USER_MEMORY.MIN_RELEVANCE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
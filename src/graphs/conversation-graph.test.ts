@@ -0,0 +1,144 @@
+import { BaseMessage } from "@langchain/core/messages";
+import { createTestHarness, TestHarness } from "../testing/harness";
+import { ActionStatus, ActionType } from "../config/constants";
+import { loadConversationState } from "../storage/conversation-store";
+
+const REFUND_POLICY = {
+  title: "Refund policy",
+  source: "https://example.com/refunds",
+  content:
+    "Customers can request a refund within 30 days of purchase. Refunds are paid back to the original payment method.",
+  contentType: "text" as const,
+};
+
+/**
+ * Get the system prompt a model call was made with
+ */
+function getSystemPrompt(messages: BaseMessage[]): string {
+  return messages
+    .filter((message) => message.getType() === "system")
+    .map((message) => message.content.toString())
+    .join("\n");
+}
+
+describe("advanced conversation graph", () => {
+  let harness: TestHarness;
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it("answers from retrieved knowledge with citations", async () => {
+    harness = await createTestHarness({
+      documents: [REFUND_POLICY],
+      defaultResponse: (messages) =>
+        getSystemPrompt(messages).includes("within 30 days")
+          ? "You can get a refund within 30 days [1]."
+          : "I don't know.",
+    });
+
+    const result = await harness.sendMessage(
+      "How long do I have to request a refund?"
+    );
+    const answer = result.messages[result.messages.length - 1];
+
+    expect(answer.content).toBe("You can get a refund within 30 days [1].");
+    expect(result.context[0].content).toContain("within 30 days");
+    expect(answer.additional_kwargs.citations).toEqual([
+      expect.objectContaining({
+        index: 1,
+        title: "Refund policy",
+        url: "https://example.com/refunds",
+      }),
+    ]);
+    expect(answer.additional_kwargs.model).toEqual(
+      expect.objectContaining({ provider: "fake", fallback: false })
+    );
+  });
+
+  it("executes actions called by tool-call rules", async () => {
+    harness = await createTestHarness({
+      toolCallRules: [
+        {
+          pattern: /note that (.+)/i,
+          tool: ActionType.TAKE_NOTE,
+          args: (match) => ({ content: match[1], category: "personal" }),
+        },
+      ],
+      defaultResponse: "Noted.",
+    });
+
+    const result = await harness.sendMessage(
+      "Please note that the wifi password is hunter2"
+    );
+
+    expect(result.pending_actions).toEqual([
+      expect.objectContaining({
+        type: ActionType.TAKE_NOTE,
+        status: ActionStatus.COMPLETED,
+        data: expect.objectContaining({
+          content: "the wifi password is hunter2",
+        }),
+      }),
+    ]);
+    expect(result.messages[result.messages.length - 1].content).toBe("Noted.");
+  });
+
+  it("does not call tools when no rule matches", async () => {
+    harness = await createTestHarness({
+      toolCallRules: [
+        { pattern: /note that/i, tool: ActionType.TAKE_NOTE, args: {} },
+      ],
+    });
+
+    const result = await harness.sendMessage("What's the weather like?");
+
+    expect(result.pending_actions).toEqual([]);
+    expect(result.messages[result.messages.length - 1].content).toBe(
+      "Fake response to: What's the weather like?"
+    );
+  });
+
+  it("carries history across turns of a saved conversation", async () => {
+    harness = await createTestHarness({
+      responses: ["Nice to meet you, Ada.", "Your name is Ada."],
+    });
+
+    const first = await harness.sendMessage("Hi, my name is Ada");
+    const second = await harness.sendMessage(
+      "What is my name?",
+      first.conversationId
+    );
+
+    expect(second.messages.map((message) => message.content)).toEqual([
+      "Hi, my name is Ada",
+      "Nice to meet you, Ada.",
+      "What is my name?",
+      "Your name is Ada.",
+    ]);
+
+    // The second answer was generated with the first turn in its prompt
+    const calls = harness.chatModel.calls;
+    const prompt = calls[calls.length - 1]
+      .map((message) => message.content.toString())
+      .join("\n");
+    expect(prompt).toContain("Nice to meet you, Ada.");
+
+    const stored = await loadConversationState(first.conversationId);
+    expect(stored?.messages).toHaveLength(4);
+  });
+
+  it("streams the answer as token events", async () => {
+    harness = await createTestHarness({ responses: ["Hello there, friend."] });
+    const deltas: string[] = [];
+
+    await harness.sendMessage("Hello", undefined, {
+      onEvent: (event) => {
+        if (event.type === "token") deltas.push(event.delta);
+      },
+    });
+
+    expect(deltas.join("")).toBe("Hello there, friend.");
+    expect(deltas.length).toBeGreaterThan(1);
+  });
+});
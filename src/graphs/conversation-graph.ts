@@ -1,57 +1,122 @@
-import { ConversationState } from "../types/conversation";
-// import { initialState } from "./state";
+import {
+  BaseCheckpointSaver,
+  CompiledStateGraph,
+  END,
+  LangGraphRunnableConfig,
+  START,
+  StateGraph,
+} from "@langchain/langgraph";
+import { ConversationState, NodeOptions } from "../types/conversation";
+import { ConversationStateAnnotation } from "./state";
+import { summarizeHistoryNode } from "./nodes/summarize";
+import { resolveApprovalsNode } from "./nodes/approval";
 import { retrievalNode } from "./nodes/retrieval";
+import { recallMemoriesNode } from "./nodes/user-memory";
 import { extractActionsNode } from "./nodes/extract-actions";
+import { askClarificationNode } from "./nodes/clarification";
 import { executeActionsNode } from "./nodes/execute-actions";
 import {
   generateResponseNode,
   generateResponseWithActionSummaryNode,
 } from "./nodes/generate";
+import { getCheckpointer } from "../storage/checkpoint-store";
+import { ActionStatus } from "../config/constants";
 import { createLogger } from "../utils/logger";
 import { AIMessage } from "@langchain/core/messages";
 
 const logger = createLogger("conversation-graph");
 
 /**
- * Create the main conversation graph
+ * Options for building a conversation graph
  */
-export function createConversationGraph() {
-  logger.debug("Creating conversation graph");
+export interface ConversationGraphOptions {
+  // Checkpointer for graph state, or false to run without checkpoints
+  checkpointer?: BaseCheckpointSaver | false;
+}
 
-  try {
-    return {
-      invoke: async (state: ConversationState) => {
-        logger.debug("Running full conversation graph");
+/**
+ * Compiled conversation graph over the conversation state channels
+ */
+export type ConversationGraph = CompiledStateGraph<
+  typeof ConversationStateAnnotation.State,
+  typeof ConversationStateAnnotation.Update,
+  string,
+  typeof ConversationStateAnnotation.spec,
+  typeof ConversationStateAnnotation.spec
+>;
+
+type ConversationNode = (
+  state: ConversationState,
+  options?: NodeOptions
+) => Promise<ConversationState>;
 
-        try {
-          // Run nodes in sequence
-          let currentState = state;
+/**
+ * Adapt a node to LangGraph, reading per-run node options from the run config
+ */
+function asGraphNode(node: ConversationNode) {
+  return (state: ConversationState, config?: LangGraphRunnableConfig) =>
+    node(state, config?.configurable?.nodeOptions);
+}
 
-          // Retrieval step
-          currentState = await retrievalNode(currentState);
+/**
+ * Resolve the checkpointer, defaulting to the DynamoDB-backed one
+ */
+function resolveCheckpointer(options?: ConversationGraphOptions) {
+  if (options?.checkpointer === false) {
+    return undefined;
+  }
 
-          // Extract actions step
-          currentState = await extractActionsNode(currentState);
+  return options?.checkpointer ?? getCheckpointer();
+}
 
-          // Execute actions step
-          currentState = await executeActionsNode(currentState);
+/**
+ * Conditional edge: take the action branch when actions are pending
+ * execution or awaiting the user's approval, ask for missing details when
+ * only a draft action was extracted, and otherwise just respond
+ */
+function routeAfterActionExtraction(state: ConversationState) {
+  const hasActions = state.pending_actions.some(
+    (action) =>
+      action.status === ActionStatus.PENDING ||
+      action.status === ActionStatus.AWAITING_APPROVAL
+  );
+
+  if (hasActions) {
+    return "execute_actions";
+  }
 
-          // Generate response with action summary
-          currentState = await generateResponseWithActionSummaryNode(
-            currentState
-          );
+  return state.draft_action ? "ask_clarification" : "generate_response";
+}
 
-          logger.debug("Conversation graph completed successfully");
-          return currentState;
-        } catch (error) {
-          logger.error(
-            { error, message: (error as Error).message },
-            "Error in conversation graph"
-          );
-          return createFallbackResponse(state);
-        }
-      },
-    };
+/**
+ * Create the main conversation graph
+ */
+export function createConversationGraph(
+  options?: ConversationGraphOptions
+): ConversationGraph {
+  logger.debug("Creating conversation graph");
+
+  try {
+    return new StateGraph(ConversationStateAnnotation)
+      .addNode("summarize_history", asGraphNode(summarizeHistoryNode))
+      .addNode("resolve_approvals", asGraphNode(resolveApprovalsNode))
+      .addNode("retrieval", asGraphNode(retrievalNode))
+      .addNode("recall_memories", asGraphNode(recallMemoriesNode))
+      .addNode("extract_actions", asGraphNode(extractActionsNode))
+      .addNode("execute_actions", asGraphNode(executeActionsNode))
+      .addNode(
+        "generate_with_actions",
+        asGraphNode(generateResponseWithActionSummaryNode)
+      )
+      .addEdge(START, "summarize_history")
+      .addEdge("summarize_history", "resolve_approvals")
+      .addEdge("resolve_approvals", "retrieval")
+      .addEdge("retrieval", "recall_memories")
+      .addEdge("recall_memories", "extract_actions")
+      .addEdge("extract_actions", "execute_actions")
+      .addEdge("execute_actions", "generate_with_actions")
+      .addEdge("generate_with_actions", END)
+      .compile({ checkpointer: resolveCheckpointer(options) });
   } catch (error) {
     logger.error(
       { error, message: (error as Error).message },
@@ -64,35 +129,23 @@ export function createConversationGraph() {
 /**
  * Create a simpler RAG-only conversation graph
  */
-export function createRagOnlyGraph() {
+export function createRagOnlyGraph(
+  options?: ConversationGraphOptions
+): ConversationGraph {
   logger.debug("Creating RAG-only conversation graph");
 
   try {
-    return {
-      invoke: async (state: ConversationState) => {
-        logger.debug("Running RAG-only conversation graph");
-
-        try {
-          // Run nodes in sequence
-          let currentState = state;
-
-          // Retrieval step
-          currentState = await retrievalNode(currentState);
-
-          // Generate response
-          currentState = await generateResponseNode(currentState);
-
-          logger.debug("RAG-only graph completed successfully");
-          return currentState;
-        } catch (error) {
-          logger.error(
-            { error, message: (error as Error).message },
-            "Error in RAG-only graph"
-          );
-          return createFallbackResponse(state);
-        }
-      },
-    };
+    return new StateGraph(ConversationStateAnnotation)
+      .addNode("summarize_history", asGraphNode(summarizeHistoryNode))
+      .addNode("retrieval", asGraphNode(retrievalNode))
+      .addNode("recall_memories", asGraphNode(recallMemoriesNode))
+      .addNode("generate_response", asGraphNode(generateResponseNode))
+      .addEdge(START, "summarize_history")
+      .addEdge("summarize_history", "retrieval")
+      .addEdge("retrieval", "recall_memories")
+      .addEdge("recall_memories", "generate_response")
+      .addEdge("generate_response", END)
+      .compile({ checkpointer: resolveCheckpointer(options) });
   } catch (error) {
     logger.error(
       { error, message: (error as Error).message },
@@ -106,28 +159,17 @@ export function createRagOnlyGraph() {
  * Create a minimal graph with just the generate response node
  * Used for simple use cases or when other components aren't needed
  */
-export function createMinimalGraph() {
+export function createMinimalGraph(
+  options?: ConversationGraphOptions
+): ConversationGraph {
   logger.debug("Creating minimal conversation graph");
 
   try {
-    return {
-      invoke: async (state: ConversationState) => {
-        logger.debug("Running minimal conversation graph");
-
-        try {
-          // Run the generate response node directly
-          const result = await generateResponseNode(state);
-          logger.debug("Minimal graph completed successfully");
-          return result;
-        } catch (error) {
-          logger.error(
-            { error, message: (error as Error).message },
-            "Error in minimal graph"
-          );
-          return createFallbackResponse(state);
-        }
-      },
-    };
+    return new StateGraph(ConversationStateAnnotation)
+      .addNode("generate_response", asGraphNode(generateResponseNode))
+      .addEdge(START, "generate_response")
+      .addEdge("generate_response", END)
+      .compile({ checkpointer: resolveCheckpointer(options) });
   } catch (error) {
     logger.error(
       { error, message: (error as Error).message },
@@ -140,49 +182,40 @@ export function createMinimalGraph() {
 /**
  * Create a graph with conditional branching based on action presence
  */
-export function createAdvancedConversationGraph() {
+export function createAdvancedConversationGraph(
+  options?: ConversationGraphOptions
+): ConversationGraph {
   logger.debug("Creating advanced conversation graph");
 
   try {
-    return {
-      invoke: async (state: ConversationState) => {
-        logger.debug("Running advanced conversation graph");
-
-        try {
-          // Run nodes in sequence with conditional branching
-          let currentState = state;
-
-          // Retrieval step
-          currentState = await retrievalNode(currentState);
-
-          // Extract actions step
-          currentState = await extractActionsNode(currentState);
-
-          // Conditional branching based on detected actions
-          if (currentState.pending_actions.length > 0) {
-            // Execute actions if any were found
-            currentState = await executeActionsNode(currentState);
-
-            // Generate response with action summary
-            currentState = await generateResponseWithActionSummaryNode(
-              currentState
-            );
-          } else {
-            // Generate standard response if no actions
-            currentState = await generateResponseNode(currentState);
-          }
-
-          logger.debug("Advanced conversation graph completed successfully");
-          return currentState;
-        } catch (error) {
-          logger.error(
-            { error, message: (error as Error).message },
-            "Error in advanced conversation graph"
-          );
-          return createFallbackResponse(state);
-        }
-      },
-    };
+    return new StateGraph(ConversationStateAnnotation)
+      .addNode("summarize_history", asGraphNode(summarizeHistoryNode))
+      .addNode("resolve_approvals", asGraphNode(resolveApprovalsNode))
+      .addNode("retrieval", asGraphNode(retrievalNode))
+      .addNode("recall_memories", asGraphNode(recallMemoriesNode))
+      .addNode("extract_actions", asGraphNode(extractActionsNode))
+      .addNode("execute_actions", asGraphNode(executeActionsNode))
+      .addNode(
+        "generate_with_actions",
+        asGraphNode(generateResponseWithActionSummaryNode)
+      )
+      .addNode("generate_response", asGraphNode(generateResponseNode))
+      .addNode("ask_clarification", asGraphNode(askClarificationNode))
+      .addEdge(START, "summarize_history")
+      .addEdge("summarize_history", "resolve_approvals")
+      .addEdge("resolve_approvals", "retrieval")
+      .addEdge("retrieval", "recall_memories")
+      .addEdge("recall_memories", "extract_actions")
+      .addConditionalEdges("extract_actions", routeAfterActionExtraction, [
+        "execute_actions",
+        "generate_response",
+        "ask_clarification",
+      ])
+      .addEdge("execute_actions", "generate_with_actions")
+      .addEdge("generate_with_actions", END)
+      .addEdge("generate_response", END)
+      .addEdge("ask_clarification", END)
+      .compile({ checkpointer: resolveCheckpointer(options) });
   } catch (error) {
     logger.error(
       { error, message: (error as Error).message },
@@ -192,6 +225,48 @@ export function createAdvancedConversationGraph() {
   }
 }
 
+/**
+ * Run a conversation graph for a single turn
+ *
+ * The conversation ID is used as the checkpoint thread ID, and any error
+ * escaping the graph is turned into a fallback response.
+ */
+export async function runConversationGraph(
+  graph: ConversationGraph,
+  state: ConversationState,
+  options?: NodeOptions
+): Promise<ConversationState> {
+  logger.debug(
+    { conversationId: state.conversationId },
+    "Running conversation graph"
+  );
+
+  try {
+    const result = await graph.invoke(state, {
+      configurable: {
+        thread_id: state.conversationId,
+        nodeOptions: options,
+      },
+    });
+
+    logger.debug(
+      { conversationId: state.conversationId },
+      "Conversation graph completed successfully"
+    );
+    return result;
+  } catch (error) {
+    logger.error(
+      {
+        error,
+        message: (error as Error).message,
+        conversationId: state.conversationId,
+      },
+      "Error in conversation graph"
+    );
+    return createFallbackResponse(state);
+  }
+}
+
 /**
  * Helper to create a fallback response when a node fails
  */
@@ -209,68 +284,68 @@ function createFallbackResponse(state: ConversationState): ConversationState {
 }
 
 /**
- * Create a basic fallback graph that will always work
- * Used when other graphs fail to initialize
+ * Wrap a node so that errors leave the state unchanged
  */
-function createFallbackGraph() {
-  logger.warn("Creating fallback graph due to initialization errors");
-
-  return {
-    invoke: async (state: ConversationState) => {
-      try {
-        // Try to use retrieval and generate nodes directly if possible
-        let updatedState = state;
+function withErrorFallback(
+  node: ConversationNode,
+  name: string
+): ConversationNode {
+  return async (state, options) => {
+    try {
+      return await node(state, options);
+    } catch (e) {
+      logger.error({ error: e }, `Error in fallback ${name}`);
+      return state;
+    }
+  };
+}
 
-        try {
-          updatedState = await retrievalNode(state);
-        } catch (e) {
-          logger.error({ error: e }, "Error in fallback retrieval");
-        }
+/**
+ * Make sure the conversation ends with an AI message
+ */
+async function ensureResponseNode(
+  state: ConversationState
+): Promise<ConversationState> {
+  const lastMessage = state.messages[state.messages.length - 1];
 
-        try {
-          updatedState = await generateResponseNode(updatedState);
-        } catch (e) {
-          logger.error({ error: e }, "Error in fallback generation");
+  if (lastMessage && lastMessage._getType() === "ai") {
+    return state;
+  }
 
-          // If all else fails, add a manual response
-          if (
-            !updatedState.messages ||
-            updatedState.messages.length === 0 ||
-            updatedState.messages[
-              updatedState.messages.length - 1
-            ]._getType() !== "ai"
-          ) {
-            updatedState = {
-              ...updatedState,
-              messages: [
-                ...(updatedState.messages || []),
-                new AIMessage({
-                  content:
-                    "I apologize, but I'm having trouble processing your request right now. Our system is operating in fallback mode.",
-                  additional_kwargs: { timestamp: Date.now() },
-                }),
-              ],
-            };
-          }
-        }
+  return {
+    ...state,
+    messages: [
+      ...(state.messages || []),
+      new AIMessage({
+        content:
+          "I apologize, but I'm having trouble processing your request right now. Our system is operating in fallback mode.",
+        additional_kwargs: { timestamp: Date.now() },
+      }),
+    ],
+  };
+}
 
-        return updatedState;
-      } catch (error) {
-        logger.error({ error }, "Critical error in fallback graph");
+/**
+ * Create a basic fallback graph that will always work
+ * Used when other graphs fail to initialize
+ */
+function createFallbackGraph(): ConversationGraph {
+  logger.warn("Creating fallback graph due to initialization errors");
 
-        // Emergency recovery - return a basic response
-        return {
-          ...state,
-          messages: [
-            ...(state.messages || []),
-            new AIMessage({
-              content:
-                "I'm sorry, I'm having technical difficulties. Please try again later.",
-              additional_kwargs: { timestamp: Date.now() },
-            }),
-          ],
-        };
-      }
-    },
-  };
+  // Fallback mode runs without checkpoints to keep dependencies minimal
+  return new StateGraph(ConversationStateAnnotation)
+    .addNode(
+      "retrieval",
+      asGraphNode(withErrorFallback(retrievalNode, "retrieval"))
+    )
+    .addNode(
+      "generate_response",
+      asGraphNode(withErrorFallback(generateResponseNode, "generation"))
+    )
+    .addNode("ensure_response", asGraphNode(ensureResponseNode))
+    .addEdge(START, "retrieval")
+    .addEdge("retrieval", "generate_response")
+    .addEdge("generate_response", "ensure_response")
+    .addEdge("ensure_response", END)
+    .compile();
 }
@@ -0,0 +1,101 @@
+import {
+  getApprovalPolicy,
+  getInitialActionStatus,
+  parseApprovalReply,
+} from "./approval";
+import { createTestHarness, TestHarness } from "../../testing/harness";
+import {
+  ActionStatus,
+  ActionType,
+  ApprovalPolicy,
+  DEFAULT_APPROVAL_POLICY,
+} from "../../config/constants";
+
+describe("approval policies", () => {
+  it("takes the policy from the action registration", () => {
+    expect(getApprovalPolicy(ActionType.TAKE_NOTE)).toBe(ApprovalPolicy.AUTO);
+    expect(getApprovalPolicy(ActionType.SET_REMINDER)).toBe(
+      ApprovalPolicy.REQUIRE_CONFIRMATION
+    );
+    expect(getApprovalPolicy("unregistered")).toBe(DEFAULT_APPROVAL_POLICY);
+  });
+
+  it("starts actions in the status their policy calls for", () => {
+    expect(getInitialActionStatus(ApprovalPolicy.AUTO)).toBe(
+      ActionStatus.PENDING
+    );
+    expect(getInitialActionStatus(ApprovalPolicy.REQUIRE_CONFIRMATION)).toBe(
+      ActionStatus.AWAITING_APPROVAL
+    );
+    expect(getInitialActionStatus(ApprovalPolicy.FORBIDDEN)).toBe(
+      ActionStatus.CANCELLED
+    );
+  });
+
+  it("reads confirmations and cancellations from short replies", () => {
+    expect(parseApprovalReply("Yes, go ahead")).toBe("approve");
+    expect(parseApprovalReply("ok")).toBe("approve");
+    expect(parseApprovalReply("No thanks")).toBe("reject");
+    expect(parseApprovalReply("never mind")).toBe("reject");
+    expect(parseApprovalReply("What time is it?")).toBeNull();
+  });
+
+  it("does not read qualified or retracted replies as decisions", () => {
+    expect(parseApprovalReply("ok, but make it 3pm instead")).toBeNull();
+    expect(parseApprovalReply("yes — wait, cancel that")).toBeNull();
+    expect(parseApprovalReply("Yes please.")).toBe("approve");
+    expect(parseApprovalReply("Cancel that!")).toBe("reject");
+  });
+});
+
+describe("approval gate", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await createTestHarness({
+      toolCallRules: [
+        {
+          pattern: /remind me/i,
+          tool: ActionType.SET_REMINDER,
+          args: { title: "Call Ada", date: "2030-01-01", time: "09:00" },
+        },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it.each([
+    ["yes", ActionStatus.COMPLETED],
+    ["no", ActionStatus.CANCELLED],
+  ])(
+    "resolves awaiting actions when the user replies %s",
+    async (reply, status) => {
+      const first = await harness.sendMessage("Remind me to call Ada");
+      expect(first.pending_actions[0].status).toBe(
+        ActionStatus.AWAITING_APPROVAL
+      );
+
+      const second = await harness.sendMessage(reply, first.conversationId);
+
+      expect(second.pending_actions).toEqual([
+        expect.objectContaining({ type: ActionType.SET_REMINDER, status }),
+      ]);
+    }
+  );
+
+  it.each([
+    "What's the weather like?",
+    "ok, but make it 3pm instead",
+    "yes — wait, cancel that",
+  ])("keeps actions awaiting approval on the reply %s", async (reply) => {
+    const first = await harness.sendMessage("Remind me to call Ada");
+    const second = await harness.sendMessage(reply, first.conversationId);
+
+    expect(second.pending_actions[0].status).toBe(
+      ActionStatus.AWAITING_APPROVAL
+    );
+  });
+});
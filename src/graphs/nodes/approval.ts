@@ -0,0 +1,175 @@
+import { ConversationState, NodeOptions } from "../../types/conversation";
+import {
+  ActionStatus,
+  ApprovalPolicy,
+  DEFAULT_APPROVAL_POLICY,
+} from "../../config/constants";
+import { updateAction, getLastHumanMessage } from "../state";
+import { markActionCancelled } from "../../storage/action-store";
+import { getActionDefinition } from "../../tools/action-registry";
+import { createLogger } from "../../utils/logger";
+
+const logger = createLogger("approval");
+
+const APPROVE_WORDS =
+  "yes|yep|yeah|y|sure|ok|okay|confirm(?:ed)?|approve(?:d)?|go ahead|do it|please do";
+const REJECT_WORDS =
+  "no|nope|n|cancel(?: it| that)?|reject(?:ed)?|don't|do not|stop|never ?mind";
+const POLITE_WORDS = "please|thanks|thank you";
+
+/**
+ * Match a reply made up only of the given words, with polite words and
+ * punctuation between them, e.g. "Yes, go ahead!" or "No thanks."
+ */
+function shortReplyPattern(words: string): RegExp {
+  return new RegExp(
+    `^(?:${words})(?:[\\s,.!]+(?:${words}|${POLITE_WORDS}))*[.!]*$`,
+    "i"
+  );
+}
+
+// Short replies that confirm or cancel actions awaiting approval; a reply
+// that says anything more, such as "ok, but make it 3pm", decides nothing
+const APPROVE_PATTERN = shortReplyPattern(APPROVE_WORDS);
+const REJECT_PATTERN = shortReplyPattern(REJECT_WORDS);
+
+/**
+ * Get the approval policy for an action type from its registration
+ */
+export function getApprovalPolicy(actionType: string): ApprovalPolicy {
+  return (
+    getActionDefinition(actionType)?.approvalPolicy ?? DEFAULT_APPROVAL_POLICY
+  );
+}
+
+/**
+ * Get the status a newly extracted action starts in under a policy
+ */
+export function getInitialActionStatus(policy: ApprovalPolicy): ActionStatus {
+  switch (policy) {
+    case ApprovalPolicy.AUTO:
+      return ActionStatus.PENDING;
+    case ApprovalPolicy.FORBIDDEN:
+      return ActionStatus.CANCELLED;
+    default:
+      return ActionStatus.AWAITING_APPROVAL;
+  }
+}
+
+/**
+ * Interpret a user reply as approving or rejecting awaiting actions
+ */
+export function parseApprovalReply(
+  message: string
+): "approve" | "reject" | null {
+  const text = message.trim();
+
+  if (APPROVE_PATTERN.test(text)) {
+    return "approve";
+  }
+
+  if (REJECT_PATTERN.test(text)) {
+    return "reject";
+  }
+
+  return null;
+}
+
+/**
+ * Approve or reject actions that are awaiting approval
+ *
+ * Approved actions go back to pending so the execution node runs them;
+ * rejected actions are cancelled in state and in the action queue.
+ */
+export async function applyApprovalDecision(
+  state: ConversationState,
+  actionIds: string[],
+  approved: boolean,
+  options?: NodeOptions
+): Promise<ConversationState> {
+  let updatedState = state;
+
+  for (const action of state.pending_actions) {
+    if (
+      !actionIds.includes(action.id) ||
+      action.status !== ActionStatus.AWAITING_APPROVAL
+    ) {
+      continue;
+    }
+
+    const status = approved ? ActionStatus.PENDING : ActionStatus.CANCELLED;
+
+    if (!approved) {
+      await markActionCancelled(action.id, "Rejected by user");
+    }
+
+    updatedState = updateAction(updatedState, action.id, {
+      status,
+      ...(approved ? {} : { error: "Rejected by user" }),
+    });
+    options?.onEvent?.({
+      type: "action_status",
+      actionId: action.id,
+      actionType: action.type,
+      status,
+    });
+
+    logger.info(
+      {
+        conversationId: state.conversationId,
+        actionId: action.id,
+        approved,
+      },
+      "Action approval resolved"
+    );
+  }
+
+  return updatedState;
+}
+
+/**
+ * Approval node for LangGraph
+ *
+ * This node resolves actions awaiting approval when the user's latest
+ * message is a confirmation ("yes") or a cancellation ("no").
+ */
+export async function resolveApprovalsNode(
+  state: ConversationState,
+  options?: NodeOptions
+): Promise<ConversationState> {
+  const awaitingIds = state.pending_actions
+    .filter((action) => action.status === ActionStatus.AWAITING_APPROVAL)
+    .map((action) => action.id);
+
+  if (awaitingIds.length === 0) {
+    return state;
+  }
+
+  const lastMessage = getLastHumanMessage(state);
+  const decision = lastMessage
+    ? parseApprovalReply(lastMessage.content.toString())
+    : null;
+
+  if (!decision) {
+    logger.debug(
+      { conversationId: state.conversationId, count: awaitingIds.length },
+      "Actions still awaiting approval"
+    );
+    return state;
+  }
+
+  try {
+    return await applyApprovalDecision(
+      state,
+      awaitingIds,
+      decision === "approve",
+      options
+    );
+  } catch (error) {
+    logger.error(
+      { error, conversationId: state.conversationId },
+      "Error resolving action approvals"
+    );
+    return state;
+  }
+}
@@ -0,0 +1,73 @@
+import { createTestHarness, TestHarness } from "../../testing/harness";
+import { ActionStatus, ActionType } from "../../config/constants";
+import { ConversationState } from "../../types/conversation";
+
+const lastMessage = (state: ConversationState) =>
+  state.messages[state.messages.length - 1].content.toString();
+
+describe("clarification turns", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await createTestHarness({
+      toolCallRules: [
+        {
+          pattern: /remind me/i,
+          tool: ActionType.SET_REMINDER,
+          args: { title: "Call Ada", date: "2030-01-01" },
+        },
+        {
+          pattern: /^at (\d{2}:\d{2})/i,
+          tool: ActionType.SET_REMINDER,
+          args: (match) => ({ time: match[1] }),
+        },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it("asks for missing fields and fills them from the reply", async () => {
+    const first = await harness.sendMessage("Remind me to call Ada");
+
+    expect(first.pending_actions).toEqual([]);
+    expect(first.draft_action).toEqual(
+      expect.objectContaining({
+        type: ActionType.SET_REMINDER,
+        errors: { time: expect.any(String) },
+      })
+    );
+    expect(lastMessage(first)).toContain("What time should I remind you?");
+
+    const second = await harness.sendMessage("At 09:00", first.conversationId);
+
+    expect(second.draft_action).toBeNull();
+    expect(second.pending_actions).toEqual([
+      expect.objectContaining({
+        type: ActionType.SET_REMINDER,
+        status: ActionStatus.AWAITING_APPROVAL,
+        data: expect.objectContaining({ title: "Call Ada", time: "09:00" }),
+      }),
+    ]);
+  });
+
+  it("drops the draft when the user cancels", async () => {
+    const first = await harness.sendMessage("Remind me to call Ada");
+    const second = await harness.sendMessage("cancel", first.conversationId);
+
+    expect(second.draft_action).toBeNull();
+    expect(second.pending_actions).toEqual([]);
+  });
+
+  it("drops the draft once the model can no longer call tools", async () => {
+    const first = await harness.sendMessage("Remind me to call Ada");
+    harness.modelProvider.capabilities.toolCalling = false;
+
+    const second = await harness.sendMessage("At 09:00", first.conversationId);
+
+    expect(second.draft_action).toBeNull();
+    expect(lastMessage(second)).not.toContain("What time");
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  ConversationState,
+  DraftAction,
+  NodeOptions,
+} from "../../types/conversation";
+import { getActionDefinition } from "../../tools/action-registry";
+import { addAIMessage } from "../../conversation/memory";
+import { createLogger } from "../../utils/logger";
+
+const logger = createLogger("clarification");
+
+/**
+ * Create a draft action from arguments that failed validation
+ * Returns null if the errors cannot be fixed by asking for fields
+ */
+export function createDraftAction(
+  type: string,
+  data: Record<string, any>,
+  fieldErrors: Record<string, string> | undefined,
+  previousAttempts = 0
+): DraftAction | null {
+  if (!getActionDefinition(type) || !fieldErrors) {
+    return null;
+  }
+
+  if (Object.keys(fieldErrors).length === 0) {
+    return null;
+  }
+
+  return {
+    type,
+    data,
+    errors: fieldErrors,
+    attempts: previousAttempts + 1,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Build the question asking the user for a draft action's missing fields
+ */
+export function getClarificationQuestion(draft: DraftAction): string {
+  const definition = getActionDefinition(draft.type);
+  const task = definition
+    ? definition.description.charAt(0).toLowerCase() +
+      definition.description.slice(1)
+    : draft.type.replace(/_/g, " ");
+
+  const questions = Object.entries(draft.errors).map(([field, error]) => {
+    const question =
+      definition?.clarifications?.[field] ?? `What should the ${field} be?`;
+    const value = draft.data[field];
+
+    // Explain why a value the user already gave was not accepted
+    if (value !== undefined && value !== null && value !== "") {
+      return `"${value}" doesn't work for the ${field} (${error}). ${question}`;
+    }
+
+    return question;
+  });
+
+  return `To ${task}, I need a bit more information. ${questions.join(" ")}`;
+}
+
+/**
+ * Clarification node for LangGraph
+ *
+ * Replies with a question for the fields the draft action is missing,
+ * without calling the model.
+ */
+export async function askClarificationNode(
+  state: ConversationState,
+  options?: NodeOptions
+): Promise<ConversationState> {
+  const draft = state.draft_action;
+
+  if (!draft) {
+    return state;
+  }
+
+  logger.info(
+    {
+      conversationId: state.conversationId,
+      actionType: draft.type,
+      fields: Object.keys(draft.errors),
+      attempts: draft.attempts,
+    },
+    "Asking user for missing action details"
+  );
+
+  const question = getClarificationQuestion(draft);
+  options?.onEvent?.({ type: "token", delta: question });
+
+  return addAIMessage(state, question);
+}
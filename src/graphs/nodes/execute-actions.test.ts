@@ -0,0 +1,87 @@
+import { createActionExecutor, executeActionsNode } from "./execute-actions";
+import { initialState } from "../state";
+import { createTestHarness, TestHarness } from "../../testing/harness";
+import { ActionStatus, ActionType } from "../../config/constants";
+import { ChatStreamEvent, ConversationState } from "../../types/conversation";
+
+const NOTE = {
+  id: "act_note",
+  type: ActionType.TAKE_NOTE,
+  data: { content: "Budget is due Friday", category: "work" },
+  status: ActionStatus.PENDING,
+};
+
+const REMINDER = {
+  id: "act_reminder",
+  type: ActionType.SET_REMINDER,
+  data: { title: "Budget", date: "2030-01-01", time: "09:00" },
+  status: ActionStatus.PENDING,
+  dependsOn: ["act_note"],
+};
+
+const state: ConversationState = {
+  ...initialState,
+  conversationId: "conv-1",
+  pending_actions: [NOTE, REMINDER],
+};
+
+const statusOf = (result: ConversationState, id: string) =>
+  result.pending_actions.find((action) => action.id === id)?.status;
+
+describe("action execution", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await createTestHarness();
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it("runs dependencies first and reports each status change", async () => {
+    const events: ChatStreamEvent[] = [];
+
+    const result = await executeActionsNode(state, {
+      onEvent: (event) => events.push(event),
+    });
+
+    expect(statusOf(result, "act_note")).toBe(ActionStatus.COMPLETED);
+    expect(statusOf(result, "act_reminder")).toBe(ActionStatus.COMPLETED);
+    expect(
+      events.map((event) => event.type === "action_status" && event.actionId)
+    ).toEqual(["act_note", "act_note", "act_reminder", "act_reminder"]);
+  });
+
+  it("runs only the given types with a specialized executor", async () => {
+    const runNotes = createActionExecutor([ActionType.TAKE_NOTE]);
+    const runReminders = createActionExecutor([ActionType.SET_REMINDER]);
+
+    const afterNotes = await runNotes(state);
+    expect(statusOf(afterNotes, "act_note")).toBe(ActionStatus.COMPLETED);
+    expect(statusOf(afterNotes, "act_reminder")).toBe(ActionStatus.PENDING);
+
+    // The dependency completed, so the reminder can now run
+    const afterReminders = await runReminders(afterNotes);
+    expect(statusOf(afterReminders, "act_reminder")).toBe(
+      ActionStatus.COMPLETED
+    );
+  });
+
+  it("fails actions whose dependency failed", async () => {
+    const result = await executeActionsNode({
+      ...state,
+      pending_actions: [
+        { ...NOTE, status: ActionStatus.FAILED, error: "Storage down" },
+        REMINDER,
+      ],
+    });
+
+    expect(result.pending_actions[1]).toEqual(
+      expect.objectContaining({
+        status: ActionStatus.FAILED,
+        error: expect.stringContaining("act_note"),
+      })
+    );
+  });
+});
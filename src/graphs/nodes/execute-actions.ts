@@ -1,113 +1,43 @@
-import { ConversationState } from "../../types/conversation";
-import { ActionStatus, ActionType } from "../../config/constants";
-import { updateAction } from "../state";
+import {
+  ConversationState,
+  NodeOptions,
+  PendingAction,
+} from "../../types/conversation";
+import { ActionStatus } from "../../config/constants";
+import { appendContextChunks, updateAction } from "../state";
 import {
   markActionInProgress,
   markActionCompleted,
   markActionFailed,
 } from "../../storage/action-store";
+import {
+  executeAction,
+  getActionDefinition,
+} from "../../tools/action-registry";
+import {
+  checkDependencies,
+  resolveActionReferences,
+} from "../../tools/action-dependencies";
 import { createLogger } from "../../utils/logger";
-import { TIMEOUTS } from "../../config/constants";
 
 const logger = createLogger("execute-actions");
 
 /**
- * Mock action handlers for demonstration
- * In a real application, these would connect to actual services
- */
-
-// Booking handler
-async function handleBookingAction(action: any) {
-  logger.info(
-    { actionId: action.id, data: action.data },
-    "Executing booking action"
-  );
-
-  // Simulate API call
-  await new Promise((resolve) => setTimeout(resolve, 500));
-
-  const { person, date, time, duration = 30 } = action.data;
-
-  // Mock successful booking
-  return {
-    success: true,
-    result: {
-      appointmentId: `appt_${Date.now()}`,
-      confirmed: true,
-      details: {
-        person,
-        date,
-        time,
-        duration,
-      },
-    },
-  };
-}
-
-// Note handler
-async function handleNoteAction(action: any) {
-  logger.info(
-    { actionId: action.id, data: action.data },
-    "Executing note action"
-  );
-
-  // Simulate API call
-  await new Promise((resolve) => setTimeout(resolve, 300));
-
-  const { title = "Untitled Note", content } = action.data;
-
-  // Mock successful note creation
-  return {
-    success: true,
-    result: {
-      noteId: `note_${Date.now()}`,
-      saved: true,
-      title,
-      snippet: content.substring(0, 50) + (content.length > 50 ? "..." : ""),
-    },
-  };
-}
-
-// Reminder handler
-async function handleReminderAction(action: any) {
-  logger.info(
-    { actionId: action.id, data: action.data },
-    "Executing reminder action"
-  );
-
-  // Simulate API call
-  await new Promise((resolve) => setTimeout(resolve, 400));
-
-  const { title, date, time } = action.data;
-  logger.info({ title, date, time }, "Reminder action data");
-
-  // Mock successful reminder creation
-  return {
-    success: true,
-    result: {
-      reminderId: `reminder_${Date.now()}`,
-      scheduled: true,
-      notificationTime: `${date} ${time}`,
-    },
-  };
-}
-
-// Map action types to their handlers
-const actionHandlers: Record<string, (action: any) => Promise<any>> = {
-  [ActionType.BOOK_APPOINTMENT]: handleBookingAction,
-  [ActionType.TAKE_NOTE]: handleNoteAction,
-  [ActionType.SET_REMINDER]: handleReminderAction,
-};
-
-/**
- * Action execution node for LangGraph
+ * Execute the pending actions selected by `shouldRun` and update their status
  *
- * This node executes pending actions and updates their status.
+ * Actions run in extraction order, so dependencies always run first; an
+ * action whose dependency is still awaiting approval stays pending.
+ * Context returned by an action (e.g. knowledge search hits) is added to the
+ * turn's context so the answer can use it.
  */
-export async function executeActionsNode(
-  state: ConversationState
+async function executePendingActions(
+  state: ConversationState,
+  options: NodeOptions | undefined,
+  shouldRun: (action: PendingAction) => boolean
 ): Promise<ConversationState> {
-  const { pending_actions } = state;
+  const pending_actions = state.pending_actions.filter(
+    (action) => action.status === ActionStatus.PENDING && shouldRun(action)
+  );
 
   // Skip if no pending actions
   if (!pending_actions.length) {
@@ -129,59 +59,97 @@ export async function executeActionsNode(
   // Create a copy of state to modify
   let updatedState = { ...state };
 
+  // Apply a status change to state and notify any stream listener
+  const setStatus = (
+    action: PendingAction,
+    status: ActionStatus,
+    updates: Pick<PendingAction, "result" | "error"> = {}
+  ) => {
+    updatedState = updateAction(updatedState, action.id, {
+      status,
+      ...updates,
+    });
+    options?.onEvent?.({
+      type: "action_status",
+      actionId: action.id,
+      actionType: action.type,
+      status,
+      error: updates.error ?? undefined,
+    });
+  };
+
   // Process each pending action
   for (const action of pending_actions) {
-    // Skip actions that are not pending
-    if (action.status !== ActionStatus.PENDING) {
-      continue;
-    }
-
-    const handler = actionHandlers[action.type];
-
-    if (!handler) {
+    if (!getActionDefinition(action.type)) {
       logger.warn(
         { conversationId: state.conversationId, actionType: action.type },
         "No handler for action type"
       );
 
+      const error = `No handler for action type: ${action.type}`;
+
       // Update action status in state
-      updatedState = updateAction(updatedState, action.id, {
-        status: ActionStatus.FAILED,
-      });
+      setStatus(action, ActionStatus.FAILED, { error });
 
       // Update action status in database
-      await markActionFailed(
-        action.id,
-        `No handler for action type: ${action.type}`
+      await markActionFailed(action.id, error);
+      continue;
+    }
+
+    // Dependencies are read from the updated state so results from earlier
+    // actions in this pass are visible
+    const dependencies = checkDependencies(action.dependsOn, (id) =>
+      updatedState.pending_actions.find((candidate) => candidate.id === id)
+    );
+
+    if (dependencies.status === "waiting") {
+      logger.debug(
+        { conversationId: state.conversationId, actionId: action.id },
+        "Action is waiting for its dependencies"
+      );
+      continue;
+    }
+
+    if (dependencies.status === "blocked") {
+      logger.warn(
+        {
+          conversationId: state.conversationId,
+          actionId: action.id,
+          reason: dependencies.reason,
+        },
+        "Action dependencies did not complete"
       );
+
+      setStatus(action, ActionStatus.FAILED, { error: dependencies.reason });
+      await markActionFailed(action.id, dependencies.reason);
       continue;
     }
 
     try {
       // Mark action as in progress
-      updatedState = updateAction(updatedState, action.id, {
-        status: ActionStatus.IN_PROGRESS,
-      });
+      setStatus(action, ActionStatus.IN_PROGRESS);
 
       await markActionInProgress(action.id);
 
-      // Execute action with timeout
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(
-          () => reject(new Error("Action execution timed out")),
-          TIMEOUTS.ACTION_EXECUTION_TIMEOUT_MS
-        );
+      // Execute action with its registered timeout and retry policy
+      const result = await executeAction({
+        ...action,
+        conversationId: state.conversationId,
+        tenantId: state.tenantId,
+        data: resolveActionReferences(action.data, dependencies.results),
       });
 
-      const result = await Promise.race([handler(action), timeoutPromise]);
-
       if (result.success) {
         // Mark action as completed
-        updatedState = updateAction(updatedState, action.id, {
-          status: ActionStatus.COMPLETED,
+        setStatus(action, ActionStatus.COMPLETED, {
+          result: result.result ?? {},
         });
 
-        await markActionCompleted(action.id, result.result);
+        await markActionCompleted(action.id, result.result ?? {});
+
+        if (result.context?.length) {
+          updatedState = appendContextChunks(updatedState, result.context);
+        }
 
         logger.info(
           { conversationId: state.conversationId, actionId: action.id },
@@ -189,9 +157,7 @@ export async function executeActionsNode(
         );
       } else {
         // Mark action as failed
-        updatedState = updateAction(updatedState, action.id, {
-          status: ActionStatus.FAILED,
-        });
+        setStatus(action, ActionStatus.FAILED, { error: result.error });
 
         await markActionFailed(action.id, result.error || "Unknown error");
 
@@ -212,8 +178,8 @@ export async function executeActionsNode(
       );
 
       // Update action status
-      updatedState = updateAction(updatedState, action.id, {
-        status: ActionStatus.FAILED,
+      setStatus(action, ActionStatus.FAILED, {
+        error: (error as Error).message,
       });
 
       await markActionFailed(
@@ -226,67 +192,42 @@ export async function executeActionsNode(
   return updatedState;
 }
 
+/**
+ * Action execution node for LangGraph
+ *
+ * This node executes pending actions and updates their status.
+ */
+export function executeActionsNode(
+  state: ConversationState,
+  options?: NodeOptions
+): Promise<ConversationState> {
+  return executePendingActions(state, options, () => true);
+}
+
 /**
  * Create a specialized action executor for specific action types
+ * Actions of other types are left pending.
  */
 export function createActionExecutor(actionTypes: string[]) {
-  return async (state: ConversationState): Promise<ConversationState> => {
-    const { pending_actions } = state;
-
-    // Filter actions by type
-    const relevantActions = pending_actions.filter(
-      (action) =>
-        actionTypes.includes(action.type) &&
-        action.status === ActionStatus.PENDING
+  return (
+    state: ConversationState,
+    options?: NodeOptions
+  ): Promise<ConversationState> =>
+    executePendingActions(state, options, (action) =>
+      actionTypes.includes(action.type)
     );
+}
 
-    if (relevantActions.length === 0) {
-      return state;
-    }
-
-    let updatedState = { ...state };
-
-    // Process each action
-    for (const action of relevantActions) {
-      const handler = actionHandlers[action.type];
-
-      if (!handler) {
-        continue;
-      }
-
-      try {
-        // Mark action as in progress
-        updatedState = updateAction(updatedState, action.id, {
-          status: ActionStatus.IN_PROGRESS,
-        });
-
-        await markActionInProgress(action.id);
-
-        // Execute action
-        const result = await handler(action);
-
-        if (result.success) {
-          updatedState = updateAction(updatedState, action.id, {
-            status: ActionStatus.COMPLETED,
-          });
-
-          await markActionCompleted(action.id, result.result);
-        } else {
-          updatedState = updateAction(updatedState, action.id, {
-            status: ActionStatus.FAILED,
-          });
-
-          await markActionFailed(action.id, result.error || "Unknown error");
-        }
-      } catch (error) {
-        updatedState = updateAction(updatedState, action.id, {
-          status: ActionStatus.FAILED,
-        });
-
-        await markActionFailed(action.id, (error as Error).message);
-      }
-    }
-
-    return updatedState;
-  };
+/**
+ * Execute the given pending actions only, e.g. an action just approved
+ * Other pending actions are left for the conversation's next turn.
+ */
+export function executeActionsById(
+  state: ConversationState,
+  actionIds: string[],
+  options?: NodeOptions
+): Promise<ConversationState> {
+  return executePendingActions(state, options, (action) =>
+    actionIds.includes(action.id)
+  );
 }
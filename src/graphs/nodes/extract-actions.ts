@@ -1,28 +1,106 @@
-import { ConversationState, PendingAction } from "../../types/conversation";
+import {
+  ConversationState,
+  DraftAction,
+  NodeOptions,
+  PendingAction,
+} from "../../types/conversation";
 import { createFunctionCallingModel } from "../../models/llm";
+import { getModelCapabilities } from "../../models/model-provider";
+import { validateActionData } from "../../tools/function-definitions";
+import { getToolDefinitions } from "../../tools/action-registry";
 import {
-  functionDefinitions,
-  validateActionData,
-} from "../../tools/function-definitions";
+  DEPENDS_ON_ARGUMENT,
+  getReferencedPositions,
+  linkActionReferences,
+  withDependencyParameter,
+} from "../../tools/action-dependencies";
 import { getLastHumanMessage } from "../state";
-import { HumanMessage } from "@langchain/core/messages";
-import { createAction } from "../../storage/action-store";
-import { ActionStatus } from "../../config/constants";
+import {
+  AIMessage,
+  HumanMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+import { createAction, markActionCancelled } from "../../storage/action-store";
+import { ApprovalPolicy, CONVERSATION } from "../../config/constants";
+import {
+  getApprovalPolicy,
+  getInitialActionStatus,
+  parseApprovalReply,
+} from "./approval";
+import { createDraftAction } from "./clarification";
 import { createLogger } from "../../utils/logger";
-import { v4 as uuidv4 } from "uuid";
 
 const logger = createLogger("extract-actions");
 
-// Initialize function calling model with updated function definitions
-const functionCallingModel = createFunctionCallingModel(functionDefinitions);
+/**
+ * A function call returned by the model
+ */
+interface ExtractedCall {
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Result of processing one extracted call: a stored action, a draft that
+ * needs more details from the user, or neither if the call was dropped
+ */
+interface ExtractedCallResult {
+  action?: PendingAction;
+  draft?: DraftAction;
+}
+
+/**
+ * Collect every function call from a model response
+ */
+function getExtractedCalls(response: AIMessage): ExtractedCall[] {
+  // Providers other than OpenAI only fill LangChain's standard tool calls
+  if (
+    Array.isArray(response.tool_calls) &&
+    response.tool_calls.length > 0 &&
+    !response.additional_kwargs?.tool_calls
+  ) {
+    return response.tool_calls.map((call) => ({
+      name: call.name,
+      arguments: JSON.stringify(call.args ?? {}),
+    }));
+  }
+
+  // Check if a function was called - handle different API versions
+  const toolCalls = response.additional_kwargs?.tool_calls;
+  const functionCall = response.additional_kwargs?.function_call;
+
+  // Handle newer OpenAI API which uses tool_calls
+  if (Array.isArray(toolCalls) && toolCalls.length > 0) {
+    logger.debug({ toolCalls }, "Found tool calls in response");
+
+    return toolCalls
+      .filter((tool) => tool.type === "function" && tool.function)
+      .map((tool) => ({
+        name: tool.function.name,
+        arguments: tool.function.arguments,
+      }));
+  }
+
+  // Handle older API which uses function_call
+  if (functionCall) {
+    logger.debug({ functionCall }, "Found function call in response");
+    return [{ name: functionCall.name, arguments: functionCall.arguments }];
+  }
+
+  return [];
+}
 
 /**
  * Action extraction node for LangGraph
  *
  * This node extracts actions from the user's message using function calling.
+ * Every tool call in the response becomes a pending action; calls may depend
+ * on earlier calls in the same response. A call with missing or invalid
+ * arguments becomes a draft action, and the next message is used to fill it.
  */
 export async function extractActionsNode(
-  state: ConversationState
+  state: ConversationState,
+  options?: NodeOptions
 ): Promise<ConversationState> {
   // Get the last human message
   const lastMessage = getLastHumanMessage(state);
@@ -35,46 +113,62 @@ export async function extractActionsNode(
     return state;
   }
 
+  // Without tool calling the turn is answered without actions, and a draft
+  // from before can no longer be filled
+  if (!getModelCapabilities().toolCalling) {
+    logger.debug(
+      { conversationId: state.conversationId },
+      "Model provider lacks tool calling, skipping action extraction"
+    );
+    return state.draft_action ? { ...state, draft_action: null } : state;
+  }
+
   try {
+    // Treat the message as an answer to an outstanding clarification first
+    if (state.draft_action) {
+      const filledState = await fillDraftAction(
+        state,
+        state.draft_action,
+        lastMessage.content.toString(),
+        options
+      );
+
+      if (filledState) {
+        return filledState;
+      }
+
+      // The user moved on; drop the draft and extract as usual
+      logger.info(
+        {
+          conversationId: state.conversationId,
+          actionType: state.draft_action.type,
+        },
+        "Draft action abandoned"
+      );
+      state = { ...state, draft_action: null };
+    }
+
     logger.debug(
       { conversationId: state.conversationId },
       "Extracting actions from message"
     );
 
+    // Bind the currently registered actions as tools
+    // The conversation's model, if it chose one, also extracts its actions
+    const functionCallingModel = createFunctionCallingModel(
+      withDependencyParameter(getToolDefinitions()),
+      { model: state.generationSettings?.model }
+    );
+
     // Call the model with function calling enabled
     const response = await functionCallingModel.invoke([
       new HumanMessage(lastMessage.content.toString()),
     ]);
 
-    // Check if a function was called - handle different API versions
-    const toolCalls = response.additional_kwargs?.tool_calls;
-    const functionCall = response.additional_kwargs?.function_call;
-
-    let extractedAction = null;
-
-    // Handle newer OpenAI API which uses tool_calls
-    if (Array.isArray(toolCalls) && toolCalls.length > 0) {
-      logger.debug({ toolCalls }, "Found tool calls in response");
-
-      const firstTool = toolCalls[0];
-      if (firstTool.type === "function" && firstTool.function) {
-        extractedAction = {
-          name: firstTool.function.name,
-          arguments: firstTool.function.arguments,
-        };
-      }
-    }
-    // Handle older API which uses function_call
-    else if (functionCall) {
-      logger.debug({ functionCall }, "Found function call in response");
-      extractedAction = {
-        name: functionCall.name,
-        arguments: functionCall.arguments,
-      };
-    }
+    const calls = getExtractedCalls(response);
 
     // If no action was detected, return current state
-    if (!extractedAction) {
+    if (calls.length === 0) {
       logger.debug(
         { conversationId: state.conversationId },
         "No action detected"
@@ -82,59 +176,43 @@ export async function extractActionsNode(
       return state;
     }
 
-    try {
-      // Parse the function arguments
-      const actionName = extractedAction.name;
-      const actionArgs = JSON.parse(extractedAction.arguments);
+    // Stored action ID for each call position; undefined if the call was dropped
+    const actionIds: (string | undefined)[] = [];
+    const extractedActions: PendingAction[] = [];
+    let draft: DraftAction | undefined;
 
-      logger.info(
-        { conversationId: state.conversationId, actionType: actionName },
-        "Action extracted from message"
+    for (const [position, call] of calls.entries()) {
+      const result = await processExtractedCall(
+        state,
+        call,
+        position,
+        actionIds,
+        options
       );
 
-      // Validate the action data
-      const validation = validateActionData(actionName, actionArgs);
-
-      if (!validation.valid) {
-        logger.warn(
-          { conversationId: state.conversationId, errors: validation.errors },
-          "Invalid action data"
-        );
-
-        // Return current state if validation fails
-        return state;
-      }
-
-      // Generate a local action ID
-      const actionId = `pending_${uuidv4()}`;
+      actionIds.push(result.action?.id);
+      if (result.action) extractedActions.push(result.action);
 
-      // Create pending action for state
-      const pendingAction: PendingAction = {
-        id: actionId,
-        type: actionName,
-        data: actionArgs,
-        status: ActionStatus.PENDING,
-      };
+      // Only one clarification is asked at a time
+      if (result.draft && !draft) draft = result.draft;
+    }
 
-      // Persist the action to DynamoDB
-      await createAction({
+    logger.info(
+      {
         conversationId: state.conversationId,
-        type: actionName,
-        data: actionArgs,
-      });
-
-      // Add to state
-      return {
-        ...state,
-        pending_actions: [...state.pending_actions, pendingAction],
-      };
-    } catch (parseError) {
-      logger.error(
-        { error: parseError, conversationId: state.conversationId },
-        "Error parsing function call"
-      );
-      return state;
-    }
+        callCount: calls.length,
+        actionCount: extractedActions.length,
+        needsClarification: Boolean(draft),
+      },
+      "Actions extracted from message"
+    );
+
+    // Add to state
+    return {
+      ...state,
+      pending_actions: [...state.pending_actions, ...extractedActions],
+      ...(draft ? { draft_action: draft } : {}),
+    };
   } catch (error) {
     logger.error(
       {
@@ -147,3 +225,265 @@ export async function extractActionsNode(
     return state;
   }
 }
+
+/**
+ * Validate and persist a single extracted call
+ */
+async function processExtractedCall(
+  state: ConversationState,
+  call: ExtractedCall,
+  position: number,
+  actionIds: (string | undefined)[],
+  options?: NodeOptions
+): Promise<ExtractedCallResult> {
+  try {
+    // Parse the function arguments
+    const actionName = call.name;
+    const { [DEPENDS_ON_ARGUMENT]: declaredPositions, ...rawArgs } = JSON.parse(
+      call.arguments
+    );
+
+    logger.info(
+      {
+        conversationId: state.conversationId,
+        actionType: actionName,
+        position,
+      },
+      "Action extracted from message"
+    );
+
+    // Dependencies may only point at earlier calls that were kept
+    const dependencyPositions = Array.from(
+      new Set<number>([
+        ...(Array.isArray(declaredPositions) ? declaredPositions : []),
+        ...getReferencedPositions(rawArgs),
+      ])
+    );
+
+    const unresolved = dependencyPositions.filter(
+      (dependency) => dependency >= position || !actionIds[dependency]
+    );
+
+    if (unresolved.length > 0) {
+      logger.warn(
+        {
+          conversationId: state.conversationId,
+          actionType: actionName,
+          unresolved,
+        },
+        "Action depends on calls that were not extracted"
+      );
+      return {};
+    }
+
+    // Validate the action data
+    const validation = validateActionData(actionName, rawArgs);
+
+    if (!validation.valid) {
+      logger.warn(
+        { conversationId: state.conversationId, errors: validation.errors },
+        "Invalid action data"
+      );
+
+      // Keep what we have and ask the user for the rest. Drafts are only
+      // created for independent actions, since the calls they depend on
+      // are not carried over to the next turn.
+      const draft =
+        dependencyPositions.length === 0
+          ? createDraftAction(actionName, rawArgs, validation.fieldErrors)
+          : null;
+
+      return draft ? { draft } : {};
+    }
+
+    // Use the parsed data so schema defaults are applied, pointing any
+    // result references at the stored dependency IDs
+    const actionArgs = linkActionReferences(
+      validation.data ?? rawArgs,
+      actionIds
+    );
+    const dependsOn = dependencyPositions.map(
+      (dependency) => actionIds[dependency] as string
+    );
+
+    const action = await persistExtractedAction(
+      state,
+      actionName,
+      actionArgs,
+      dependsOn,
+      options
+    );
+
+    return { action };
+  } catch (parseError) {
+    logger.error(
+      { error: parseError, conversationId: state.conversationId, position },
+      "Error parsing function call"
+    );
+    return {};
+  }
+}
+
+/**
+ * Store a validated action under its approval policy and announce it
+ */
+async function persistExtractedAction(
+  state: ConversationState,
+  actionName: string,
+  actionArgs: Record<string, any>,
+  dependsOn: string[],
+  options?: NodeOptions
+): Promise<PendingAction> {
+  // Gated actions wait for the user; forbidden ones are never run
+  const policy = getApprovalPolicy(actionName);
+  const status = getInitialActionStatus(policy);
+
+  // Persist the action to DynamoDB
+  const action = await createAction(
+    {
+      conversationId: state.conversationId,
+      ...(state.tenantId ? { tenantId: state.tenantId } : {}),
+      type: actionName,
+      data: actionArgs,
+      ...(dependsOn.length > 0 ? { dependsOn } : {}),
+    },
+    status
+  );
+
+  const forbidden = policy === ApprovalPolicy.FORBIDDEN;
+
+  if (forbidden) {
+    logger.warn(
+      { conversationId: state.conversationId, actionType: actionName },
+      "Action type is forbidden by approval policy"
+    );
+    await markActionCancelled(
+      action.id,
+      `Action type not permitted: ${actionName}`
+    );
+  }
+
+  // Create pending action for state, sharing the stored action's ID
+  const pendingAction: PendingAction = {
+    id: action.id,
+    type: actionName,
+    data: actionArgs,
+    status,
+    ...(dependsOn.length > 0 ? { dependsOn } : {}),
+    ...(forbidden ? { error: `Action type not permitted: ${actionName}` } : {}),
+  };
+
+  options?.onEvent?.({ type: "action_extracted", action: pendingAction });
+
+  return pendingAction;
+}
+
+/**
+ * Merge the user's answer into a draft action (slot filling)
+ *
+ * Returns the updated state, or null if the message is not an answer to the
+ * clarification question.
+ */
+async function fillDraftAction(
+  state: ConversationState,
+  draft: DraftAction,
+  message: string,
+  options?: NodeOptions
+): Promise<ConversationState | null> {
+  if (parseApprovalReply(message) === "reject") {
+    logger.info(
+      { conversationId: state.conversationId, actionType: draft.type },
+      "Draft action cancelled by user"
+    );
+    return { ...state, draft_action: null };
+  }
+
+  const tools = getToolDefinitions([draft.type]);
+
+  if (tools.length === 0) {
+    return null;
+  }
+
+  const missing = Object.entries(draft.errors)
+    .map(([field, error]) => `${field} (${error})`)
+    .join(", ");
+
+  // Ask for the complete arguments so the model can also correct values
+  const functionCallingModel = createFunctionCallingModel(tools, {
+    model: state.generationSettings?.model,
+  });
+  const response = await functionCallingModel.invoke([
+    new SystemMessage(
+      `The user was asked for missing details of a ${draft.type} action.\n` +
+        `Arguments so far: ${JSON.stringify(draft.data)}\n` +
+        `Still needed: ${missing}\n` +
+        `If the user's reply provides any of these details, call ${draft.type} with the arguments so far merged with the new details. ` +
+        `If the reply is about something else, do not call any tool.`
+    ),
+    new HumanMessage(message),
+  ]);
+
+  const call = getExtractedCalls(response).find(
+    (candidate) => candidate.name === draft.type
+  );
+
+  if (!call) {
+    return null;
+  }
+
+  const data = { ...draft.data, ...JSON.parse(call.arguments) };
+  const validation = validateActionData(draft.type, data);
+
+  if (!validation.valid) {
+    const updatedDraft = createDraftAction(
+      draft.type,
+      data,
+      validation.fieldErrors,
+      draft.attempts
+    );
+
+    if (
+      !updatedDraft ||
+      updatedDraft.attempts > CONVERSATION.MAX_CLARIFICATION_ATTEMPTS
+    ) {
+      logger.warn(
+        {
+          conversationId: state.conversationId,
+          actionType: draft.type,
+          errors: validation.errors,
+        },
+        "Giving up on draft action after repeated clarification"
+      );
+      return { ...state, draft_action: null };
+    }
+
+    logger.info(
+      {
+        conversationId: state.conversationId,
+        actionType: draft.type,
+        fields: Object.keys(updatedDraft.errors),
+      },
+      "Draft action still incomplete"
+    );
+    return { ...state, draft_action: updatedDraft };
+  }
+
+  logger.info(
+    { conversationId: state.conversationId, actionType: draft.type },
+    "Draft action completed from user reply"
+  );
+
+  const action = await persistExtractedAction(
+    state,
+    draft.type,
+    validation.data ?? data,
+    [],
+    options
+  );
+
+  return {
+    ...state,
+    draft_action: null,
+    pending_actions: [...state.pending_actions, action],
+  };
+}
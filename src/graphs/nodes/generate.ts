@@ -1,20 +1,163 @@
-import { ConversationState } from "../../types/conversation";
 import {
+  ConversationState,
+  NodeOptions,
+  PendingAction,
+} from "../../types/conversation";
+import { ChatPromptTemplate } from "@langchain/core/prompts";
+import { Runnable } from "@langchain/core/runnables";
+import { AIMessageChunk } from "@langchain/core/messages";
+import {
+  applyResponseStyle,
   createChatModel,
   createRagPrompt,
-  formatChatHistory,
+  getChatModelOptions,
 } from "../../models/llm";
+import { FallbackChatModel } from "../../models/model-fallback";
+import { getModelCapabilities } from "../../models/model-provider";
 import { addAIMessage } from "../../conversation/memory";
-import { getMessageHistory } from "../../conversation/memory";
-import { getAllContextAsString } from "../state";
+import {
+  getMessageHistory,
+  getUnsummarizedMessages,
+} from "../../conversation/memory";
+import {
+  assemblePrompt,
+  AssembledPrompt,
+  PromptSections,
+} from "../../conversation/prompt-assembly";
+import { resolveCitations } from "../../conversation/citations";
+import { getClarificationQuestion } from "./clarification";
 import { createLogger } from "../../utils/logger";
-import { CONVERSATION } from "../../config/constants";
+import { ActionStatus, SYSTEM_MESSAGES } from "../../config/constants";
 
 const logger = createLogger("generate");
 
-// Initialize models
-const chatModel = createChatModel();
-const ragPrompt = createRagPrompt();
+/**
+ * Run a prompt chain and return the response text, streaming token deltas
+ * to the event handler when one is provided and the provider can stream
+ */
+async function runChain(
+  chain: Runnable<Record<string, unknown>, AIMessageChunk>,
+  input: Record<string, unknown>,
+  options?: NodeOptions
+): Promise<string> {
+  if (!options?.onEvent || !getModelCapabilities().streaming) {
+    const response = await chain.invoke(input);
+    const content =
+      typeof response.content === "string" ? response.content : "";
+
+    // Without streaming the whole answer arrives as one token event
+    if (content) {
+      options?.onEvent?.({ type: "token", delta: content });
+    }
+
+    return content;
+  }
+
+  let content = "";
+  const stream = await chain.stream(input);
+
+  for await (const chunk of stream) {
+    const delta = typeof chunk.content === "string" ? chunk.content : "";
+
+    if (delta) {
+      content += delta;
+      options.onEvent({ type: "token", delta });
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Assemble the prompt inputs for the latest message within the token budget
+ * Earlier messages not covered by the running summary are history, after
+ * the summary; the budget for the conversation's settings decides how many
+ * of them fit
+ */
+function buildPromptInput(
+  state: ConversationState,
+  sections: Pick<PromptSections, "systemPrompt" | "actionSummary">
+): { prompt: AssembledPrompt; input: Record<string, unknown> } | null {
+  const messages = getUnsummarizedMessages(state);
+  const history = getMessageHistory({ ...state, messages }, messages.length);
+
+  if (!history || history.length === 0) {
+    return null;
+  }
+
+  const prompt = assemblePrompt(
+    {
+      ...sections,
+      input: history[history.length - 1].content.toString(),
+      history: history.slice(0, -1),
+      historySummary: state.summary?.content,
+      context: state.context,
+      memories: state.memories?.map((memory) => memory.content),
+    },
+    state.generationSettings
+  );
+
+  return {
+    prompt,
+    input: {
+      chat_history: prompt.chatHistory,
+      context: prompt.context || "No relevant context found.",
+      input: prompt.input,
+    },
+  };
+}
+
+/**
+ * Create the chat model and RAG prompt for a conversation's answers, with
+ * its generation settings applied to the system prompt and model
+ * Created per call, so a replaced model provider applies
+ */
+function createAnswerChain(
+  state: ConversationState,
+  systemPrompt: string = SYSTEM_MESSAGES.RAG
+): {
+  model: FallbackChatModel;
+  prompt: ChatPromptTemplate;
+  systemPrompt: string;
+} {
+  const settings = state.generationSettings;
+  const styledPrompt = applyResponseStyle(systemPrompt, settings?.style);
+
+  return {
+    model: createChatModel(getChatModelOptions(settings)),
+    prompt: createRagPrompt(styledPrompt),
+    systemPrompt: styledPrompt,
+  };
+}
+
+/**
+ * Keep the models tried for an answer with the message, if any were
+ */
+function getModelKwargs(model: FallbackChatModel): Record<string, unknown> {
+  return model.lastUsage ? { model: model.lastUsage } : {};
+}
+
+/**
+ * Add the model's answer to the conversation with its citations resolved
+ * against the context in its prompt, keeping the prompt's token breakdown
+ * and the model that served it
+ */
+function addAnswer(
+  state: ConversationState,
+  responseContent: string,
+  prompt: AssembledPrompt,
+  model: FallbackChatModel
+): ConversationState {
+  const { message, citations } = resolveCitations(
+    responseContent,
+    prompt.contextChunks
+  );
+  return addAIMessage(state, message, {
+    citations,
+    promptTokens: prompt.breakdown,
+    ...getModelKwargs(model),
+  });
+}
 
 /**
  * Response generation node for LangGraph
@@ -22,16 +165,18 @@ const ragPrompt = createRagPrompt();
  * This node generates an AI response based on the conversation context and history.
  */
 export async function generateResponseNode(
-  state: ConversationState
+  state: ConversationState,
+  options?: NodeOptions
 ): Promise<ConversationState> {
   logger.debug({ conversationId: state.conversationId }, "Generating response");
+  const { model, prompt: ragPrompt, systemPrompt } = createAnswerChain(state);
 
   try {
-    // Get history and context
-    const history = getMessageHistory(state, CONVERSATION.MAX_HISTORY_LENGTH);
+    // Fit history and context into the prompt budget
+    const promptInput = buildPromptInput(state, { systemPrompt });
 
     // If no valid history is found, return a default response
-    if (!history || history.length === 0) {
+    if (!promptInput) {
       logger.warn(
         { conversationId: state.conversationId },
         "No valid message history found"
@@ -42,15 +187,7 @@ export async function generateResponseNode(
       );
     }
 
-    const formattedHistory = formatChatHistory(history);
-    const context = getAllContextAsString(state);
-
-    // Format input for the model
-    const input = {
-      chat_history: formattedHistory,
-      context: context || "No relevant context found.",
-      input: history[history.length - 1].content,
-    };
+    const { prompt, input } = promptInput;
 
     // Generate response
     logger.debug(
@@ -58,11 +195,8 @@ export async function generateResponseNode(
       "Calling LLM for response"
     );
 
-    // Use type assertions to bypass type checking
-    const chain = ragPrompt.pipe(chatModel as any);
-    const response: any = await (chain as any).invoke(input);
-
-    const responseContent = response.content;
+    const chain = ragPrompt.pipe(model);
+    const responseContent = await runChain(chain, input, options);
 
     logger.info(
       { conversationId: state.conversationId },
@@ -70,7 +204,7 @@ export async function generateResponseNode(
     );
 
     // Add the response to the conversation
-    return addAIMessage(state, responseContent as string);
+    return addAnswer(state, responseContent, prompt, model);
   } catch (error) {
     logger.error(
       {
@@ -85,28 +219,99 @@ export async function generateResponseNode(
     // Return a fallback response in case of error
     return addAIMessage(
       state,
-      "I apologize, but I'm having trouble generating a response right now. Please try again in a moment."
+      "I apologize, but I'm having trouble generating a response right now. Please try again in a moment.",
+      getModelKwargs(model)
     );
   }
 }
 
+const ACTION_SUMMARY_HEADER =
+  "Action summary (report the outcome of each action to the user individually):";
+
+/**
+ * Describe the outcome of a single action for the model
+ */
+function describeActionOutcome(
+  action: PendingAction,
+  index: number,
+  actions: PendingAction[]
+): string {
+  const lines = [
+    `${index + 1}. ${action.type} (${action.status})`,
+    `   Request: ${JSON.stringify(action.data)}`,
+  ];
+
+  if (action.dependsOn?.length) {
+    const dependencies = action.dependsOn.map((id) => {
+      const position = actions.findIndex((candidate) => candidate.id === id);
+      return position >= 0 ? `#${position + 1}` : id;
+    });
+    lines.push(`   Depends on: ${dependencies.join(", ")}`);
+  }
+
+  switch (action.status) {
+    case ActionStatus.COMPLETED:
+      if (action.result) {
+        lines.push(`   Result: ${JSON.stringify(action.result)}`);
+      }
+      break;
+    case ActionStatus.FAILED:
+      lines.push(`   Error: ${action.error || "Unknown error"}`);
+      break;
+    case ActionStatus.CANCELLED:
+      lines.push(`   Not performed${action.error ? `: ${action.error}` : ""}`);
+      break;
+    case ActionStatus.AWAITING_APPROVAL:
+      lines.push(
+        "   Not yet performed; ask the user to confirm with yes or cancel with no"
+      );
+      break;
+    case ActionStatus.PENDING:
+      lines.push("   Not yet performed; waiting for the actions it depends on");
+      break;
+  }
+
+  return lines.join("\n");
+}
+
 /**
  * Specialized response generation node that also summarizes action results
  */
 export async function generateResponseWithActionSummaryNode(
-  state: ConversationState
+  state: ConversationState,
+  options?: NodeOptions
 ): Promise<ConversationState> {
   logger.debug(
     { conversationId: state.conversationId },
     "Generating response with action summary"
   );
+  const { model, prompt: ragPrompt, systemPrompt } = createAnswerChain(state);
 
   try {
-    // Get history and context
-    const history = getMessageHistory(state, CONVERSATION.MAX_HISTORY_LENGTH);
+    // Describe each action's outcome individually
+    let actionSummary = state.pending_actions
+      .map((action, index) =>
+        describeActionOutcome(action, index, state.pending_actions)
+      )
+      .join("\n");
+
+    // An action still missing details is not performed; ask for them
+    if (state.draft_action) {
+      actionSummary += `\nNeeds more information before ${
+        state.draft_action.type
+      } can be performed. Ask the user: ${getClarificationQuestion(
+        state.draft_action
+      )}\n`;
+    }
+
+    // Fit history, context and the action summary into the prompt budget
+    const promptInput = buildPromptInput(state, {
+      systemPrompt,
+      actionSummary: `${ACTION_SUMMARY_HEADER}\n${actionSummary}`,
+    });
 
     // If no valid history is found, return a default response
-    if (!history || history.length === 0) {
+    if (!promptInput) {
       logger.warn(
         { conversationId: state.conversationId },
         "No valid message history found"
@@ -117,44 +322,7 @@ export async function generateResponseWithActionSummaryNode(
       );
     }
 
-    const formattedHistory = formatChatHistory(history);
-    const context = getAllContextAsString(state);
-
-    // Create action summary
-    const completedActions = state.pending_actions.filter(
-      (a) => a.status === "completed"
-    );
-    const failedActions = state.pending_actions.filter(
-      (a) => a.status === "failed"
-    );
-
-    let actionSummary = "";
-
-    if (completedActions.length > 0) {
-      actionSummary += "Completed actions:\n";
-      completedActions.forEach((action) => {
-        actionSummary += `- ${action.type}: ${JSON.stringify(action.data)}\n`;
-      });
-    }
-
-    if (failedActions.length > 0) {
-      actionSummary += "\nFailed actions:\n";
-      failedActions.forEach((action) => {
-        actionSummary += `- ${action.type}: ${JSON.stringify(action.data)}\n`;
-      });
-    }
-
-    // Add the action summary to the context
-    const fullContext = context
-      ? `${context}\n\nAction summary:\n${actionSummary}`
-      : `Action summary:\n${actionSummary}`;
-
-    // Format input for the model
-    const input = {
-      chat_history: formattedHistory,
-      context: fullContext || "No relevant context found.",
-      input: history[history.length - 1].content,
-    };
+    const { prompt, input } = promptInput;
 
     // Generate response
     logger.debug(
@@ -162,12 +330,11 @@ export async function generateResponseWithActionSummaryNode(
       "Calling LLM for response"
     );
 
-    // Use type assertions to bypass type checking
-    const chain = ragPrompt.pipe(chatModel as any);
-    const response: any = await (chain as any).invoke(input);
+    const chain = ragPrompt.pipe(model);
+    const responseContent = await runChain(chain, input, options);
 
     // Add the response to the conversation
-    return addAIMessage(state, response.content as string);
+    return addAnswer(state, responseContent, prompt, model);
   } catch (error) {
     logger.error(
       {
@@ -182,7 +349,8 @@ export async function generateResponseWithActionSummaryNode(
     // Return a fallback response
     return addAIMessage(
       state,
-      "I apologize, but I'm having trouble generating a response right now. Please try again."
+      "I apologize, but I'm having trouble generating a response right now. Please try again.",
+      getModelKwargs(model)
     );
   }
 }
@@ -191,23 +359,32 @@ export async function generateResponseWithActionSummaryNode(
  * Create a specialized response generator with custom prompt
  */
 export function createCustomResponseGenerator(systemPrompt: string) {
-  return async (state: ConversationState): Promise<ConversationState> => {
+  return async (
+    state: ConversationState,
+    options?: NodeOptions
+  ): Promise<ConversationState> => {
+    // A RAG prompt with the provided system prompt
+    const {
+      model,
+      prompt: customPrompt,
+      systemPrompt: styledPrompt,
+    } = createAnswerChain(state, systemPrompt);
+
     try {
-      // Create a custom prompt with the provided system prompt
-      const customPrompt = createRagPrompt();
-
-      // Get history and context
-      const history = getMessageHistory(state);
-      const formattedHistory = formatChatHistory(history);
-      const context = getAllContextAsString(state);
-
-      // Format input for the model
-      const input = {
-        chat_history: formattedHistory,
-        context: context || "No relevant context found.",
-        input: history[history.length - 1].content,
-        system_prompt: systemPrompt,
-      };
+      // Fit history and context into the prompt budget
+      const promptInput = buildPromptInput(state, {
+        systemPrompt: styledPrompt,
+      });
+
+      if (!promptInput) {
+        return addAIMessage(
+          state,
+          "I don't see any previous messages. How can I help you today?"
+        );
+      }
+
+      const { prompt } = promptInput;
+      const input = { ...promptInput.input, system_prompt: styledPrompt };
 
       // Generate response
       logger.debug(
@@ -215,19 +392,19 @@ export function createCustomResponseGenerator(systemPrompt: string) {
         "Calling LLM for response"
       );
 
-      // Use type assertions to bypass type checking
-      const chain = customPrompt.pipe(chatModel as any);
-      const response: any = await (chain as any).invoke(input);
+      const chain = customPrompt.pipe(model);
+      const responseContent = await runChain(chain, input, options);
 
       // Add the response to the conversation
-      return addAIMessage(state, response.content as string);
+      return addAnswer(state, responseContent, prompt, model);
     } catch (error) {
       logger.error({ error }, "Error in custom response generator");
 
       // Return a fallback response
       return addAIMessage(
         state,
-        "I apologize, but I'm having trouble generating a response right now."
+        "I apologize, but I'm having trouble generating a response right now.",
+        getModelKwargs(model)
       );
     }
   };
@@ -1,18 +1,64 @@
-import { ConversationState } from "../../types/conversation";
-import { querySimilarDocuments } from "../../vectorstore/vector-store";
+import { ConversationState, NodeOptions } from "../../types/conversation";
+import {
+  retrieveContext,
+  ContextRetrievalOptions,
+} from "../../knowledge/context-retrieval";
+import {
+  rewriteQuery,
+  QueryRewritingMode,
+} from "../../conversation/query-rewriter";
+import { getTenantNamespace } from "../../vectorstore/vector-store";
 import { getLastHumanMessage } from "../state";
+import { traceManager } from "../../utils/trace-manager";
 import { createLogger } from "../../utils/logger";
-import { CONVERSATION } from "../../config/constants";
 
 const logger = createLogger("retrieval");
 
+/**
+ * Retrieve context for the latest message, rewriting it into a standalone
+ * query first when query rewriting is enabled
+ * The queries searched are recorded in the trace metadata.
+ */
+async function retrieveForMessage(
+  state: ConversationState,
+  message: string,
+  options: ContextRetrievalOptions = {},
+  rewriting?: QueryRewritingMode
+) {
+  const { query, variants } = await rewriteQuery(state, message, rewriting);
+
+  if (query !== message || variants.length) {
+    traceManager.addMetadata(state.conversationId, {
+      originalQuery: message,
+      rewrittenQuery: query,
+      ...(variants.length && { queryVariants: variants }),
+    });
+  }
+
+  // A tenant's conversations only ever search the tenant's namespace
+  const namespace = state.tenantId
+    ? getTenantNamespace(state.tenantId)
+    : options.namespace;
+
+  return retrieveContext(query, {
+    ...options,
+    namespace,
+    additionalQueries: variants,
+  });
+}
+
 /**
  * Retrieval node for LangGraph
  *
  * This node retrieves relevant context from the vector store based on the user's query.
+ * Follow-ups are rewritten into standalone queries if QUERY_REWRITING is set.
+ * Candidates are over-fetched, reranked if a reranker is configured and
+ * thresholded, so at most CONVERSATION.MAX_CONTEXT_CHUNKS relevant chunks
+ * reach the prompt.
  */
 export async function retrievalNode(
-  state: ConversationState
+  state: ConversationState,
+  options?: NodeOptions
 ): Promise<ConversationState> {
   try {
     // Get the last human message to use as query
@@ -34,10 +80,7 @@ export async function retrievalNode(
     );
 
     // Get relevant documents
-    const contextChunks = await querySimilarDocuments(
-      query,
-      CONVERSATION.DEFAULT_RETRIEVAL_LIMIT
-    );
+    const contextChunks = await retrieveForMessage(state, query);
 
     if (contextChunks.length === 0) {
       logger.debug(
@@ -45,6 +88,8 @@ export async function retrievalNode(
         "No relevant context found"
       );
 
+      options?.onEvent?.({ type: "retrieval_complete", contextCount: 0 });
+
       // Explicitly return validated state
       return {
         conversationId: state.conversationId,
@@ -54,11 +99,6 @@ export async function retrievalNode(
       };
     }
 
-    // Format retrieved context
-    const formattedContext = contextChunks.map((chunk, i) => {
-      return `[${i + 1}] ${chunk.content}`;
-    });
-
     logger.debug(
       {
         conversationId: state.conversationId,
@@ -67,12 +107,17 @@ export async function retrievalNode(
       "Retrieved context successfully"
     );
 
+    options?.onEvent?.({
+      type: "retrieval_complete",
+      contextCount: contextChunks.length,
+    });
+
     // Return updated state with context
     // Explicitly validate all required state properties
     return {
       conversationId: state.conversationId,
       messages: state.messages || [],
-      context: formattedContext,
+      context: contextChunks,
       pending_actions: state.pending_actions || [],
     };
   } catch (error) {
@@ -94,10 +139,17 @@ export async function retrievalNode(
 
 /**
  * Alternative retrieval node with metadata filtering
+ * The retrieval mode, reranker, thresholds and query rewriting can be chosen
+ * per node, e.g. hybrid for catalog lookups
  */
 export function createFilteredRetrievalNode(
-  metadataFilter?: Record<string, any>
+  metadataFilter?: Record<string, any>,
+  retrievalOptions: Omit<ContextRetrievalOptions, "filter"> & {
+    queryRewriting?: QueryRewritingMode;
+  } = {}
 ) {
+  const { queryRewriting, ...contextOptions } = retrievalOptions;
+
   return async (state: ConversationState): Promise<ConversationState> => {
     // Get the last human message to use as query
     const lastMessage = getLastHumanMessage(state);
@@ -110,21 +162,16 @@ export function createFilteredRetrievalNode(
 
     try {
       // Get relevant documents with filter
-      const contextChunks = await querySimilarDocuments(
+      const contextChunks = await retrieveForMessage(
+        state,
         query,
-        CONVERSATION.DEFAULT_RETRIEVAL_LIMIT,
-        undefined,
-        metadataFilter
+        { ...contextOptions, filter: metadataFilter },
+        queryRewriting
       );
 
-      // Format and return the context
-      const formattedContext = contextChunks.map((chunk, i) => {
-        return `[${i + 1}] ${chunk.content}`;
-      });
-
       return {
         ...state,
-        context: formattedContext,
+        context: contextChunks,
       };
     } catch (error) {
       logger.error({ error }, "Error in filtered retrieval");
@@ -0,0 +1,30 @@
+import { ConversationState } from "../../types/conversation";
+import { summarizeConversationHistory } from "../../conversation/memory";
+import { createLogger } from "../../utils/logger";
+
+const logger = createLogger("summarize");
+
+/**
+ * History summarization node for LangGraph
+ *
+ * Folds older turns into the running summary once the conversation passes
+ * the summarization thresholds, before the rest of the turn builds prompts.
+ */
+export async function summarizeHistoryNode(
+  state: ConversationState
+): Promise<ConversationState> {
+  const result = await summarizeConversationHistory(state);
+
+  if (result.summary !== state.summary) {
+    logger.info(
+      {
+        conversationId: state.conversationId,
+        summarizedCount: result.summary?.summarizedCount,
+        messageCount: state.messages.length,
+      },
+      "Updated conversation summary"
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,45 @@
+import { ConversationState } from "../../types/conversation";
+import { recallUserMemories } from "../../conversation/user-memory";
+import { getLastHumanMessage } from "../state";
+import { USER_MEMORY } from "../../config/env";
+import { createLogger } from "../../utils/logger";
+
+const logger = createLogger("user-memory-node");
+
+/**
+ * Memory recall node for LangGraph
+ *
+ * Recalls the facts remembered about the user that are relevant to the
+ * latest message, so they go into the prompt alongside the retrieved
+ * context. Conversations without a user recall nothing.
+ */
+export async function recallMemoriesNode(
+  state: ConversationState
+): Promise<ConversationState> {
+  const lastMessage = getLastHumanMessage(state);
+
+  if (USER_MEMORY !== "on" || !state.userId || !lastMessage?.content) {
+    return { ...state, memories: [] };
+  }
+
+  try {
+    const memories = await recallUserMemories(
+      state.userId,
+      lastMessage.content.toString(),
+      state.tenantId
+    );
+
+    logger.debug(
+      { conversationId: state.conversationId, count: memories.length },
+      "Recalled user memories"
+    );
+
+    return { ...state, memories };
+  } catch (error) {
+    logger.warn(
+      { error, conversationId: state.conversationId },
+      "Failed to recall user memories"
+    );
+    return { ...state, memories: [] };
+  }
+}
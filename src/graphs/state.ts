@@ -1,5 +1,14 @@
 import { BaseMessage } from "@langchain/core/messages";
-import { ConversationState, PendingAction } from "../types/conversation";
+import { Annotation, messagesStateReducer } from "@langchain/langgraph";
+import {
+  ContextChunk,
+  ConversationState,
+  DraftAction,
+  GenerationSettings,
+  HistorySummary,
+  PendingAction,
+} from "../types/conversation";
+import { RecalledMemory } from "../types/memory";
 import { v4 as uuidv4 } from "uuid";
 
 /**
@@ -10,8 +19,103 @@ export const initialState: ConversationState = {
   messages: [],
   context: [],
   pending_actions: [],
+  draft_action: null,
+  summary: null,
+  generationSettings: null,
 };
 
+/**
+ * Channel reducers for the LangGraph state
+ *
+ * Nodes return the full conversation state rather than a partial update,
+ * so list channels merge by ID instead of appending blindly.
+ */
+
+/**
+ * Merge messages by ID, appending any message not already in state
+ */
+export function mergeMessages(
+  current: BaseMessage[],
+  update: BaseMessage[]
+): BaseMessage[] {
+  return messagesStateReducer(current, update) as BaseMessage[];
+}
+
+/**
+ * Merge pending actions by ID, appending any action not already in state
+ */
+export function mergePendingActions(
+  current: PendingAction[],
+  update: PendingAction[]
+): PendingAction[] {
+  const merged = [...current];
+
+  for (const action of update) {
+    const index = merged.findIndex((existing) => existing.id === action.id);
+
+    if (index >= 0) {
+      merged[index] = { ...merged[index], ...action };
+    } else {
+      merged.push(action);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Replace the channel value with the latest update
+ */
+export function replaceValue<T>(_current: T, update: T): T {
+  return update;
+}
+
+/**
+ * LangGraph state definition derived from ConversationState
+ */
+export const ConversationStateAnnotation = Annotation.Root({
+  conversationId: Annotation<string>({
+    reducer: replaceValue,
+    default: () => "",
+  }),
+  tenantId: Annotation<string | undefined>({
+    reducer: replaceValue,
+    default: () => undefined,
+  }),
+  userId: Annotation<string | undefined>({
+    reducer: replaceValue,
+    default: () => undefined,
+  }),
+  messages: Annotation<BaseMessage[]>({
+    reducer: mergeMessages,
+    default: () => [],
+  }),
+  context: Annotation<ContextChunk[]>({
+    reducer: replaceValue,
+    default: () => [],
+  }),
+  memories: Annotation<RecalledMemory[] | undefined>({
+    reducer: replaceValue,
+    default: () => [],
+  }),
+  pending_actions: Annotation<PendingAction[]>({
+    reducer: mergePendingActions,
+    default: () => [],
+  }),
+  draft_action: Annotation<DraftAction | null | undefined>({
+    reducer: replaceValue,
+    default: () => null,
+  }),
+  summary: Annotation<HistorySummary | null | undefined>({
+    reducer: replaceValue,
+    default: () => null,
+  }),
+  generationSettings: Annotation<GenerationSettings | null | undefined>({
+    reducer: replaceValue,
+    default: () => null,
+  }),
+});
+
 /**
  * State reducer functions for conversation graph
  */
@@ -30,15 +134,41 @@ export function addMessage(
 }
 
 /**
- * Add context to the conversation state
+ * Add a context chunk to the conversation state
  */
 export function addContext(
   state: ConversationState,
-  context: string
+  chunk: ContextChunk
 ): ConversationState {
+  return appendContextChunks(state, [chunk]);
+}
+
+/**
+ * Format context chunks as numbered entries for the prompt
+ * The number is what the model cites, so it must match the chunk's position
+ */
+export function formatContextChunks(chunks: ContextChunk[]): string[] {
+  return chunks.map((chunk, i) => {
+    const title = chunk.metadata?.title;
+    return `[${i + 1}]${title ? ` (${title})` : ""} ${chunk.content}`;
+  });
+}
+
+/**
+ * Append context chunks, skipping chunks already in the context
+ */
+export function appendContextChunks(
+  state: ConversationState,
+  chunks: ContextChunk[]
+): ConversationState {
+  const known = new Set(state.context.map((chunk) => chunk.id).filter(Boolean));
+
   return {
     ...state,
-    context: [...state.context, context],
+    context: [
+      ...state.context,
+      ...chunks.filter((chunk) => !chunk.id || !known.has(chunk.id)),
+    ],
   };
 }
 
@@ -47,7 +177,7 @@ export function addContext(
  */
 export function setContext(
   state: ConversationState,
-  context: string[]
+  context: ContextChunk[]
 ): ConversationState {
   return {
     ...state,
@@ -126,5 +256,5 @@ export function getLastHumanMessage(
  * Helper function to extract all context as a string
  */
 export function getAllContextAsString(state: ConversationState): string {
-  return state.context.join("\n\n");
+  return formatContextChunks(state.context).join("\n\n");
 }
@@ -0,0 +1,81 @@
+import { createTestHarness, TestHarness } from "../testing/harness";
+import { KnowledgeDocumentInput } from "../types/knowledge";
+import { retrieveContext } from "./context-retrieval";
+import { localReranker, Reranker } from "./reranker";
+
+const DOCUMENTS: KnowledgeDocumentInput[] = [
+  {
+    sourceId: "refunds",
+    contentType: "text",
+    content: "Refunds are paid within 30 days of the return.",
+  },
+  {
+    sourceId: "returns",
+    contentType: "text",
+    content: "Returns need the original receipt.",
+  },
+  {
+    sourceId: "shipping",
+    contentType: "text",
+    content: "Orders ship within two days.",
+  },
+];
+
+describe("retrieveContext", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await createTestHarness({ documents: DOCUMENTS });
+  });
+
+  afterEach(async () => {
+    await harness.cleanup();
+  });
+
+  it("drops chunks below the minimum reranker relevance", async () => {
+    const chunks = await retrieveContext("refunds within 30 days", {
+      reranker: localReranker,
+      minScore: 0.6,
+    });
+
+    expect(chunks.map((chunk) => chunk.sourceId)).toEqual(["refunds"]);
+    expect(chunks[0].score).toBe(1);
+    expect(chunks[0].retrievalScore).toBeGreaterThan(0);
+  });
+
+  it("keeps chunks at exactly the minimum score", async () => {
+    const chunks = await retrieveContext("refunds ship", {
+      reranker: localReranker,
+      minScore: 0.5,
+    });
+
+    expect(chunks.map((chunk) => chunk.score)).toEqual([0.5, 0.5]);
+  });
+
+  it("does not threshold unreranked hybrid scores", async () => {
+    const chunks = await retrieveContext("refunds", {
+      mode: "hybrid",
+      reranker: null,
+      minScore: 0.5,
+    });
+
+    // Fused rank scores are far below any similarity threshold
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(chunks[0].score).toBeLessThan(0.5);
+  });
+
+  it("falls back to the retrieval order when reranking fails", async () => {
+    const failing: Reranker = {
+      name: "failing",
+      rerank: () => Promise.reject(new Error("Reranker unavailable")),
+    };
+
+    const chunks = await retrieveContext("refunds within 30 days", {
+      reranker: failing,
+      limit: 1,
+    });
+
+    expect(chunks.map((chunk) => chunk.sourceId)).toEqual(["refunds"]);
+    expect(chunks[0].retrievalScore).toBeUndefined();
+  });
+});
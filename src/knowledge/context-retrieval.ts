@@ -0,0 +1,120 @@
+import {
+  querySimilarDocuments,
+  QueryOptions,
+} from "../vectorstore/vector-store";
+import { getReranker, Reranker } from "./reranker";
+import { CONVERSATION, RETRIEVAL } from "../config/constants";
+import { RETRIEVAL_MIN_SCORE, RETRIEVAL_MODE } from "../config/env";
+import { ContextChunk } from "../types/conversation";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("context-retrieval");
+
+export interface ContextRetrievalOptions extends QueryOptions {
+  namespace?: string;
+  filter?: Record<string, any>;
+  additionalQueries?: string[]; // Alternative phrasings searched alongside
+  limit?: number; // Defaults to CONVERSATION.MAX_CONTEXT_CHUNKS
+  minScore?: number; // Defaults to RETRIEVAL_MIN_SCORE
+  reranker?: Reranker | null; // Defaults to the RERANKER selection
+}
+
+/**
+ * Search with several queries, keeping each chunk once at its best score
+ */
+async function searchQueries(
+  queries: string[],
+  k: number,
+  options: ContextRetrievalOptions & Required<QueryOptions>
+): Promise<ContextChunk[]> {
+  const results = await Promise.all(
+    queries.map((query) =>
+      querySimilarDocuments(query, k, options.namespace, options.filter, {
+        mode: options.mode,
+      })
+    )
+  );
+
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const chunks = new Map<string, ContextChunk>();
+
+  for (const chunk of results.flat()) {
+    const key = chunk.id ?? chunk.content;
+    const existing = chunks.get(key);
+
+    if (!existing || (chunk.score ?? 0) > (existing.score ?? 0)) {
+      chunks.set(key, chunk);
+    }
+  }
+
+  return [...chunks.values()].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
+
+/**
+ * Retrieve the context chunks for a query
+ *
+ * Over-fetches candidates for the query and any additional queries,
+ * optionally reranks them against the query, drops those scoring below the
+ * minimum score and trims the rest to the limit. The minimum
+ * applies to reranker relevance when reranking and to vector similarity
+ * otherwise; fused hybrid scores are rank-based, so unreranked hybrid
+ * results are not thresholded.
+ */
+export async function retrieveContext(
+  query: string,
+  options: ContextRetrievalOptions = {}
+): Promise<ContextChunk[]> {
+  const {
+    additionalQueries = [],
+    mode = RETRIEVAL_MODE,
+    limit = CONVERSATION.MAX_CONTEXT_CHUNKS,
+    minScore = RETRIEVAL_MIN_SCORE,
+  } = options;
+  const reranker =
+    options.reranker !== undefined ? options.reranker : getReranker();
+
+  const candidates = await searchQueries(
+    [query, ...additionalQueries],
+    limit * RETRIEVAL.OVERFETCH_MULTIPLIER,
+    { ...options, mode }
+  );
+
+  let chunks = candidates;
+  let reranked = false;
+
+  if (reranker && candidates.length) {
+    try {
+      chunks = await reranker.rerank(query, candidates);
+      reranked = true;
+    } catch (error) {
+      // Fall back to the retrieval order rather than losing the context
+      logger.warn(
+        { error, reranker: reranker.name },
+        "Reranking failed, using retrieval order"
+      );
+    }
+  }
+
+  if (minScore !== undefined && (reranked || mode === "vector")) {
+    chunks = chunks.filter((chunk) => (chunk.score ?? 0) >= minScore);
+  }
+
+  const context = chunks.slice(0, limit);
+
+  logger.debug(
+    {
+      mode,
+      queries: 1 + additionalQueries.length,
+      reranker: reranked ? reranker!.name : undefined,
+      candidates: candidates.length,
+      belowMinScore: candidates.length - chunks.length,
+      count: context.length,
+    },
+    "Retrieved context"
+  );
+
+  return context;
+}
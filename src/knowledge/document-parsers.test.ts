@@ -0,0 +1,23 @@
+import { parseDocumentContent } from "./document-parsers";
+
+describe("parseDocumentContent", () => {
+  it("converts HTML to Markdown-flavoured text", () => {
+    const parsed = parseDocumentContent(
+      "<html><head><title>Refunds &amp; returns</title></head>" +
+        "<body><h2>Refunds</h2><p>Within 30&nbsp;days &#8212; see &#x2192;</p></body></html>",
+      "html"
+    );
+
+    expect(parsed.title).toBe("Refunds & returns");
+    expect(parsed.text).toBe("## Refunds\n\nWithin 30 days — see →");
+  });
+
+  it("keeps numeric entities that are not valid code points", () => {
+    const parsed = parseDocumentContent(
+      "<p>Broken &#99999999; &#xD800; &#x110000; entities</p>",
+      "html"
+    );
+
+    expect(parsed.text).toBe("Broken &#99999999; &#xD800; &#x110000; entities");
+  });
+});
@@ -0,0 +1,169 @@
+import { DocumentContentType } from "../types/knowledge";
+import { ErrorFactory } from "../utils/error-handler";
+
+/**
+ * A document converted to plain text (or Markdown) ready for chunking
+ */
+export interface ParsedDocument {
+  text: string;
+  title?: string;
+  markdown: boolean; // Split on Markdown structure when true
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Check whether a number is a Unicode scalar value, i.e. a code point that
+ * is not a surrogate
+ */
+function isScalarValue(value: number): boolean {
+  return value >= 0 && value <= 0x10ffff && (value < 0xd800 || value > 0xdfff);
+}
+
+/**
+ * Decode named and numeric HTML entities
+ * Numeric entities that are not valid code points are kept as written.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith("#")) {
+      const value =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return isScalarValue(value) ? String.fromCodePoint(value) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Convert HTML to Markdown-flavoured text
+ *
+ * Scripts, styles and comments are dropped, headings become Markdown
+ * headings and block elements become line breaks so the Markdown splitter
+ * can keep sections together.
+ */
+function parseHtml(html: string): ParsedDocument {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|head|noscript)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(
+      /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level: string, heading: string) =>
+        `\n\n${"#".repeat(Number(level))} ${heading.trim()}\n\n`
+    )
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(
+      /<\/(p|div|section|article|tr|ul|ol|table|blockquote|pre)>/gi,
+      "\n\n"
+    )
+    .replace(/<[^>]+>/g, "")
+    .split("\n")
+    .map((line) =>
+      decodeEntities(line)
+        .replace(/[ \t]+/g, " ")
+        .trim()
+    )
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return {
+    text,
+    title: titleMatch ? decodeEntities(titleMatch[1]).trim() : undefined,
+    markdown: true,
+  };
+}
+
+/**
+ * Flatten a JSON value into `path: value` lines
+ * Array items are separated by blank lines so records stay in one chunk
+ */
+function flattenJson(value: unknown, path = ""): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => {
+      const lines = flattenJson(item, path ? `${path}[${i}]` : `[${i}]`);
+      return i < value.length - 1 ? [...lines, ""] : lines;
+    });
+  }
+
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, child]) =>
+      flattenJson(child, path ? `${path}.${key}` : key)
+    );
+  }
+
+  return [path ? `${path}: ${String(value)}` : String(value)];
+}
+
+/**
+ * Convert JSON content (a value or a JSON string) to text
+ */
+function parseJson(content: unknown): ParsedDocument {
+  let value = content;
+
+  if (typeof content === "string") {
+    try {
+      value = JSON.parse(content);
+    } catch (error) {
+      throw ErrorFactory.badRequest(
+        `Invalid JSON content: ${(error as Error).message}`
+      );
+    }
+  }
+
+  const title =
+    value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>).title
+      : undefined;
+
+  return {
+    text: flattenJson(value).join("\n").trim(),
+    title: typeof title === "string" ? title : undefined,
+    markdown: false,
+  };
+}
+
+/**
+ * Convert submitted content to text according to its content type
+ */
+export function parseDocumentContent(
+  content: unknown,
+  contentType: DocumentContentType
+): ParsedDocument {
+  if (contentType === "json") {
+    return parseJson(content);
+  }
+
+  if (typeof content !== "string") {
+    throw ErrorFactory.badRequest(
+      `Content of a ${contentType} document must be a string`
+    );
+  }
+
+  switch (contentType) {
+    case "html":
+      return parseHtml(content);
+    case "markdown": {
+      const heading = content.match(/^#\s+(.+)$/m);
+      return {
+        text: content.trim(),
+        title: heading ? heading[1].trim() : undefined,
+        markdown: true,
+      };
+    }
+    default:
+      return { text: content.trim(), markdown: false };
+  }
+}
@@ -0,0 +1,236 @@
+import { createHash } from "crypto";
+import { Document } from "@langchain/core/documents";
+import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import { KNOWLEDGE } from "../config/constants";
+import {
+  addDocuments,
+  deleteDocuments,
+  listDocumentIds,
+} from "../vectorstore/vector-store";
+import { parseDocumentContent } from "./document-parsers";
+import {
+  BatchIngestionResult,
+  ChunkingOptions,
+  IngestionProgressHandler,
+  IngestionResult,
+  KnowledgeDocumentInput,
+} from "../types/knowledge";
+import { ErrorFactory } from "../utils/error-handler";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("ingestion");
+
+export interface IngestionOptions extends Partial<ChunkingOptions> {
+  namespace?: string;
+  onProgress?: IngestionProgressHandler;
+}
+
+/**
+ * Get the source ID of a document
+ *
+ * Without an explicit ID it is derived from the source, then the title, so
+ * re-uploading the same source replaces its chunks. Documents with neither
+ * are identified by their content.
+ */
+export function getSourceId(input: KnowledgeDocumentInput): string {
+  if (input.sourceId) {
+    return input.sourceId;
+  }
+
+  const basis =
+    input.source ?? input.title ?? JSON.stringify(input.content ?? "");
+  return `doc_${createHash("sha256").update(basis).digest("hex").slice(0, 16)}`;
+}
+
+/**
+ * Prefix shared by all chunk ids of a source
+ */
+export function getChunkIdPrefix(sourceId: string): string {
+  return `${sourceId}${KNOWLEDGE.CHUNK_ID_SEPARATOR}`;
+}
+
+/**
+ * Stable id of a chunk, so re-indexing a source overwrites its vectors
+ */
+export function getChunkId(sourceId: string, chunkIndex: number): string {
+  return `${getChunkIdPrefix(sourceId)}${chunkIndex}`;
+}
+
+/**
+ * Split a vector id into its source ID and chunk index
+ * Ids not created by ingestion are treated as single-chunk sources
+ */
+export function parseChunkId(id: string): {
+  sourceId: string;
+  chunkIndex: number;
+} {
+  const separator = id.lastIndexOf(KNOWLEDGE.CHUNK_ID_SEPARATOR);
+  const chunkIndex = Number(id.slice(separator + 1));
+
+  if (separator === -1 || !Number.isInteger(chunkIndex)) {
+    return { sourceId: id, chunkIndex: 0 };
+  }
+
+  return { sourceId: id.slice(0, separator), chunkIndex };
+}
+
+/**
+ * Parse and split a document into chunks with their metadata
+ */
+export async function chunkDocument(
+  input: KnowledgeDocumentInput,
+  options: ChunkingOptions
+): Promise<{ sourceId: string; title: string; chunks: Document[] }> {
+  const sourceId = getSourceId(input);
+  const parsed = parseDocumentContent(input.content, input.contentType);
+
+  if (!parsed.text) {
+    throw ErrorFactory.badRequest("Document has no text content");
+  }
+
+  const splitter = parsed.markdown
+    ? RecursiveCharacterTextSplitter.fromLanguage("markdown", options)
+    : new RecursiveCharacterTextSplitter(options);
+  const texts = await splitter.splitText(parsed.text);
+
+  const title = input.title ?? parsed.title ?? input.source ?? sourceId;
+  const ingestedAt = new Date().toISOString();
+
+  // Filterable fields are set after custom metadata so they cannot be
+  // overridden; optional ones are omitted because vector stores reject nulls
+  const chunks = texts.map(
+    (text, chunkIndex) =>
+      new Document({
+        pageContent: text,
+        metadata: {
+          ...input.metadata,
+          sourceId,
+          source: input.source ?? sourceId,
+          title,
+          contentType: input.contentType,
+          chunkIndex,
+          chunkCount: texts.length,
+          ingestedAt,
+          ...(input.category && { category: input.category }),
+          ...(input.author && { author: input.author }),
+          ...(input.date && {
+            date: input.date,
+            publishedAt: Date.parse(`${input.date}T00:00:00Z`),
+          }),
+        },
+      })
+  );
+
+  return { sourceId, title, chunks };
+}
+
+/**
+ * Ingest a document into the knowledge base
+ *
+ * Chunks are upserted under stable ids in batches, then any chunks left from
+ * a previous, longer version of the same source are deleted.
+ */
+export async function ingestDocument(
+  input: KnowledgeDocumentInput,
+  options: IngestionOptions = {}
+): Promise<IngestionResult> {
+  const { namespace, onProgress } = options;
+  const chunking: ChunkingOptions = {
+    chunkSize: options.chunkSize ?? KNOWLEDGE.DEFAULT_CHUNK_SIZE,
+    chunkOverlap: options.chunkOverlap ?? KNOWLEDGE.DEFAULT_CHUNK_OVERLAP,
+  };
+
+  const { sourceId, title, chunks } = await chunkDocument(input, chunking);
+
+  logger.info(
+    { sourceId, chunkCount: chunks.length, namespace },
+    "Ingesting document"
+  );
+
+  try {
+    const previousIds = await listDocumentIds(
+      getChunkIdPrefix(sourceId),
+      namespace
+    );
+
+    for (let i = 0; i < chunks.length; i += KNOWLEDGE.INDEXING_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + KNOWLEDGE.INDEXING_BATCH_SIZE);
+      await addDocuments(
+        batch,
+        namespace,
+        batch.map((_, j) => getChunkId(sourceId, i + j))
+      );
+
+      onProgress?.({
+        type: "chunks_indexed",
+        sourceId,
+        indexed: i + batch.length,
+        total: chunks.length,
+      });
+    }
+
+    const staleIds = previousIds.filter(
+      (id) => parseChunkId(id).chunkIndex >= chunks.length
+    );
+    await deleteDocuments(staleIds, namespace);
+
+    const result: IngestionResult = {
+      sourceId,
+      title,
+      chunkCount: chunks.length,
+      removedChunks: staleIds.length,
+    };
+
+    logger.info({ ...result, namespace }, "Document ingested");
+    onProgress?.({ type: "document_completed", result });
+
+    return result;
+  } catch (error) {
+    logger.error({ error, sourceId, namespace }, "Failed to ingest document");
+    throw new Error(
+      `Failed to ingest document ${sourceId}: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Ingest several documents one after another
+ * A failing document is reported and does not stop the rest of the batch
+ */
+export async function ingestDocuments(
+  inputs: KnowledgeDocumentInput[],
+  options: IngestionOptions = {}
+): Promise<BatchIngestionResult> {
+  const result: BatchIngestionResult = {
+    documents: [],
+    failed: [],
+    chunkCount: 0,
+  };
+
+  for (const [index, input] of inputs.entries()) {
+    const sourceId = getSourceId(input);
+
+    options.onProgress?.({
+      type: "document_started",
+      sourceId,
+      index,
+      total: inputs.length,
+    });
+
+    try {
+      const documentResult = await ingestDocument(input, options);
+      result.documents.push(documentResult);
+      result.chunkCount += documentResult.chunkCount;
+    } catch (error) {
+      const message = (error as Error).message;
+      result.failed.push({ sourceId, error: message });
+      options.onProgress?.({
+        type: "document_failed",
+        sourceId,
+        error: message,
+      });
+    }
+  }
+
+  return result;
+}
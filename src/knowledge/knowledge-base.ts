@@ -0,0 +1,204 @@
+import {
+  deleteDocuments,
+  getDocumentsByIds,
+  getVectorStoreStats,
+  listDocumentIds,
+} from "../vectorstore/vector-store";
+import { getVectorStoreProvider } from "../vectorstore/vector-store-provider";
+import { decodeCursor, encodeCursor } from "../storage/storage-adapter";
+import { parseChunkId } from "./ingestion";
+import {
+  KnowledgeBaseStats,
+  KnowledgeChunk,
+  KnowledgeSource,
+  KnowledgeSourceSummary,
+} from "../types/knowledge";
+import { ErrorFactory } from "../utils/error-handler";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("knowledge-base");
+
+/**
+ * Group vector ids by source, with each source's ids in chunk order
+ */
+function groupIdsBySource(ids: string[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+
+  for (const id of ids) {
+    const { sourceId } = parseChunkId(id);
+    const group = groups.get(sourceId);
+
+    if (group) {
+      group.push(id);
+    } else {
+      groups.set(sourceId, [id]);
+    }
+  }
+
+  for (const group of groups.values()) {
+    group.sort(
+      (a, b) => parseChunkId(a).chunkIndex - parseChunkId(b).chunkIndex
+    );
+  }
+
+  return groups;
+}
+
+/**
+ * Build a source summary from one of its chunks' metadata
+ */
+function summarizeSource(
+  sourceId: string,
+  chunkCount: number,
+  metadata: Record<string, any> = {}
+): KnowledgeSourceSummary {
+  return {
+    sourceId,
+    chunkCount,
+    title: metadata.title,
+    source: metadata.source,
+    category: metadata.category,
+    author: metadata.author,
+    date: metadata.date,
+    contentType: metadata.contentType,
+    ingestedAt: metadata.ingestedAt,
+  };
+}
+
+/**
+ * Get the vector ids of a source's chunks, in chunk order
+ */
+async function getSourceChunkIds(
+  sourceId: string,
+  namespace?: string
+): Promise<string[]> {
+  // The prefix also matches sources whose IDs merely start with this one
+  const ids = await listDocumentIds(sourceId, namespace);
+  return groupIdsBySource(ids).get(sourceId) ?? [];
+}
+
+/**
+ * List the sources in a namespace, ordered by source ID
+ *
+ * Every vector id in the namespace is listed to count chunks, so this is
+ * meant for curating the knowledge base rather than for hot paths.
+ */
+export async function listSources(
+  namespace?: string,
+  limit = 20,
+  cursor?: string
+): Promise<{ sources: KnowledgeSourceSummary[]; nextCursor?: string }> {
+  let after: string | undefined;
+
+  if (cursor) {
+    const key = decodeCursor(cursor);
+
+    if (!key || typeof key.sourceId !== "string") {
+      throw ErrorFactory.badRequest("Invalid cursor");
+    }
+    after = key.sourceId;
+  }
+
+  const groups = groupIdsBySource(await listDocumentIds("", namespace));
+  const sourceIds = [...groups.keys()]
+    .sort()
+    .filter((sourceId) => after === undefined || sourceId > after);
+  const page = sourceIds.slice(0, limit);
+
+  // Summaries come from each source's first chunk
+  const firstChunks = await getDocumentsByIds(
+    page.map((sourceId) => groups.get(sourceId)![0]),
+    namespace
+  );
+  const metadataById = new Map(
+    firstChunks.map((doc) => [doc.id, doc.metadata])
+  );
+
+  const sources = page.map((sourceId) => {
+    const ids = groups.get(sourceId)!;
+    return summarizeSource(sourceId, ids.length, metadataById.get(ids[0]));
+  });
+
+  logger.debug(
+    { namespace, count: sources.length, total: sourceIds.length },
+    "Listed knowledge sources"
+  );
+
+  return {
+    sources,
+    nextCursor:
+      sourceIds.length > limit
+        ? encodeCursor({ sourceId: page[page.length - 1] })
+        : undefined,
+  };
+}
+
+/**
+ * Get a source with all of its chunks
+ * Returns null if the source has no chunks in the namespace
+ */
+export async function getSource(
+  sourceId: string,
+  namespace?: string
+): Promise<KnowledgeSource | null> {
+  const ids = await getSourceChunkIds(sourceId, namespace);
+
+  if (!ids.length) {
+    return null;
+  }
+
+  const documents = await getDocumentsByIds(ids, namespace);
+  const chunks: KnowledgeChunk[] = documents
+    .map((doc) => ({
+      id: doc.id!,
+      chunkIndex: parseChunkId(doc.id!).chunkIndex,
+      content: doc.pageContent,
+      metadata: doc.metadata,
+    }))
+    .sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+  return {
+    ...summarizeSource(sourceId, chunks.length, chunks[0]?.metadata),
+    chunks,
+  };
+}
+
+/**
+ * Delete all chunks of a source
+ * Returns the number of chunks deleted
+ */
+export async function deleteSource(
+  sourceId: string,
+  namespace?: string
+): Promise<number> {
+  const ids = await getSourceChunkIds(sourceId, namespace);
+
+  await deleteDocuments(ids, namespace);
+
+  logger.info(
+    { sourceId, namespace, count: ids.length },
+    "Deleted knowledge source"
+  );
+
+  return ids.length;
+}
+
+/**
+ * Get vector and source counts for a namespace
+ */
+export async function getKnowledgeBaseStats(
+  namespace?: string
+): Promise<KnowledgeBaseStats> {
+  const [stats, ids] = await Promise.all([
+    getVectorStoreStats(namespace),
+    listDocumentIds("", namespace),
+  ]);
+
+  return {
+    namespace: namespace ?? "default",
+    provider: getVectorStoreProvider().name,
+    vectorCount: stats.vectorCount,
+    sourceCount: groupIdsBySource(ids).size,
+    dimension: stats.dimension,
+  };
+}
@@ -0,0 +1,142 @@
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { createChatModel } from "../models/llm";
+import { tokenize } from "../vectorstore/keyword-index";
+import { RERANKER } from "../config/env";
+import { SYSTEM_MESSAGES } from "../config/constants";
+import { ContextChunk } from "../types/conversation";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("reranker");
+
+/**
+ * Reorders retrieved chunks by their relevance to the query
+ *
+ * Rerankers replace each chunk's score with a relevance score between 0 and
+ * 1, keeping the retrieval score in `retrievalScore`, and return the chunks
+ * most relevant first.
+ */
+export interface Reranker {
+  name: string;
+  rerank(query: string, chunks: ContextChunk[]): Promise<ContextChunk[]>;
+}
+
+/**
+ * Replace chunk scores with relevance scores and sort by them
+ * Ties keep their retrieval order
+ */
+function applyRelevanceScores(
+  chunks: ContextChunk[],
+  scores: number[]
+): ContextChunk[] {
+  return chunks
+    .map((chunk, i) => ({
+      ...chunk,
+      retrievalScore: chunk.score,
+      score: scores[i],
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Parse the relevance scores returned by the LLM reranker
+ */
+function parseLlmScores(content: string, count: number): number[] {
+  const json = content.match(/\{[\s\S]*\}/);
+  const scores = json ? JSON.parse(json[0]).scores : undefined;
+
+  if (
+    !Array.isArray(scores) ||
+    scores.length !== count ||
+    !scores.every((score) => typeof score === "number")
+  ) {
+    throw new Error(`Expected ${count} numeric scores`);
+  }
+
+  return scores.map((score: number) => Math.min(Math.max(score, 0), 10) / 10);
+}
+
+/**
+ * Reranker that asks the chat model to grade every chunk in one call
+ */
+export const llmReranker: Reranker = {
+  name: "llm",
+
+  async rerank(query, chunks) {
+    if (!chunks.length) {
+      return chunks;
+    }
+
+    const passages = chunks
+      .map((chunk, i) => `[${i + 1}] ${chunk.content}`)
+      .join("\n\n");
+
+    const response = await createChatModel({ jsonMode: true }).invoke([
+      new SystemMessage(SYSTEM_MESSAGES.RERANK),
+      new HumanMessage(`Query: ${query}\n\nPassages:\n${passages}`),
+    ]);
+
+    return applyRelevanceScores(
+      chunks,
+      parseLlmScores(response.content.toString(), chunks.length)
+    );
+  },
+};
+
+/**
+ * Local stand-in for a cross-encoder
+ *
+ * Scores each chunk by the share of the query's terms it contains, which is
+ * cheap, deterministic and needs no model, so it suits development and tests.
+ */
+export const localReranker: Reranker = {
+  name: "local",
+
+  async rerank(query, chunks) {
+    const queryTerms = new Set(tokenize(query));
+
+    if (!queryTerms.size) {
+      return chunks;
+    }
+
+    const scores = chunks.map((chunk) => {
+      const chunkTerms = new Set(tokenize(chunk.content));
+      const matched = [...queryTerms].filter((term) => chunkTerms.has(term));
+      return matched.length / queryTerms.size;
+    });
+
+    return applyRelevanceScores(chunks, scores);
+  },
+};
+
+// Reranker singleton; undefined until selected, null when disabled
+let reranker: Reranker | null | undefined;
+
+/**
+ * Get the reranker selected by RERANKER, or null if reranking is disabled
+ */
+export function getReranker(): Reranker | null {
+  if (reranker !== undefined) {
+    return reranker;
+  }
+
+  switch (RERANKER) {
+    case "llm":
+      reranker = llmReranker;
+      break;
+    case "local":
+      reranker = localReranker;
+      break;
+    default:
+      reranker = null;
+  }
+
+  logger.info({ reranker: reranker?.name ?? "none" }, "Reranker selected");
+  return reranker;
+}
+
+/**
+ * Replace the reranker, e.g. with a custom cross-encoder, or disable it
+ */
+export function setReranker(customReranker: Reranker | null): void {
+  reranker = customReranker;
+}
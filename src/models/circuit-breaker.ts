@@ -0,0 +1,129 @@
+import { CIRCUIT_BREAKER } from "../config/constants";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("circuit-breaker");
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Circuit breaker for calls to one model
+ *
+ * Closed, calls go through and consecutive failures are counted. After
+ * `failureThreshold` of them the circuit opens and calls are refused. Once
+ * `resetTimeoutMs` has passed it is half open: one probe call goes through,
+ * closing the circuit if it succeeds and reopening it if it fails.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(
+    readonly name: string,
+    private failureThreshold = CIRCUIT_BREAKER.FAILURE_THRESHOLD,
+    private resetTimeoutMs = CIRCUIT_BREAKER.RESET_TIMEOUT_MS
+  ) {}
+
+  /**
+   * Get the state, half open once an open circuit's timeout has passed
+   */
+  getState(): CircuitState {
+    if (
+      this.state === "open" &&
+      Date.now() - this.openedAt >= this.resetTimeoutMs
+    ) {
+      this.state = "half_open";
+      this.probing = false;
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Check whether a call may go through, claiming the probe when half open
+   */
+  tryAcquire(): boolean {
+    switch (this.getState()) {
+      case "closed":
+        return true;
+      case "open":
+        return false;
+      case "half_open":
+        if (this.probing) {
+          return false;
+        }
+        this.probing = true;
+        logger.info({ circuit: this.name }, "Circuit half open, probing");
+        return true;
+    }
+  }
+
+  /**
+   * Give up a call that ended without an outcome, freeing the probe it may
+   * have claimed for the next call
+   */
+  release(): void {
+    this.probing = false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== "closed") {
+      logger.info({ circuit: this.name }, "Circuit closed");
+    }
+
+    this.state = "closed";
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+
+    if (
+      this.state === "half_open" ||
+      (this.state === "closed" && this.failures >= this.failureThreshold)
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+      this.probing = false;
+      logger.warn(
+        { circuit: this.name, failures: this.failures },
+        "Circuit opened"
+      );
+    }
+  }
+}
+
+// Circuit breakers by name, shared by all requests
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the circuit breaker with a name, creating it on first use
+ */
+export function getCircuitBreaker(name: string): CircuitBreaker {
+  let breaker = breakers.get(name);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(name);
+    breakers.set(name, breaker);
+  }
+
+  return breaker;
+}
+
+/**
+ * Get the state of every circuit breaker, e.g. for monitoring
+ */
+export function getCircuitStates(): Record<string, CircuitState> {
+  return Object.fromEntries(
+    [...breakers].map(([name, breaker]) => [name, breaker.getState()])
+  );
+}
+
+/**
+ * Forget all circuit breakers, closing every circuit
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
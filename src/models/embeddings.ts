@@ -1,24 +1,25 @@
-import { OpenAIEmbeddings } from "@langchain/openai";
-import { EMBEDDING_MODEL, OPENAI_API_KEY } from "../config/env";
-import { TIMEOUTS } from "../config/constants";
+import { Embeddings } from "@langchain/core/embeddings";
+import { EMBEDDING_MODEL, EMBEDDING_PROVIDER } from "../config/env";
+import { getEmbeddingProvider } from "./model-provider";
 import { createLogger } from "../utils/logger";
 
 const logger = createLogger("embeddings");
 
 /**
- * Create OpenAI embeddings model with production settings
+ * Create the embeddings model of the EMBEDDING_PROVIDER provider
  */
-export function createEmbeddings() {
-  logger.debug(`Creating embeddings model: ${EMBEDDING_MODEL}`);
-
-  return new OpenAIEmbeddings({
-    openAIApiKey: OPENAI_API_KEY,
-    modelName: EMBEDDING_MODEL,
-    batchSize: 512, // Process 512 texts at a time for efficiency
-    stripNewLines: true, // Remove newlines for better embedding quality
-    maxRetries: TIMEOUTS.RETRY_ATTEMPTS,
-    timeout: TIMEOUTS.VECTOR_SEARCH_TIMEOUT_MS,
-  });
+export function createEmbeddings(): Embeddings {
+  logger.debug(
+    `Creating embeddings model: ${EMBEDDING_PROVIDER}/${EMBEDDING_MODEL}`
+  );
+
+  const provider = getEmbeddingProvider();
+
+  if (!provider.createEmbeddings) {
+    throw new Error(`${provider.name} does not provide embeddings`);
+  }
+
+  return provider.createEmbeddings();
 }
 
 /**
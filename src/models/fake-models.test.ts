@@ -0,0 +1,91 @@
+import { HumanMessage } from "@langchain/core/messages";
+import { FakeChatModel, FakeEmbeddings } from "./fake-models";
+import { cosineSimilarity } from "../vectorstore/local-vector-store";
+
+const NOTE_TOOL = {
+  type: "function",
+  function: { name: "take_note", parameters: { type: "object" } },
+};
+
+describe("FakeChatModel", () => {
+  it("replies with scripted responses in order, then the default", async () => {
+    const model = new FakeChatModel({
+      responses: ["first", (messages) => `${messages.length} message`],
+      defaultResponse: "default",
+    });
+
+    const replies = [];
+    for (let i = 0; i < 3; i++) {
+      replies.push((await model.invoke([new HumanMessage("hi")])).content);
+    }
+
+    expect(replies).toEqual(["first", "1 message", "default"]);
+    expect(model.calls).toHaveLength(3);
+  });
+
+  it("calls bound tools whose rules match", async () => {
+    const model = new FakeChatModel({
+      toolCallRules: [
+        {
+          pattern: /remember (.+)/,
+          tool: "take_note",
+          args: (match) => ({ content: match[1] }),
+        },
+        { pattern: /remember/, tool: "create_reminder", args: {} },
+      ],
+    });
+
+    const response = await model
+      .bindTools([NOTE_TOOL])
+      .invoke([new HumanMessage("remember the milk")]);
+
+    expect(response.tool_calls).toEqual([
+      expect.objectContaining({
+        name: "take_note",
+        args: { content: "the milk" },
+      }),
+    ]);
+    expect(response.additional_kwargs.tool_calls?.[0].function).toEqual({
+      name: "take_note",
+      arguments: JSON.stringify({ content: "the milk" }),
+    });
+  });
+
+  it("ignores tool-call rules when no tools are bound", async () => {
+    const model = new FakeChatModel({
+      toolCallRules: [{ pattern: /remember/, tool: "take_note", args: {} }],
+    });
+
+    const response = await model.invoke([new HumanMessage("remember this")]);
+
+    expect(response.tool_calls).toEqual([]);
+    expect(response.content).toBe("Fake response to: remember this");
+  });
+});
+
+describe("FakeEmbeddings", () => {
+  const embeddings = new FakeEmbeddings();
+
+  it("embeds the same text identically", async () => {
+    const [a, b] = await embeddings.embedDocuments([
+      "Refunds within 30 days",
+      "Refunds within 30 days",
+    ]);
+
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1);
+  });
+
+  it("ranks texts sharing terms as more similar", async () => {
+    const query = await embeddings.embedQuery("refund policy");
+    const [related, unrelated] = await embeddings.embedDocuments([
+      "Our refund policy allows returns",
+      "The office opens at nine",
+    ]);
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(
+      cosineSimilarity(query, unrelated)
+    );
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BaseChatModelParams,
+} from "@langchain/core/language_models/chat_models";
+import { Embeddings } from "@langchain/core/embeddings";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+} from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { v4 as uuidv4 } from "uuid";
+import { ModelCapabilities, ModelProvider } from "./model-provider";
+import { tokenize } from "../vectorstore/keyword-index";
+
+/**
+ * A scripted reply, fixed or computed from the prompt messages
+ */
+export type FakeResponse = string | ((messages: BaseMessage[]) => string);
+
+/**
+ * Call a tool when the latest user message matches a pattern
+ * Rules only fire while the tool is bound to the model.
+ */
+export interface ToolCallRule {
+  pattern: RegExp;
+  tool: string;
+  args:
+    Record<string, any> | ((match: RegExpMatchArray) => Record<string, any>);
+}
+
+export interface FakeChatModelFields extends BaseChatModelParams {
+  responses?: FakeResponse[]; // Replies in order, one per call without tool calls
+  defaultResponse?: FakeResponse; // Reply once `responses` runs out
+  toolCallRules?: ToolCallRule[];
+}
+
+export interface FakeChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: any[];
+}
+
+/**
+ * Get the name of a bound tool in OpenAI or LangChain format
+ */
+function getToolName(tool: any): string | undefined {
+  return tool?.function?.name ?? tool?.name;
+}
+
+/**
+ * Get the text of a message
+ */
+function getText(message: BaseMessage): string {
+  return typeof message.content === "string"
+    ? message.content
+    : JSON.stringify(message.content);
+}
+
+/**
+ * Echo the latest user message
+ */
+function echoResponse(messages: BaseMessage[]): string {
+  const human = [...messages]
+    .reverse()
+    .find((message) => message.getType() === "human");
+
+  return `Fake response to: ${human ? getText(human) : ""}`;
+}
+
+/**
+ * Chat model replying from a script, for tests and offline development
+ *
+ * Calls with bound tools answer with the tool calls of the rules matching
+ * the latest user message, or an empty reply when none match. Other calls
+ * take the next scripted response. Every call's messages are recorded in
+ * `calls`.
+ */
+export class FakeChatModel extends BaseChatModel<FakeChatModelCallOptions> {
+  responses: FakeResponse[];
+  defaultResponse: FakeResponse;
+  toolCallRules: ToolCallRule[];
+  calls: BaseMessage[][] = [];
+
+  constructor(fields: FakeChatModelFields = {}) {
+    super(fields);
+    this.responses = [...(fields.responses ?? [])];
+    this.defaultResponse = fields.defaultResponse ?? echoResponse;
+    this.toolCallRules = fields.toolCallRules ?? [];
+  }
+
+  _llmType(): string {
+    return "fake";
+  }
+
+  bindTools(tools: any[], kwargs?: Partial<FakeChatModelCallOptions>) {
+    return this.withConfig({ ...kwargs, tools } as FakeChatModelCallOptions);
+  }
+
+  /**
+   * Build the reply to a prompt
+   */
+  private respond(messages: BaseMessage[], tools?: any[]): AIMessage {
+    this.calls.push(messages);
+
+    if (tools?.length) {
+      return this.callTools(messages, tools);
+    }
+
+    const response = this.responses.shift() ?? this.defaultResponse;
+    const content =
+      typeof response === "function" ? response(messages) : response;
+
+    return new AIMessage(content);
+  }
+
+  /**
+   * Call the bound tools whose rules match the latest user message
+   */
+  private callTools(messages: BaseMessage[], tools: any[]): AIMessage {
+    const boundTools = new Set(tools.map(getToolName));
+    const human = [...messages]
+      .reverse()
+      .find((message) => message.getType() === "human");
+    const text = human ? getText(human) : "";
+
+    const toolCalls = this.toolCallRules.flatMap((rule) => {
+      const match = text.match(rule.pattern);
+
+      if (!match || !boundTools.has(rule.tool)) {
+        return [];
+      }
+
+      const args =
+        typeof rule.args === "function" ? rule.args(match) : rule.args;
+      return [{ id: `call_${uuidv4()}`, name: rule.tool, args }];
+    });
+
+    return new AIMessage({
+      content: "",
+      tool_calls: toolCalls.map((call) => ({ ...call, type: "tool_call" })),
+      additional_kwargs: toolCalls.length
+        ? {
+            tool_calls: toolCalls.map((call) => ({
+              id: call.id,
+              type: "function" as const,
+              function: {
+                name: call.name,
+                arguments: JSON.stringify(call.args),
+              },
+            })),
+          }
+        : {},
+    });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): Promise<ChatResult> {
+    const message = this.respond(messages, options.tools);
+
+    return {
+      generations: [{ text: getText(message), message }],
+    };
+  }
+
+  /**
+   * Stream the reply word by word
+   */
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.respond(messages, options.tools);
+
+    if (message.tool_calls?.length) {
+      yield new ChatGenerationChunk({
+        text: "",
+        message: new AIMessageChunk({
+          content: "",
+          tool_call_chunks: message.tool_calls.map((call, index) => ({
+            id: call.id,
+            name: call.name,
+            args: JSON.stringify(call.args),
+            index,
+            type: "tool_call_chunk" as const,
+          })),
+          additional_kwargs: message.additional_kwargs,
+        }),
+      });
+      return;
+    }
+
+    for (const word of getText(message).match(/\s*\S+/g) ?? []) {
+      yield new ChatGenerationChunk({
+        text: word,
+        message: new AIMessageChunk(word),
+      });
+    }
+  }
+}
+
+// Dimensions of the fake embedding vectors
+const FAKE_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic embeddings hashing each term into a bag-of-words vector
+ *
+ * Texts sharing terms are similar, so similarity search behaves sensibly
+ * without an embeddings API.
+ */
+export class FakeEmbeddings extends Embeddings {
+  dimensions: number;
+
+  constructor(dimensions = FAKE_EMBEDDING_DIMENSIONS) {
+    super({});
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * Embed a text as L2-normalized term counts, each term's sign also
+   * taken from its hash to spread collisions
+   */
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const term of tokenize(text)) {
+      const hash = fnv1a(term);
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value ** 2, 0));
+    return norm ? vector.map((value) => value / norm) : vector;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+}
+
+export interface FakeModelProviderOptions extends FakeChatModelFields {
+  capabilities?: Partial<ModelCapabilities>;
+  maxTemperature?: number; // Defaults to 2, as for OpenAI
+  modelSelection?: boolean; // Defaults to true
+}
+
+/**
+ * Model provider serving a shared fake chat model and fake embeddings
+ */
+export class FakeModelProvider implements ModelProvider {
+  readonly name = "fake";
+  readonly capabilities: ModelCapabilities;
+  readonly maxTemperature: number;
+  readonly modelSelection: boolean;
+  readonly chatModel: FakeChatModel;
+  readonly embeddings = new FakeEmbeddings();
+
+  constructor(options: FakeModelProviderOptions = {}) {
+    const {
+      capabilities,
+      maxTemperature = 2,
+      modelSelection = true,
+      ...fields
+    } = options;
+
+    this.capabilities = {
+      toolCalling: true,
+      streaming: true,
+      jsonMode: true,
+      ...capabilities,
+    };
+    this.maxTemperature = maxTemperature;
+    this.modelSelection = modelSelection;
+    this.chatModel = new FakeChatModel(fields);
+  }
+
+  createChatModel(): FakeChatModel {
+    return this.chatModel;
+  }
+
+  createEmbeddings(): FakeEmbeddings {
+    return this.embeddings;
+  }
+}
@@ -1,51 +1,106 @@
-import { ChatOpenAI } from "@langchain/openai";
 import { ChatPromptTemplate } from "@langchain/core/prompts";
-import { LLM_MODEL, LLM_TEMPERATURE, OPENAI_API_KEY } from "../config/env";
-import { SYSTEM_MESSAGES, TIMEOUTS } from "../config/constants";
+import {
+  LLM_FALLBACKS,
+  LLM_MODEL,
+  LLM_PROVIDER,
+  LLM_TEMPERATURE,
+} from "../config/env";
+import { RESPONSE_STYLES, SYSTEM_MESSAGES } from "../config/constants";
+import { GenerationSettings, ResponseStyle } from "../types/conversation";
 import { createLogger } from "../utils/logger";
 import { BaseMessage } from "@langchain/core/messages";
+import { getToolDefinitions } from "../tools/action-registry";
+import { getModelProvider, getModelProviderByName } from "./model-provider";
+import { FallbackChatModel, ModelChainEntry } from "./model-fallback";
 
 const logger = createLogger("llm");
 
+/**
+ * Options for a chat model
+ */
+export interface ChatModelOptions {
+  model?: string; // Defaults to LLM_MODEL
+  temperature?: number; // Defaults to LLM_TEMPERATURE
+  maxTokens?: number;
+  jsonMode?: boolean; // Ask for JSON replies where the provider supports it
+}
+
+/**
+ * Chat model options for a conversation's generation settings
+ */
+export function getChatModelOptions(
+  settings?: GenerationSettings | null
+): ChatModelOptions {
+  return {
+    model: settings?.model,
+    temperature: settings?.temperature,
+    maxTokens: settings?.maxTokens,
+  };
+}
+
+/**
+ * Add the instruction for a response style to a system prompt
+ */
+export function applyResponseStyle(
+  systemPrompt: string,
+  style?: ResponseStyle
+): string {
+  return style ? `${systemPrompt}\n\n${RESPONSE_STYLES[style]}` : systemPrompt;
+}
+
 /**
  * Create a standard chat model with optimal settings
+ * The model comes from the LLM_PROVIDER provider, falling back to the
+ * LLM_FALLBACKS models in order when it fails
  */
-export function createChatModel() {
+export function createChatModel(
+  options: ChatModelOptions = {}
+): FallbackChatModel {
+  const model = options.model ?? LLM_MODEL;
+  const temperature = options.temperature ?? LLM_TEMPERATURE;
+
   logger.debug(
-    `Creating chat model with: ${LLM_MODEL}, temp: ${LLM_TEMPERATURE}`
+    `Creating chat model with: ${LLM_PROVIDER}/${model}, temp: ${temperature}`
   );
 
-  return new ChatOpenAI({
-    openAIApiKey: OPENAI_API_KEY,
-    modelName: LLM_MODEL,
-    temperature: LLM_TEMPERATURE,
-    timeout: TIMEOUTS.LLM_REQUEST_TIMEOUT_MS,
-    maxRetries: TIMEOUTS.RETRY_ATTEMPTS,
+  const chain: ModelChainEntry[] = [
+    { provider: getModelProvider(), model },
+    ...LLM_FALLBACKS.map((fallback) => ({
+      provider: getModelProviderByName(fallback.provider),
+      model: fallback.model,
+    })),
+  ];
+
+  return new FallbackChatModel(chain, {
+    temperature,
+    maxTokens: options.maxTokens,
+    jsonMode: options.jsonMode,
   });
 }
 
 /**
  * Create a function-calling enabled model with the provided functions
- * This uses the newer OpenAI tools format
+ * Tools are given in the OpenAI tools format and converted by the provider
+ * Defaults to every action in the action registry
  */
-export function createFunctionCallingModel(tools: any[]) {
+export function createFunctionCallingModel(
+  tools: any[] = getToolDefinitions(),
+  options: ChatModelOptions = {}
+) {
   logger.debug(`Creating function calling model with ${tools.length} tools`);
 
   // Create basic model
-  const model = new ChatOpenAI({
-    openAIApiKey: OPENAI_API_KEY,
-    modelName: LLM_MODEL,
-    temperature: 0.1,
-    timeout: TIMEOUTS.LLM_REQUEST_TIMEOUT_MS,
-    maxRetries: TIMEOUTS.RETRY_ATTEMPTS,
+  const model = createChatModel({
+    ...options,
+    temperature: options.temperature ?? 0.1,
   });
 
   try {
-    // Attach tools using different methods depending on API version
-    // @ts-ignore - Handle API differences in different versions
-    return model.bind({
-      tools: tools,
-    });
+    if (!model.bindTools) {
+      throw new Error("Model does not support tools");
+    }
+
+    return model.bindTools(tools);
   } catch (error) {
     logger.error(
       { error },
@@ -68,12 +123,13 @@ export function createChatPrompt(systemMessage = SYSTEM_MESSAGES.DEFAULT) {
 
 /**
  * Create a RAG-optimized prompt template
+ * The context goes in the one system message, since some providers only
+ * accept a system message at the start
  */
-export function createRagPrompt() {
+export function createRagPrompt(systemPrompt = SYSTEM_MESSAGES.RAG) {
   return ChatPromptTemplate.fromMessages([
-    ["system", SYSTEM_MESSAGES.RAG],
+    ["system", `${systemPrompt}\n\nContext information:\n{context}`],
     ["placeholder", "{chat_history}"],
-    ["system", "Context information:\n{context}"],
     ["human", "{input}"],
   ]);
 }
@@ -0,0 +1,188 @@
+import { HumanMessage } from "@langchain/core/messages";
+import { FakeModelProvider, FakeResponse } from "./fake-models";
+import { FallbackChatModel } from "./model-fallback";
+import { ModelProvider } from "./model-provider";
+import { getCircuitStates, resetCircuitBreakers } from "./circuit-breaker";
+import { CIRCUIT_BREAKER } from "../config/constants";
+import { AppError } from "../utils/error-handler";
+
+const failing: FakeResponse = () => {
+  throw new Error("Request timed out");
+};
+
+/**
+ * Create a fallback model over fake models with the given scripts
+ */
+function createModel(...scripts: FakeResponse[][]) {
+  const providers = scripts.map(
+    (responses) =>
+      new FakeModelProvider({ responses, defaultResponse: failing })
+  );
+
+  return new FallbackChatModel(
+    providers.map((provider, i) => ({ provider, model: `model-${i}` })),
+    { temperature: 0 }
+  );
+}
+
+const ask = (model: FallbackChatModel) =>
+  model.invoke([new HumanMessage("hi")]);
+
+describe("FallbackChatModel", () => {
+  beforeEach(() => {
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("falls back to the next model when one fails", async () => {
+    const model = createModel([failing], ["from fallback"]);
+
+    const response = await ask(model);
+
+    expect(response.content).toBe("from fallback");
+    expect(model.lastUsage).toEqual({
+      provider: "fake",
+      model: "model-1",
+      fallback: true,
+      attempts: [
+        expect.objectContaining({ model: "model-0", outcome: "failed" }),
+        expect.objectContaining({ model: "model-1", outcome: "succeeded" }),
+      ],
+    });
+  });
+
+  it("leaves retries to the last model of the chain", async () => {
+    const providers = [0, 1, 2].map(
+      () => new FakeModelProvider({ defaultResponse: failing })
+    );
+    const created = providers.map((provider) =>
+      jest.spyOn(provider as ModelProvider, "createChatModel")
+    );
+    const model = new FallbackChatModel(
+      providers.map((provider, i) => ({ provider, model: `model-${i}` })),
+      { temperature: 0 }
+    );
+
+    await expect(ask(model)).rejects.toBeInstanceOf(AppError);
+
+    expect(created.map((spy) => spy.mock.calls[0][0].maxRetries)).toEqual([
+      0,
+      0,
+      undefined,
+    ]);
+  });
+
+  it("limits the temperature to each provider's maximum", async () => {
+    const providers = [2, 1].map(
+      (maxTemperature) =>
+        new FakeModelProvider({ defaultResponse: failing, maxTemperature })
+    );
+    const created = providers.map((provider) =>
+      jest.spyOn(provider as ModelProvider, "createChatModel")
+    );
+    const model = new FallbackChatModel(
+      providers.map((provider, i) => ({ provider, model: `model-${i}` })),
+      { temperature: 1.5 }
+    );
+
+    await expect(ask(model)).rejects.toBeInstanceOf(AppError);
+
+    expect(created.map((spy) => spy.mock.calls[0][0].temperature)).toEqual([
+      1.5, 1,
+    ]);
+  });
+
+  it("fails with a service error when every model fails", async () => {
+    const model = createModel([failing], [failing]);
+
+    await expect(ask(model)).rejects.toBeInstanceOf(AppError);
+    expect(model.lastUsage?.provider).toBeUndefined();
+    expect(model.lastUsage?.attempts.map((a) => a.outcome)).toEqual([
+      "failed",
+      "failed",
+    ]);
+  });
+
+  it("skips a model while its circuit is open, then probes it", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const threshold = CIRCUIT_BREAKER.FAILURE_THRESHOLD;
+    const model = createModel(
+      [...Array(threshold).fill(failing), "recovered"],
+      Array(threshold + 2).fill("from fallback")
+    );
+
+    for (let i = 0; i < threshold; i++) {
+      await ask(model);
+    }
+    expect(getCircuitStates()["fake/model-0"]).toBe("open");
+
+    await ask(model);
+    expect(model.lastUsage?.attempts[0].outcome).toBe("skipped");
+
+    now.mockReturnValue(CIRCUIT_BREAKER.RESET_TIMEOUT_MS);
+    expect(getCircuitStates()["fake/model-0"]).toBe("half_open");
+
+    const response = await ask(model);
+    expect(response.content).toBe("recovered");
+    expect(getCircuitStates()["fake/model-0"]).toBe("closed");
+  });
+
+  it("reopens the circuit when the probe fails", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const threshold = CIRCUIT_BREAKER.FAILURE_THRESHOLD;
+    const model = createModel(
+      [failing],
+      Array(threshold + 1).fill("from fallback")
+    );
+
+    for (let i = 0; i < threshold; i++) {
+      await ask(model);
+    }
+
+    now.mockReturnValue(CIRCUIT_BREAKER.RESET_TIMEOUT_MS);
+    await ask(model);
+
+    expect(model.lastUsage?.attempts[0].outcome).toBe("failed");
+    expect(getCircuitStates()["fake/model-0"]).toBe("open");
+  });
+
+  it("frees the probe when a stream is abandoned halfway", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const threshold = CIRCUIT_BREAKER.FAILURE_THRESHOLD;
+    const model = createModel(
+      [...Array(threshold).fill(failing), "a recovered answer", "recovered"],
+      Array(threshold).fill("from fallback")
+    );
+
+    for (let i = 0; i < threshold; i++) {
+      await ask(model);
+    }
+
+    now.mockReturnValue(CIRCUIT_BREAKER.RESET_TIMEOUT_MS);
+
+    // The caller stops reading after the probe's first chunk
+    for await (const chunk of await model.stream([new HumanMessage("hi")])) {
+      expect(chunk.content).toBe("a");
+      break;
+    }
+
+    const response = await ask(model);
+    expect(response.content).toBe("recovered");
+    expect(getCircuitStates()["fake/model-0"]).toBe("closed");
+  });
+
+  it("falls back when a stream fails before its first chunk", async () => {
+    const model = createModel([failing], ["streamed from fallback"]);
+    let content = "";
+
+    for await (const chunk of await model.stream([new HumanMessage("hi")])) {
+      content += chunk.content;
+    }
+
+    expect(content).toBe("streamed from fallback");
+    expect(model.lastUsage?.fallback).toBe(true);
+  });
+});
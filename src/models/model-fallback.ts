@@ -0,0 +1,300 @@
+import { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+} from "@langchain/core/language_models/chat_models";
+import { Runnable } from "@langchain/core/runnables";
+import { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import { ChatModelSettings, ModelProvider } from "./model-provider";
+import { CircuitBreaker, getCircuitBreaker } from "./circuit-breaker";
+import { CIRCUIT_BREAKER } from "../config/constants";
+import {
+  AppError,
+  ErrorFactory,
+  handleServiceError,
+} from "../utils/error-handler";
+import { ModelAttempt, ModelUsage } from "../types/conversation";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("model-fallback");
+
+/**
+ * A model in the fallback chain
+ */
+export interface ModelChainEntry {
+  provider: ModelProvider;
+  model: string;
+}
+
+export interface FallbackChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: any[];
+}
+
+/**
+ * A model of the chain that is being tried
+ */
+interface Candidate {
+  entry: ModelChainEntry;
+  index: number;
+  attempt: ModelAttempt;
+  breaker: CircuitBreaker;
+  model: Runnable<BaseLanguageModelInput, AIMessageChunk>;
+  startTime: number;
+}
+
+/**
+ * Get the name of the circuit breaker guarding a model
+ */
+function getCircuitName(entry: ModelChainEntry): string {
+  return `${entry.provider.name}/${entry.model}`;
+}
+
+/**
+ * Chat model trying a chain of models in order until one answers
+ *
+ * Each model has a circuit breaker shared across requests, so a model that
+ * keeps failing is skipped until its circuit lets a probe through. Models
+ * without tool calling are skipped for calls with bound tools. A stream
+ * only falls back while nothing has been streamed yet. The models tried by
+ * the latest call and the one that served it are kept in `lastUsage`.
+ */
+export class FallbackChatModel extends BaseChatModel<FallbackChatModelCallOptions> {
+  lastUsage: ModelUsage | null = null;
+
+  constructor(
+    private chain: ModelChainEntry[],
+    private settings: Omit<ChatModelSettings, "model">
+  ) {
+    super({});
+  }
+
+  _llmType(): string {
+    return "fallback";
+  }
+
+  bindTools(tools: any[], kwargs?: Partial<FallbackChatModelCallOptions>) {
+    return this.withConfig({
+      ...kwargs,
+      tools,
+    } as FallbackChatModelCallOptions);
+  }
+
+  /**
+   * Create the chat model for a chain entry, with any bound tools
+   * Models with fallbacks after them fail fast instead of retrying, so the
+   * next model answers without waiting out the retries.
+   */
+  private async createModel(
+    entry: ModelChainEntry,
+    index: number,
+    tools?: any[]
+  ): Promise<Runnable<BaseLanguageModelInput, AIMessageChunk>> {
+    const model = await entry.provider.createChatModel({
+      ...this.settings,
+      model: entry.model,
+      // A fallback provider may accept a narrower temperature range
+      temperature: Math.min(
+        this.settings.temperature,
+        entry.provider.maxTemperature
+      ),
+      // Providers without JSON mode rely on the prompt asking for JSON
+      jsonMode: Boolean(
+        this.settings.jsonMode && entry.provider.capabilities.jsonMode
+      ),
+      ...(index < this.chain.length - 1 && {
+        maxRetries: CIRCUIT_BREAKER.FALLBACK_RETRY_ATTEMPTS,
+      }),
+    });
+
+    if (!tools?.length) {
+      return model;
+    }
+
+    if (!model.bindTools) {
+      throw new Error(`${entry.provider.name} does not support tools`);
+    }
+
+    return model.bindTools(tools);
+  }
+
+  /**
+   * Yield the models of the chain that can be tried, in order, recording
+   * the skipped ones in the usage
+   */
+  private async *candidates(
+    tools: any[] | undefined,
+    usage: ModelUsage
+  ): AsyncGenerator<Candidate> {
+    for (const [index, entry] of this.chain.entries()) {
+      const attempt: ModelAttempt = {
+        provider: entry.provider.name,
+        model: entry.model,
+        outcome: "skipped",
+      };
+      usage.attempts.push(attempt);
+
+      if (tools?.length && !entry.provider.capabilities.toolCalling) {
+        continue;
+      }
+
+      const breaker = getCircuitBreaker(getCircuitName(entry));
+
+      if (!breaker.tryAcquire()) {
+        logger.debug({ circuit: breaker.name }, "Circuit open, skipping model");
+        continue;
+      }
+
+      let model: Candidate["model"];
+
+      try {
+        model = await this.createModel(entry, index, tools);
+      } catch (error) {
+        // Creating the model failed, e.g. a missing provider package
+        this.recordFailure({ entry, index, attempt, breaker }, error);
+        continue;
+      }
+
+      yield { entry, index, attempt, breaker, model, startTime: Date.now() };
+    }
+  }
+
+  private recordSuccess(candidate: Candidate, usage: ModelUsage): void {
+    const { entry, index, attempt, breaker } = candidate;
+
+    breaker.recordSuccess();
+    attempt.outcome = "succeeded";
+    attempt.durationMs = Date.now() - candidate.startTime;
+
+    Object.assign(usage, {
+      provider: entry.provider.name,
+      model: entry.model,
+      fallback: index > 0,
+    });
+
+    if (usage.fallback) {
+      logger.info({ ...usage }, "Served by fallback model");
+    }
+  }
+
+  /**
+   * Record a failed attempt, returning the failure as a service error
+   */
+  private recordFailure(
+    candidate: Omit<Candidate, "model" | "startTime"> & { startTime?: number },
+    error: unknown
+  ): AppError {
+    const serviceError = handleServiceError(
+      error,
+      candidate.entry.provider.name
+    );
+
+    candidate.breaker.recordFailure();
+    candidate.attempt.outcome = "failed";
+    candidate.attempt.error = serviceError.message;
+
+    if (candidate.startTime !== undefined) {
+      candidate.attempt.durationMs = Date.now() - candidate.startTime;
+    }
+
+    return serviceError;
+  }
+
+  /**
+   * Start recording the models tried by a call
+   */
+  private startUsage(): ModelUsage {
+    this.lastUsage = { fallback: false, attempts: [] };
+    return this.lastUsage;
+  }
+
+  /**
+   * The error for a call no model could serve
+   */
+  private unavailable(usage: ModelUsage): AppError {
+    logger.error(
+      { attempts: usage.attempts },
+      "No chat model could serve the request"
+    );
+
+    return ErrorFactory.serviceUnavailable(
+      usage.attempts.some((attempt) => attempt.outcome === "failed")
+        ? "All chat models failed"
+        : "No chat model available"
+    );
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): Promise<ChatResult> {
+    const { tools, ...callOptions } = options;
+    const usage = this.startUsage();
+
+    for await (const candidate of this.candidates(tools, usage)) {
+      try {
+        const message = await candidate.model.invoke(messages, callOptions);
+
+        this.recordSuccess(candidate, usage);
+
+        return {
+          generations: [
+            {
+              text: typeof message.content === "string" ? message.content : "",
+              message,
+            },
+          ],
+        };
+      } catch (error) {
+        this.recordFailure(candidate, error);
+      }
+    }
+
+    throw this.unavailable(usage);
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const { tools, ...callOptions } = options;
+    const usage = this.startUsage();
+
+    for await (const candidate of this.candidates(tools, usage)) {
+      let started = false;
+      let settled = false;
+
+      try {
+        const stream = await candidate.model.stream(messages, callOptions);
+
+        for await (const chunk of stream) {
+          started = true;
+          yield new ChatGenerationChunk({
+            text: typeof chunk.content === "string" ? chunk.content : "",
+            message: chunk as AIMessageChunk,
+          });
+        }
+
+        settled = true;
+        this.recordSuccess(candidate, usage);
+        return;
+      } catch (error) {
+        settled = true;
+        const serviceError = this.recordFailure(candidate, error);
+
+        // Part of the answer has already reached the caller
+        if (started) {
+          throw serviceError;
+        }
+      } finally {
+        // The caller stopped reading mid-stream, so the model neither
+        // succeeded nor failed; a probe it claimed must not stay claimed
+        if (!settled) {
+          candidate.breaker.release();
+        }
+      }
+    }
+
+    throw this.unavailable(usage);
+  }
+}
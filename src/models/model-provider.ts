@@ -0,0 +1,312 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { Embeddings } from "@langchain/core/embeddings";
+import {
+  AzureChatOpenAI,
+  AzureOpenAIEmbeddings,
+  ChatOpenAI,
+  OpenAIEmbeddings,
+} from "@langchain/openai";
+import {
+  ANTHROPIC_API_KEY,
+  AZURE_OPENAI_API_DEPLOYMENT_NAME,
+  AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME,
+  AZURE_OPENAI_API_INSTANCE_NAME,
+  AZURE_OPENAI_API_KEY,
+  AZURE_OPENAI_API_VERSION,
+  EMBEDDING_MODEL,
+  EMBEDDING_PROVIDER,
+  LLM_CAPABILITIES,
+  LLM_PROVIDER,
+  OPENAI_API_KEY,
+  OPENAI_COMPATIBLE_API_KEY,
+  OPENAI_COMPATIBLE_BASE_URL,
+} from "../config/env";
+import { TIMEOUTS } from "../config/constants";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("model-provider");
+
+/**
+ * Features a chat provider may lack; graph nodes check these and fall back
+ * rather than fail (no action extraction, one-piece answers, prompted JSON)
+ */
+export interface ModelCapabilities {
+  toolCalling: boolean;
+  streaming: boolean;
+  jsonMode: boolean;
+}
+
+/**
+ * Settings for one chat model
+ */
+export interface ChatModelSettings {
+  model: string;
+  temperature: number;
+  maxTokens?: number; // Limit on the reply length; the provider's default when unset
+  jsonMode?: boolean; // Constrain replies to a JSON object
+  maxRetries?: number; // Retries of a failed request; TIMEOUTS.RETRY_ATTEMPTS when unset
+}
+
+/**
+ * Backend serving chat models and, optionally, embeddings
+ */
+export interface ModelProvider {
+  readonly name: string;
+  readonly capabilities: ModelCapabilities;
+  readonly maxTemperature: number; // Highest temperature the API accepts
+  readonly modelSelection: boolean; // Whether models are chosen by name
+
+  // Providers whose package is loaded on demand resolve the model async
+  createChatModel(
+    settings: ChatModelSettings
+  ): BaseChatModel | Promise<BaseChatModel>;
+
+  // Absent for providers without an embeddings API
+  createEmbeddings?(): Embeddings;
+}
+
+// OpenAI's JSON mode, also used by Azure and compatible servers
+const JSON_MODE_KWARGS = { response_format: { type: "json_object" } };
+
+// Settings shared by the OpenAI SDK-based embeddings
+const EMBEDDINGS_SETTINGS = {
+  batchSize: 512, // Process 512 texts at a time for efficiency
+  stripNewLines: true, // Remove newlines for better embedding quality
+  maxRetries: TIMEOUTS.RETRY_ATTEMPTS,
+  timeout: TIMEOUTS.VECTOR_SEARCH_TIMEOUT_MS,
+};
+
+/**
+ * OpenAI
+ */
+export const openAIModelProvider: ModelProvider = {
+  name: "openai",
+  capabilities: { toolCalling: true, streaming: true, jsonMode: true },
+  maxTemperature: 2,
+  modelSelection: true,
+
+  createChatModel: ({ model, temperature, maxTokens, jsonMode, maxRetries }) =>
+    new ChatOpenAI({
+      openAIApiKey: OPENAI_API_KEY,
+      modelName: model,
+      temperature,
+      maxTokens,
+      timeout: TIMEOUTS.LLM_REQUEST_TIMEOUT_MS,
+      maxRetries: maxRetries ?? TIMEOUTS.RETRY_ATTEMPTS,
+      ...(jsonMode && { modelKwargs: JSON_MODE_KWARGS }),
+    }),
+
+  createEmbeddings: () =>
+    new OpenAIEmbeddings({
+      openAIApiKey: OPENAI_API_KEY,
+      modelName: EMBEDDING_MODEL,
+      ...EMBEDDINGS_SETTINGS,
+    }),
+};
+
+/**
+ * Azure OpenAI, addressed by deployment rather than model name
+ * Every model it creates is the configured deployment, so the model
+ * cannot be chosen.
+ */
+export const azureModelProvider: ModelProvider = {
+  name: "azure",
+  capabilities: { toolCalling: true, streaming: true, jsonMode: true },
+  maxTemperature: 2,
+  modelSelection: false,
+
+  createChatModel: ({ temperature, maxTokens, jsonMode, maxRetries }) =>
+    new AzureChatOpenAI({
+      azureOpenAIApiKey: AZURE_OPENAI_API_KEY,
+      azureOpenAIApiInstanceName: AZURE_OPENAI_API_INSTANCE_NAME,
+      azureOpenAIApiDeploymentName: AZURE_OPENAI_API_DEPLOYMENT_NAME,
+      azureOpenAIApiVersion: AZURE_OPENAI_API_VERSION,
+      temperature,
+      maxTokens,
+      timeout: TIMEOUTS.LLM_REQUEST_TIMEOUT_MS,
+      maxRetries: maxRetries ?? TIMEOUTS.RETRY_ATTEMPTS,
+      ...(jsonMode && { modelKwargs: JSON_MODE_KWARGS }),
+    }),
+
+  createEmbeddings: () =>
+    new AzureOpenAIEmbeddings({
+      azureOpenAIApiKey: AZURE_OPENAI_API_KEY,
+      azureOpenAIApiInstanceName: AZURE_OPENAI_API_INSTANCE_NAME,
+      azureOpenAIApiEmbeddingsDeploymentName:
+        AZURE_OPENAI_API_EMBEDDINGS_DEPLOYMENT_NAME,
+      azureOpenAIApiVersion: AZURE_OPENAI_API_VERSION,
+      ...EMBEDDINGS_SETTINGS,
+    }),
+};
+
+/**
+ * Any server implementing the OpenAI chat completions API, such as Ollama
+ * or llama.cpp. Tool calling and JSON mode depend on the server and model,
+ * so they are off unless enabled with LLM_CAPABILITIES.
+ */
+export const openAICompatibleModelProvider: ModelProvider = {
+  name: "openai-compatible",
+  capabilities: { toolCalling: false, streaming: true, jsonMode: false },
+  maxTemperature: 2,
+  modelSelection: true,
+
+  createChatModel: ({ model, temperature, maxTokens, jsonMode, maxRetries }) =>
+    new ChatOpenAI({
+      // Local servers usually ignore the key, but the client requires one
+      openAIApiKey: OPENAI_COMPATIBLE_API_KEY || "not-needed",
+      configuration: { baseURL: OPENAI_COMPATIBLE_BASE_URL },
+      modelName: model,
+      temperature,
+      maxTokens,
+      timeout: TIMEOUTS.LLM_REQUEST_TIMEOUT_MS,
+      maxRetries: maxRetries ?? TIMEOUTS.RETRY_ATTEMPTS,
+      ...(jsonMode && { modelKwargs: JSON_MODE_KWARGS }),
+    }),
+
+  createEmbeddings: () =>
+    new OpenAIEmbeddings({
+      openAIApiKey: OPENAI_COMPATIBLE_API_KEY || "not-needed",
+      configuration: { baseURL: OPENAI_COMPATIBLE_BASE_URL },
+      modelName: EMBEDDING_MODEL,
+      ...EMBEDDINGS_SETTINGS,
+    }),
+};
+
+/**
+ * Anthropic, through the optional @langchain/anthropic package
+ * Anthropic has no embeddings API, so EMBEDDING_PROVIDER defaults to openai.
+ */
+export const anthropicModelProvider: ModelProvider = {
+  name: "anthropic",
+  capabilities: { toolCalling: true, streaming: true, jsonMode: false },
+  maxTemperature: 1,
+  modelSelection: true,
+
+  createChatModel: async ({ model, temperature, maxTokens, maxRetries }) => {
+    let anthropic: typeof import("@langchain/anthropic");
+
+    try {
+      // An optional peer dependency, only needed when selected
+      anthropic = await import("@langchain/anthropic");
+    } catch (error) {
+      throw new Error(
+        `LLM_PROVIDER=anthropic requires the @langchain/anthropic package: ${(error as Error).message}`
+      );
+    }
+
+    return new anthropic.ChatAnthropic({
+      apiKey: ANTHROPIC_API_KEY,
+      model,
+      temperature,
+      // ChatAnthropic needs a limit, so only a set one replaces its default
+      ...(maxTokens && { maxTokens }),
+      maxRetries: maxRetries ?? TIMEOUTS.RETRY_ATTEMPTS,
+      clientOptions: { timeout: TIMEOUTS.LLM_REQUEST_TIMEOUT_MS },
+    });
+  },
+};
+
+const MODEL_PROVIDERS: Record<string, ModelProvider> = {
+  openai: openAIModelProvider,
+  azure: azureModelProvider,
+  "openai-compatible": openAICompatibleModelProvider,
+  anthropic: anthropicModelProvider,
+};
+
+/**
+ * Parse LLM_CAPABILITIES, e.g. "tool_calling,streaming"
+ * Returns undefined when unset, keeping the provider's capabilities
+ */
+function parseCapabilities(value?: string): ModelCapabilities | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const flags = new Set(value.split(",").map((flag) => flag.trim()));
+
+  return {
+    toolCalling: flags.has("tool_calling"),
+    streaming: flags.has("streaming"),
+    jsonMode: flags.has("json_mode"),
+  };
+}
+
+// Model provider singletons
+let chatProvider: ModelProvider | null = null;
+let embeddingProvider: ModelProvider | null = null;
+
+/**
+ * Get the chat model provider selected by LLM_PROVIDER, with its
+ * capabilities overridden by LLM_CAPABILITIES when set
+ */
+export function getModelProvider(): ModelProvider {
+  if (chatProvider) {
+    return chatProvider;
+  }
+
+  const provider = MODEL_PROVIDERS[LLM_PROVIDER];
+  chatProvider = {
+    ...provider,
+    capabilities: parseCapabilities(LLM_CAPABILITIES) ?? provider.capabilities,
+  };
+
+  logger.info(
+    { provider: chatProvider.name, capabilities: chatProvider.capabilities },
+    "Model provider selected"
+  );
+  return chatProvider;
+}
+
+/**
+ * Get a chat model provider by name, e.g. for an LLM_FALLBACKS entry
+ * The selected provider is returned as configured, with its overrides.
+ */
+export function getModelProviderByName(name: string): ModelProvider {
+  if (name === LLM_PROVIDER) {
+    return getModelProvider();
+  }
+
+  const provider = MODEL_PROVIDERS[name];
+
+  if (!provider) {
+    throw new Error(`Unknown model provider: ${name}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Get the embeddings provider selected by EMBEDDING_PROVIDER
+ */
+export function getEmbeddingProvider(): ModelProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = MODEL_PROVIDERS[EMBEDDING_PROVIDER];
+    logger.info(
+      { provider: embeddingProvider.name },
+      "Embedding provider selected"
+    );
+  }
+
+  return embeddingProvider;
+}
+
+/**
+ * Replace the chat model provider, e.g. with a fake one in tests
+ */
+export function setModelProvider(modelProvider: ModelProvider): void {
+  chatProvider = modelProvider;
+}
+
+/**
+ * Replace the embeddings provider, e.g. with a fake one in tests
+ */
+export function setEmbeddingProvider(modelProvider: ModelProvider): void {
+  embeddingProvider = modelProvider;
+}
+
+/**
+ * Get the capabilities of the chat model provider
+ */
+export function getModelCapabilities(): ModelCapabilities {
+  return getModelProvider().capabilities;
+}
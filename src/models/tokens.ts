@@ -0,0 +1,80 @@
+import {
+  encodingForModel,
+  getEncoding,
+  Tiktoken,
+  TiktokenModel,
+} from "js-tiktoken";
+import { LLM_MODEL } from "../config/env";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("tokens");
+
+// Encoding used for models tiktoken does not know, e.g. non-OpenAI models
+const FALLBACK_ENCODING = "o200k_base";
+
+// Tokens added by the chat format around each message
+export const TOKENS_PER_MESSAGE = 4;
+
+// Encoders are large, so one is built per model and reused
+const encoderCache = new Map<string, Tiktoken>();
+
+/**
+ * Get the tokenizer for a model, falling back to a recent OpenAI encoding
+ */
+function getEncoder(model: string): Tiktoken {
+  const cached = encoderCache.get(model);
+
+  if (cached) {
+    return cached;
+  }
+
+  let encoder: Tiktoken;
+
+  try {
+    encoder = encodingForModel(model as TiktokenModel);
+  } catch {
+    logger.debug(
+      { model, encoding: FALLBACK_ENCODING },
+      "No tokenizer for model, using fallback encoding"
+    );
+    encoder = getEncoding(FALLBACK_ENCODING);
+  }
+
+  encoderCache.set(model, encoder);
+  return encoder;
+}
+
+/**
+ * Encode text, treating special-token strings as plain text
+ */
+function encode(text: string, model: string): number[] {
+  return getEncoder(model).encode(text, [], []);
+}
+
+/**
+ * Count the tokens in a text for a model
+ */
+export function countTokens(text: string, model = LLM_MODEL): number {
+  return text ? encode(text, model).length : 0;
+}
+
+/**
+ * Cut a text down to at most `maxTokens` tokens, marking the cut with "..."
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  model = LLM_MODEL
+): string {
+  const tokens = encode(text, model);
+
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+
+  if (maxTokens <= 1) {
+    return "";
+  }
+
+  return `${getEncoder(model).decode(tokens.slice(0, maxTokens - 1))}...`;
+}
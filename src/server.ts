@@ -1,20 +1,17 @@
-// Import the StateGraph for version checking
-import { StateGraph } from "@langchain/langgraph";
+import { createAdvancedConversationGraph } from "./graphs/conversation-graph";
 import { createLogger } from "./utils/logger";
 
 // Create logger for server diagnostics
 const logger = createLogger("server");
 
-// Check LangGraph version
+// Print the conversation graph structure for debugging and documentation
 try {
+  const graph = createAdvancedConversationGraph({ checkpointer: false });
+
   logger.info(
-    {
-      stateGraphType: typeof StateGraph,
-      hasCompileMethod: typeof StateGraph.prototype?.compile === "function",
-      stateGraphProperties: Object.getOwnPropertyNames(StateGraph.prototype),
-    },
-    "LangGraph StateGraph information"
+    { mermaid: graph.getGraph().drawMermaid() },
+    "LangGraph conversation graph"
   );
 } catch (error) {
-  logger.error({ error }, "Error checking StateGraph");
+  logger.error({ error }, "Error drawing conversation graph");
 }
@@ -0,0 +1,85 @@
+import {
+  cancelConversationActions,
+  createAction,
+  deleteConversationActions,
+  getConversationActions,
+} from "./action-store";
+import { MemoryStorageAdapter } from "./memory-storage";
+import { QueryPageOptions, setStorageAdapter } from "./storage-adapter";
+import { ActionStatus, ActionType } from "../config/constants";
+
+/**
+ * Memory storage returning two items per query page, the way DynamoDB
+ * splits results larger than 1 MB
+ */
+class PagedMemoryStorage extends MemoryStorageAdapter {
+  queryItemsPage<T>(
+    tableName: string,
+    keyConditionExpression: string,
+    expressionAttributeNames: Record<string, string>,
+    expressionAttributeValues: Record<string, any>,
+    options: QueryPageOptions = {}
+  ) {
+    return super.queryItemsPage<T>(
+      tableName,
+      keyConditionExpression,
+      expressionAttributeNames,
+      expressionAttributeValues,
+      { ...options, limit: 2 }
+    );
+  }
+}
+
+/**
+ * Create actions for a conversation in the given statuses
+ */
+function createActions(conversationId: string, statuses: ActionStatus[]) {
+  return Promise.all(
+    statuses.map((status) =>
+      createAction(
+        { conversationId, type: ActionType.TAKE_NOTE, data: {} },
+        status
+      )
+    )
+  );
+}
+
+describe("conversation action cascade", () => {
+  beforeEach(() => {
+    setStorageAdapter(new PagedMemoryStorage());
+  });
+
+  it("deletes actions on every page of the query", async () => {
+    await createActions("conv-1", Array(5).fill(ActionStatus.COMPLETED));
+    await createActions("conv-2", [ActionStatus.PENDING]);
+
+    expect(await deleteConversationActions("conv-1")).toBe(5);
+    expect(await getConversationActions("conv-1")).toEqual([]);
+    expect(await getConversationActions("conv-2")).toHaveLength(1);
+  });
+
+  it("cancels only actions that have not run, on every page", async () => {
+    await createActions("conv-1", [
+      ActionStatus.PENDING,
+      ActionStatus.COMPLETED,
+      ActionStatus.AWAITING_APPROVAL,
+      ActionStatus.FAILED,
+      ActionStatus.PENDING,
+    ]);
+
+    expect(await cancelConversationActions("conv-1", "Deleted")).toBe(3);
+
+    const statuses = (await getConversationActions("conv-1")).map(
+      (action) => action.status
+    );
+    expect(statuses.sort()).toEqual(
+      [
+        ActionStatus.CANCELLED,
+        ActionStatus.CANCELLED,
+        ActionStatus.CANCELLED,
+        ActionStatus.COMPLETED,
+        ActionStatus.FAILED,
+      ].sort()
+    );
+  });
+});
@@ -12,7 +12,8 @@ import {
   updateItem,
   queryItems,
   scanItems,
-} from "./dynamo-client";
+  deleteItem,
+} from "./storage-adapter";
 import { createLogger } from "../utils/logger";
 
 const logger = createLogger("action-store");
@@ -22,7 +23,8 @@ const TABLE_NAME = DB_TABLES.ACTION_QUEUE;
  * Create a new action and store it in DynamoDB
  */
 export async function createAction(
-  input: CreateActionInput
+  input: CreateActionInput,
+  status: ActionStatus = ActionStatus.PENDING
 ): Promise<BaseAction> {
   logger.debug(
     { type: input.type, conversationId: input.conversationId },
@@ -35,7 +37,7 @@ export async function createAction(
 
     const action: BaseAction = {
       id: actionId,
-      status: ActionStatus.PENDING,
+      status,
       createdAt: now,
       updatedAt: now,
       ...input,
@@ -204,3 +206,74 @@ export async function markActionFailed(
     error,
   });
 }
+
+/**
+ * Mark action as cancelled, with an optional reason
+ */
+export async function markActionCancelled(
+  actionId: string,
+  reason?: string
+): Promise<void> {
+  await updateActionStatus(actionId, {
+    status: ActionStatus.CANCELLED,
+    error: reason,
+  });
+}
+
+/**
+ * Delete an action
+ */
+export async function deleteAction(actionId: string): Promise<void> {
+  logger.debug({ actionId }, "Deleting action");
+
+  try {
+    await deleteItem(TABLE_NAME, { id: actionId });
+  } catch (error) {
+    logger.error({ error, actionId }, "Failed to delete action");
+    throw new Error(`Failed to delete action: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Delete all actions for a conversation
+ * Returns the number of actions deleted
+ */
+export async function deleteConversationActions(
+  conversationId: string
+): Promise<number> {
+  const actions = await getConversationActions(conversationId);
+
+  await Promise.all(actions.map((action) => deleteAction(action.id)));
+
+  logger.debug(
+    { conversationId, count: actions.length },
+    "Deleted conversation actions"
+  );
+  return actions.length;
+}
+
+/**
+ * Cancel every action of a conversation that has not run yet
+ * Returns the number of actions cancelled
+ */
+export async function cancelConversationActions(
+  conversationId: string,
+  reason?: string
+): Promise<number> {
+  const actions = await getConversationActions(conversationId);
+  const cancellable = actions.filter(
+    (action) =>
+      action.status === ActionStatus.PENDING ||
+      action.status === ActionStatus.AWAITING_APPROVAL
+  );
+
+  await Promise.all(
+    cancellable.map((action) => markActionCancelled(action.id, reason))
+  );
+
+  logger.debug(
+    { conversationId, count: cancellable.length },
+    "Cancelled conversation actions"
+  );
+  return cancellable.length;
+}
@@ -0,0 +1,93 @@
+import { emptyCheckpoint } from "@langchain/langgraph-checkpoint";
+import { DynamoCheckpointSaver } from "./checkpoint-store";
+import { MemoryStorageAdapter } from "./memory-storage";
+import { setStorageAdapter } from "./storage-adapter";
+import { DB_TABLES } from "../config/constants";
+
+const config = (checkpointNs = "") => ({
+  configurable: { thread_id: "conv-1", checkpoint_ns: checkpointNs },
+});
+
+/**
+ * Create a checkpoint holding a message of the given size
+ */
+function createCheckpoint(size = 10) {
+  const checkpoint = emptyCheckpoint();
+  checkpoint.channel_values = { messages: "x".repeat(size) };
+  return checkpoint;
+}
+
+describe("DynamoCheckpointSaver", () => {
+  let storage: MemoryStorageAdapter;
+  let saver: DynamoCheckpointSaver;
+
+  const storedItems = () =>
+    storage.scanItems<Record<string, unknown>>(DB_TABLES.CONVERSATION_STATES);
+
+  beforeEach(() => {
+    storage = new MemoryStorageAdapter();
+    setStorageAdapter(storage);
+    saver = new DynamoCheckpointSaver();
+  });
+
+  it("splits checkpoints too large for one item into parts", async () => {
+    const checkpoint = createCheckpoint(1024 * 1024);
+
+    await saver.put(config(), checkpoint, {
+      source: "loop",
+      step: 1,
+      writes: null,
+      parents: {},
+    });
+
+    const items = await storedItems();
+    expect(items.length).toBeGreaterThan(3);
+    for (const item of items) {
+      expect(JSON.stringify(item).length).toBeLessThan(400 * 1024);
+    }
+
+    const tuple = await saver.getTuple(config());
+    expect(tuple?.checkpoint.channel_values).toEqual(checkpoint.channel_values);
+  });
+
+  it("keeps every checkpoint saved concurrently on a thread", async () => {
+    const checkpoints = Array.from({ length: 5 }, () => createCheckpoint());
+
+    await Promise.all(
+      checkpoints.map((checkpoint, step) =>
+        saver.put(config(), checkpoint, {
+          source: "loop",
+          step,
+          writes: null,
+          parents: {},
+        })
+      )
+    );
+
+    const listed = [];
+    for await (const tuple of saver.list(config())) {
+      listed.push(tuple.checkpoint.id);
+    }
+
+    expect(listed.sort()).toEqual(checkpoints.map(({ id }) => id).sort());
+  });
+
+  it("deletes a thread's checkpoints in every namespace", async () => {
+    for (const checkpointNs of ["", "subgraph"]) {
+      const saved = await saver.put(
+        config(checkpointNs),
+        createCheckpoint(64 * 1024),
+        { source: "loop", step: 1, writes: null, parents: {} }
+      );
+      await saver.putWrites(
+        saved,
+        [["messages", "y".repeat(64 * 1024)]],
+        "task-1"
+      );
+    }
+
+    await saver.deleteThread("conv-1");
+
+    expect(await storedItems()).toEqual([]);
+  });
+});
@@ -0,0 +1,735 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointListOptions,
+  CheckpointMetadata,
+  CheckpointPendingWrite,
+  CheckpointTuple,
+  PendingWrite,
+  SerializerProtocol,
+  TASKS,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+} from "@langchain/langgraph-checkpoint";
+import { CHECKPOINTS, DB_TABLES } from "../config/constants";
+import { CONVERSATION_TTL_DAYS } from "../config/env";
+import {
+  ConditionalWriteError,
+  deleteItem,
+  getItem,
+  putItem,
+  updateItem,
+} from "./storage-adapter";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("checkpoint-store");
+const TABLE_NAME = DB_TABLES.CONVERSATION_STATES;
+
+/**
+ * Index item listing the checkpoints saved for a thread and namespace
+ */
+interface StoredCheckpointIndex {
+  id: string;
+  checkpointIds: string[];
+  version?: number; // Incremented by every update, for conditional writes
+  ttl?: number;
+}
+
+/**
+ * Item listing the checkpoint namespaces used by a thread
+ */
+interface StoredThreadNamespaces {
+  id: string;
+  checkpointNs: string[];
+  ttl?: number;
+}
+
+/**
+ * A base64 encoded value, inline or split into `parts` part items when it
+ * is too large for one item
+ */
+interface StoredValue {
+  value?: string;
+  parts?: number;
+}
+
+/**
+ * A single serialized checkpoint
+ */
+interface StoredCheckpoint {
+  id: string;
+  threadId: string;
+  checkpointNs: string;
+  checkpointId: string;
+  parentCheckpointId?: string | null;
+  checkpointType: string;
+  checkpoint?: string; // base64 encoded
+  checkpointParts?: number;
+  metadataType: string;
+  metadata?: string; // base64 encoded
+  metadataParts?: number;
+  ttl?: number;
+}
+
+/**
+ * Intermediate writes recorded against a checkpoint
+ */
+interface StoredCheckpointWrite {
+  taskId: string;
+  channel: string;
+  idx: string;
+  type: string;
+  value?: string; // base64 encoded
+  valueParts?: number;
+}
+
+interface StoredCheckpointWrites {
+  id: string;
+  writes: StoredCheckpointWrite[];
+  ttl?: number;
+}
+
+/**
+ * Key helpers
+ *
+ * Checkpoints share the conversation-states table, so every key is prefixed
+ * to keep it apart from the conversation items keyed by conversation ID.
+ */
+function indexKey(threadId: string, checkpointNs: string) {
+  return `${CHECKPOINTS.KEY_PREFIX}#${threadId}#${checkpointNs}`;
+}
+
+function checkpointKey(
+  threadId: string,
+  checkpointNs: string,
+  checkpointId: string
+) {
+  return `${indexKey(threadId, checkpointNs)}#${checkpointId}`;
+}
+
+function writesKey(
+  threadId: string,
+  checkpointNs: string,
+  checkpointId: string
+) {
+  return `${CHECKPOINTS.WRITES_KEY_PREFIX}#${threadId}#${checkpointNs}#${checkpointId}`;
+}
+
+function namespacesKey(threadId: string) {
+  return `${CHECKPOINTS.NAMESPACES_KEY_PREFIX}#${threadId}`;
+}
+
+function partKey(key: string, index: number) {
+  return `${key}#part#${index}`;
+}
+
+function encode(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("base64");
+}
+
+function decode(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, "base64"));
+}
+
+function calculateTtl(): number {
+  return Math.floor(Date.now() / 1000) + CONVERSATION_TTL_DAYS * 86400;
+}
+
+/**
+ * Store a base64 value inline when it is at most `maxInlineSize` long,
+ * otherwise in part items under `key`
+ */
+async function putValue(
+  key: string,
+  value: string,
+  maxInlineSize: number,
+  ttl: number
+): Promise<StoredValue> {
+  if (value.length <= maxInlineSize) {
+    return { value };
+  }
+
+  const size = CHECKPOINTS.MAX_INLINE_SIZE;
+  const parts = Math.ceil(value.length / size);
+
+  for (let index = 0; index < parts; index++) {
+    await putItem(TABLE_NAME, {
+      id: partKey(key, index),
+      data: value.slice(index * size, (index + 1) * size),
+      ttl,
+    });
+  }
+
+  return { parts };
+}
+
+/**
+ * Load a value stored by putValue
+ */
+async function getValue(key: string, stored: StoredValue): Promise<string> {
+  if (!stored.parts) {
+    return stored.value ?? "";
+  }
+
+  const parts = await Promise.all(
+    Array.from({ length: stored.parts }, (_, index) =>
+      getItem<{ data: string }>(TABLE_NAME, { id: partKey(key, index) })
+    )
+  );
+
+  if (parts.some((part) => !part)) {
+    throw new Error(`Missing parts of ${key}`);
+  }
+
+  return parts.map((part) => part!.data).join("");
+}
+
+/**
+ * Delete the part items of a value stored by putValue
+ */
+async function deleteParts(key: string, parts = 0): Promise<void> {
+  for (let index = 0; index < parts; index++) {
+    await deleteItem(TABLE_NAME, { id: partKey(key, index) });
+  }
+}
+
+/**
+ * LangGraph checkpointer backed by the DynamoDB conversation-states table
+ *
+ * Each thread (conversation) keeps an item listing its namespaces, and each
+ * namespace an index item listing its checkpoint IDs, one item per checkpoint
+ * and one item per checkpoint's pending writes. Index updates are
+ * conditional on the index version, so concurrent turns never drop each
+ * other's checkpoints. Values too large for a DynamoDB item are split into
+ * part items. Only the most recent CHECKPOINTS.MAX_PER_THREAD checkpoints
+ * are kept.
+ */
+export class DynamoCheckpointSaver extends BaseCheckpointSaver {
+  constructor(serde?: SerializerProtocol) {
+    super(serde);
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+
+    if (!threadId) {
+      return undefined;
+    }
+
+    let checkpointId: string | undefined = getCheckpointId(config);
+
+    try {
+      if (!checkpointId) {
+        const index = await getItem<StoredCheckpointIndex>(TABLE_NAME, {
+          id: indexKey(threadId, checkpointNs),
+        });
+        checkpointId = index?.checkpointIds[index.checkpointIds.length - 1];
+      }
+
+      if (!checkpointId) {
+        return undefined;
+      }
+
+      const stored = await getItem<StoredCheckpoint>(TABLE_NAME, {
+        id: checkpointKey(threadId, checkpointNs, checkpointId),
+      });
+
+      if (!stored) {
+        return undefined;
+      }
+
+      return await this.toCheckpointTuple(stored);
+    } catch (error) {
+      logger.error(
+        { error, threadId, checkpointNs, checkpointId },
+        "Failed to get checkpoint"
+      );
+      throw new Error(`Failed to get checkpoint: ${(error as Error).message}`);
+    }
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options?: CheckpointListOptions
+  ): AsyncGenerator<CheckpointTuple> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const configCheckpointId = config.configurable?.checkpoint_id;
+    const { before, filter } = options ?? {};
+    let limit = options?.limit;
+
+    // Checkpoints are stored per thread, so listing across threads would
+    // require a full table scan
+    if (!threadId) {
+      logger.warn("Listing checkpoints requires a thread_id");
+      return;
+    }
+
+    const index = await getItem<StoredCheckpointIndex>(TABLE_NAME, {
+      id: indexKey(threadId, checkpointNs),
+    });
+
+    // Newest first
+    const checkpointIds = [...(index?.checkpointIds || [])].reverse();
+
+    for (const checkpointId of checkpointIds) {
+      if (configCheckpointId && checkpointId !== configCheckpointId) {
+        continue;
+      }
+
+      if (
+        before?.configurable?.checkpoint_id &&
+        checkpointId >= before.configurable.checkpoint_id
+      ) {
+        continue;
+      }
+
+      const stored = await getItem<StoredCheckpoint>(TABLE_NAME, {
+        id: checkpointKey(threadId, checkpointNs, checkpointId),
+      });
+
+      if (!stored) {
+        continue;
+      }
+
+      const tuple = await this.toCheckpointTuple(stored);
+
+      if (
+        filter &&
+        !Object.entries(filter).every(
+          ([key, value]) => (tuple.metadata as any)?.[key] === value
+        )
+      ) {
+        continue;
+      }
+
+      if (limit !== undefined) {
+        if (limit <= 0) break;
+        limit -= 1;
+      }
+
+      yield tuple;
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+
+    if (threadId === undefined) {
+      throw new Error(
+        `Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.`
+      );
+    }
+
+    logger.debug(
+      { threadId, checkpointNs, checkpointId: checkpoint.id },
+      "Saving checkpoint"
+    );
+
+    try {
+      const preparedCheckpoint: Partial<Checkpoint> =
+        copyCheckpoint(checkpoint);
+      delete preparedCheckpoint.pending_sends;
+
+      const [checkpointType, serializedCheckpoint] =
+        this.serde.dumpsTyped(preparedCheckpoint);
+      const [metadataType, serializedMetadata] =
+        this.serde.dumpsTyped(metadata);
+      const ttl = calculateTtl();
+      const key = checkpointKey(threadId, checkpointNs, checkpoint.id);
+
+      // Parts are written first, so a stored checkpoint is always complete
+      const storedCheckpoint = await putValue(
+        `${key}#checkpoint`,
+        encode(serializedCheckpoint),
+        CHECKPOINTS.MAX_INLINE_SIZE,
+        ttl
+      );
+      const storedMetadata = await putValue(
+        `${key}#metadata`,
+        encode(serializedMetadata),
+        CHECKPOINTS.MAX_INLINE_SIZE - (storedCheckpoint.value?.length ?? 0),
+        ttl
+      );
+
+      const stored: StoredCheckpoint = {
+        id: key,
+        threadId,
+        checkpointNs,
+        checkpointId: checkpoint.id,
+        parentCheckpointId: config.configurable?.checkpoint_id ?? null,
+        checkpointType,
+        checkpoint: storedCheckpoint.value,
+        checkpointParts: storedCheckpoint.parts,
+        metadataType,
+        metadata: storedMetadata.value,
+        metadataParts: storedMetadata.parts,
+        ttl,
+      };
+
+      await putItem(TABLE_NAME, stored);
+      await this.updateIndex(threadId, checkpointNs, checkpoint.id, ttl);
+
+      return {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: checkpoint.id,
+        },
+      };
+    } catch (error) {
+      logger.error(
+        { error, threadId, checkpointId: checkpoint.id },
+        "Failed to save checkpoint"
+      );
+      throw new Error(`Failed to save checkpoint: ${(error as Error).message}`);
+    }
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string
+  ): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error(
+        `Failed to put writes. The passed RunnableConfig is missing a required "thread_id" or "checkpoint_id" field in its "configurable" property.`
+      );
+    }
+
+    try {
+      const key = writesKey(threadId, checkpointNs, checkpointId);
+      const ttl = calculateTtl();
+      const storedWrites: StoredCheckpointWrite[] = [];
+
+      for (const [position, [channel, value]] of writes.entries()) {
+        const [type, serializedValue] = this.serde.dumpsTyped(value);
+        const idx = String(WRITES_IDX_MAP[channel] ?? position);
+        const stored = await putValue(
+          `${key}#${taskId}#${idx}`,
+          encode(serializedValue),
+          CHECKPOINTS.MAX_INLINE_WRITE_SIZE,
+          ttl
+        );
+
+        storedWrites.push({
+          taskId,
+          channel,
+          idx,
+          type,
+          value: stored.value,
+          valueParts: stored.parts,
+        });
+      }
+
+      // Append atomically since tasks in the same step write concurrently
+      await updateItem(
+        TABLE_NAME,
+        { id: key },
+        "SET #writes = list_append(if_not_exists(#writes, :empty), :writes), #ttl = :ttl",
+        { "#writes": "writes", "#ttl": "ttl" },
+        { ":empty": [], ":writes": storedWrites, ":ttl": ttl }
+      );
+    } catch (error) {
+      logger.error(
+        { error, threadId, checkpointId, taskId },
+        "Failed to save checkpoint writes"
+      );
+      throw new Error(
+        `Failed to save checkpoint writes: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Remove every checkpoint stored for a thread, in all its namespaces
+   */
+  async deleteThread(threadId: string): Promise<void> {
+    const namespaces = await getItem<StoredThreadNamespaces>(TABLE_NAME, {
+      id: namespacesKey(threadId),
+    });
+
+    // Threads checkpointed before namespaces were recorded only used ""
+    const checkpointNamespaces = new Set([
+      "",
+      ...(namespaces?.checkpointNs || []),
+    ]);
+
+    for (const checkpointNs of checkpointNamespaces) {
+      const index = await getItem<StoredCheckpointIndex>(TABLE_NAME, {
+        id: indexKey(threadId, checkpointNs),
+      });
+
+      for (const checkpointId of index?.checkpointIds || []) {
+        await this.deleteCheckpoint(threadId, checkpointNs, checkpointId);
+      }
+
+      await deleteItem(TABLE_NAME, { id: indexKey(threadId, checkpointNs) });
+    }
+
+    await deleteItem(TABLE_NAME, { id: namespacesKey(threadId) });
+  }
+
+  /**
+   * Record a checkpoint ID on the thread index and prune old checkpoints
+   *
+   * The index is replaced only if its version is unchanged since it was
+   * read; when another writer got there first, the update is retried on
+   * the new index.
+   */
+  private async updateIndex(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    ttl: number
+  ): Promise<void> {
+    const key = indexKey(threadId, checkpointNs);
+
+    for (let attempt = 1; ; attempt++) {
+      const index = await getItem<StoredCheckpointIndex>(TABLE_NAME, {
+        id: key,
+      });
+
+      // Checkpoint IDs are time-ordered UUIDs, so a string sort keeps them in order
+      const checkpointIds = Array.from(
+        new Set([...(index?.checkpointIds || []), checkpointId])
+      ).sort();
+
+      const pruned = checkpointIds.slice(
+        0,
+        Math.max(0, checkpointIds.length - CHECKPOINTS.MAX_PER_THREAD)
+      );
+      const retained = checkpointIds.slice(pruned.length);
+
+      try {
+        await putItem(
+          TABLE_NAME,
+          {
+            id: key,
+            checkpointIds: retained,
+            version: (index?.version ?? 0) + 1,
+            ttl,
+          },
+          index?.version === undefined
+            ? {
+                expression: "attribute_not_exists(#version)",
+                names: { "#version": "version" },
+              }
+            : {
+                expression: "#version = :version",
+                names: { "#version": "version" },
+                values: { ":version": index.version },
+              }
+        );
+      } catch (error) {
+        if (
+          error instanceof ConditionalWriteError &&
+          attempt < CHECKPOINTS.INDEX_WRITE_ATTEMPTS
+        ) {
+          logger.debug(
+            { threadId, attempt },
+            "Checkpoint index changed, retrying"
+          );
+          continue;
+        }
+        throw error;
+      }
+
+      if (!index) {
+        await this.recordNamespace(threadId, checkpointNs, ttl);
+      }
+
+      for (const prunedId of pruned) {
+        await this.deleteCheckpoint(threadId, checkpointNs, prunedId);
+      }
+
+      return;
+    }
+  }
+
+  /**
+   * Add a namespace to the thread's namespaces, on its first checkpoint
+   * Concurrent first checkpoints may add it twice; readers dedupe.
+   */
+  private async recordNamespace(
+    threadId: string,
+    checkpointNs: string,
+    ttl: number
+  ): Promise<void> {
+    await updateItem(
+      TABLE_NAME,
+      { id: namespacesKey(threadId) },
+      "SET #checkpointNs = list_append(if_not_exists(#checkpointNs, :empty), :checkpointNs), #ttl = :ttl",
+      { "#checkpointNs": "checkpointNs", "#ttl": "ttl" },
+      { ":empty": [], ":checkpointNs": [checkpointNs], ":ttl": ttl }
+    );
+  }
+
+  private async deleteCheckpoint(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<void> {
+    const key = checkpointKey(threadId, checkpointNs, checkpointId);
+    const stored = await getItem<StoredCheckpoint>(TABLE_NAME, { id: key });
+
+    await deleteItem(TABLE_NAME, { id: key });
+    await deleteParts(`${key}#checkpoint`, stored?.checkpointParts);
+    await deleteParts(`${key}#metadata`, stored?.metadataParts);
+
+    const writesId = writesKey(threadId, checkpointNs, checkpointId);
+    const writes = await getItem<StoredCheckpointWrites>(TABLE_NAME, {
+      id: writesId,
+    });
+
+    await deleteItem(TABLE_NAME, { id: writesId });
+    for (const write of writes?.writes || []) {
+      await deleteParts(
+        `${writesId}#${write.taskId}#${write.idx}`,
+        write.valueParts
+      );
+    }
+  }
+
+  /**
+   * Load the pending writes for a checkpoint, keeping the first write for
+   * regular channels and the latest one for special channels (errors,
+   * interrupts), mirroring the in-memory saver
+   */
+  private async loadWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<CheckpointPendingWrite[]> {
+    const key = writesKey(threadId, checkpointNs, checkpointId);
+    const stored = await getItem<StoredCheckpointWrites>(TABLE_NAME, {
+      id: key,
+    });
+
+    const writesByKey = new Map<string, StoredCheckpointWrite>();
+
+    for (const write of stored?.writes || []) {
+      const key = `${write.taskId},${write.idx}`;
+      if (Number(write.idx) >= 0 && writesByKey.has(key)) {
+        continue;
+      }
+      writesByKey.set(key, write);
+    }
+
+    return Promise.all(
+      Array.from(writesByKey.values()).map(
+        async (write): Promise<CheckpointPendingWrite> => [
+          write.taskId,
+          write.channel,
+          await this.serde.loadsTyped(
+            write.type,
+            decode(
+              await getValue(`${key}#${write.taskId}#${write.idx}`, {
+                value: write.value,
+                parts: write.valueParts,
+              })
+            )
+          ),
+        ]
+      )
+    );
+  }
+
+  private async toCheckpointTuple(
+    stored: StoredCheckpoint
+  ): Promise<CheckpointTuple> {
+    const { threadId, checkpointNs, checkpointId, parentCheckpointId } = stored;
+    const key = checkpointKey(threadId, checkpointNs, checkpointId);
+
+    const pendingWrites = await this.loadWrites(
+      threadId,
+      checkpointNs,
+      checkpointId
+    );
+
+    // Sends issued by the parent step are replayed into this checkpoint
+    let pendingSends: any[] = [];
+    if (parentCheckpointId) {
+      const parentWrites = await this.loadWrites(
+        threadId,
+        checkpointNs,
+        parentCheckpointId
+      );
+      pendingSends = parentWrites
+        .filter(([, channel]) => channel === TASKS)
+        .map(([, , value]) => value);
+    }
+
+    const checkpoint: Checkpoint = {
+      ...(await this.serde.loadsTyped(
+        stored.checkpointType,
+        decode(
+          await getValue(`${key}#checkpoint`, {
+            value: stored.checkpoint,
+            parts: stored.checkpointParts,
+          })
+        )
+      )),
+      pending_sends: pendingSends,
+    };
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: checkpointId,
+        },
+      },
+      checkpoint,
+      metadata: await this.serde.loadsTyped(
+        stored.metadataType,
+        decode(
+          await getValue(`${key}#metadata`, {
+            value: stored.metadata,
+            parts: stored.metadataParts,
+          })
+        )
+      ),
+      pendingWrites,
+    };
+
+    if (parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: parentCheckpointId,
+        },
+      };
+    }
+
+    return tuple;
+  }
+}
+
+// Checkpointer singleton
+let checkpointer: DynamoCheckpointSaver | null = null;
+
+/**
+ * Get the shared conversation checkpointer
+ */
+export function getCheckpointer(): DynamoCheckpointSaver {
+  if (!checkpointer) {
+    checkpointer = new DynamoCheckpointSaver();
+  }
+
+  return checkpointer;
+}
@@ -1,11 +1,23 @@
 import {
+  ContextChunk,
   ConversationState,
+  ConversationSummary,
   StoredConversationState,
 } from "../types/conversation";
 import { DB_TABLES } from "../config/constants";
 import { CONVERSATION_TTL_DAYS } from "../config/env";
-import { getItem, putItem, queryItems, deleteItem } from "./dynamo-client";
+import {
+  getItem,
+  putItem,
+  updateItem,
+  queryItems,
+  queryItemsPage,
+  deleteItem,
+  encodeCursor,
+  decodeCursor,
+} from "./storage-adapter";
 import { createLogger } from "../utils/logger";
+import { ErrorFactory } from "../utils/error-handler";
 import { v4 as uuidv4 } from "uuid";
 import {
   HumanMessage,
@@ -34,8 +46,10 @@ function serializeMessage(message: any) {
     }
 
     // Return a simplified object with just the necessary data
+    // The ID lets the graph's message reducer match stored messages
     return {
       type,
+      id: message.id,
       content,
       additional_kwargs: additionalKwargs,
     };
@@ -78,13 +92,19 @@ function reconstructMessages(messages: any[]) {
           additionalKwargs.timestamp = Date.now();
         }
 
+        const fields = {
+          content,
+          additional_kwargs: additionalKwargs,
+          id: msg.id,
+        };
+
         // Return the appropriate message type
         if (type === "human") {
-          return new HumanMessage(content, additionalKwargs);
+          return new HumanMessage(fields);
         } else if (type === "ai") {
-          return new AIMessage(content, additionalKwargs);
+          return new AIMessage(fields);
         } else if (type === "system") {
-          return new SystemMessage(content, additionalKwargs);
+          return new SystemMessage(fields);
         }
 
         // Default to human message if type is unknown
@@ -92,7 +112,7 @@ function reconstructMessages(messages: any[]) {
           { messageType: type },
           "Unknown message type, converting to HumanMessage"
         );
-        return new HumanMessage(content, additionalKwargs);
+        return new HumanMessage(fields);
       } catch (error) {
         logger.error({ error, message: msg }, "Error reconstructing message");
         return null;
@@ -101,23 +121,82 @@ function reconstructMessages(messages: any[]) {
     .filter(Boolean); // Remove any null values
 }
 
+/**
+ * States saved before context was structured hold plain strings
+ */
+function normalizeContextChunk(chunk: ContextChunk | string): ContextChunk {
+  return typeof chunk === "string" ? { content: chunk, metadata: {} } : chunk;
+}
+
 /**
  * Prepare a state object for storage by properly serializing each field
  */
 function serializeState(state: ConversationState): any {
   return {
     conversationId: state.conversationId,
+    ...(state.tenantId ? { tenantId: state.tenantId } : {}),
+    ...(state.userId ? { userId: state.userId } : {}),
     messages: state.messages.map(serializeMessage),
     context: state.context || [],
     pending_actions: state.pending_actions || [],
+    draft_action: state.draft_action || null,
+    summary: state.summary || null,
+    generationSettings: state.generationSettings || null,
+  };
+}
+
+// Lengths of the summary fields stored with each conversation
+const TITLE_LENGTH = 80;
+const PREVIEW_LENGTH = 120;
+
+/**
+ * Shorten text to a maximum length for summaries
+ */
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxLength
+    ? `${singleLine.slice(0, maxLength - 3)}...`
+    : singleLine;
+}
+
+/**
+ * Build the summary fields stored alongside the state, so listings do not
+ * need to parse every conversation
+ */
+function summarizeState(state: ConversationState) {
+  const firstHumanMessage = state.messages.find(
+    (message) =>
+      typeof message._getType === "function" && message._getType() === "human"
+  );
+  const lastMessage = state.messages[state.messages.length - 1];
+
+  return {
+    title: truncate(
+      firstHumanMessage?.content?.toString() || "New conversation",
+      TITLE_LENGTH
+    ),
+    lastMessagePreview: truncate(
+      lastMessage?.content?.toString() || "",
+      PREVIEW_LENGTH
+    ),
+    messageCount: state.messages.length,
+    actionCount: state.pending_actions.length,
   };
 }
 
+/**
+ * Options for saving conversation state
+ */
+export interface SaveConversationOptions {
+  userId?: string; // Owner, indexed by userId-index; defaults to state.userId
+}
+
 /**
  * Save conversation state to DynamoDB
  */
 export async function saveConversationState(
-  state: ConversationState
+  state: ConversationState,
+  options: SaveConversationOptions = {}
 ): Promise<void> {
   logger.debug(
     {
@@ -131,6 +210,10 @@ export async function saveConversationState(
     // Calculate TTL (days from now)
     const ttl = Math.floor(Date.now() / 1000) + CONVERSATION_TTL_DAYS * 86400;
 
+    // Saves that don't name the owner keep the one in the state, so the
+    // conversation stays listed for its user
+    const userId = options.userId ?? state.userId;
+
     // Properly serialize the state to handle LangChain message objects
     const serializedState = serializeState(state);
 
@@ -139,6 +222,9 @@ export async function saveConversationState(
       state: JSON.stringify(serializedState),
       lastUpdated: new Date().toISOString(),
       ttl,
+      ...(userId ? { userId } : {}),
+      ...(state.tenantId ? { tenantId: state.tenantId } : {}),
+      ...summarizeState(state),
     };
 
     await putItem(TABLE_NAME, storedState);
@@ -181,6 +267,11 @@ export async function loadConversationState(
       return null;
     }
 
+    if (storedState.deletedAt) {
+      logger.debug({ conversationId }, "Conversation state is soft-deleted");
+      return null;
+    }
+
     try {
       // Parse the stored state
       const serializedState = JSON.parse(storedState.state);
@@ -188,9 +279,16 @@ export async function loadConversationState(
       // Reconstruct full state with proper message objects
       const parsedState: ConversationState = {
         conversationId: serializedState.conversationId || conversationId,
+        ...(serializedState.tenantId
+          ? { tenantId: serializedState.tenantId }
+          : {}),
+        ...(serializedState.userId ? { userId: serializedState.userId } : {}),
         messages: reconstructMessages(serializedState.messages || []),
-        context: serializedState.context || [],
+        context: (serializedState.context || []).map(normalizeContextChunk),
         pending_actions: serializedState.pending_actions || [],
+        draft_action: serializedState.draft_action || null,
+        summary: serializedState.summary || null,
+        generationSettings: serializedState.generationSettings || null,
       };
 
       // Log message types for debugging
@@ -261,6 +359,9 @@ export async function getOrCreateConversationState(
     messages: [],
     context: [],
     pending_actions: [],
+    draft_action: null,
+    summary: null,
+    generationSettings: null,
   };
 }
 
@@ -286,6 +387,88 @@ export async function deleteConversationState(
   }
 }
 
+/**
+ * Get the stored conversation record, including soft-deleted ones
+ */
+export async function getStoredConversationState(
+  conversationId: string
+): Promise<StoredConversationState | null> {
+  try {
+    return await getItem<StoredConversationState>(TABLE_NAME, {
+      id: conversationId,
+    });
+  } catch (error) {
+    logger.error(
+      { error, conversationId },
+      "Failed to get stored conversation state"
+    );
+    throw new Error(
+      `Failed to get stored conversation state: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Soft-delete a conversation state
+ * The record is kept, and hidden from loads, until restored or it expires
+ */
+export async function softDeleteConversationState(
+  conversationId: string
+): Promise<void> {
+  logger.debug({ conversationId }, "Soft-deleting conversation state");
+
+  try {
+    await updateItem(
+      TABLE_NAME,
+      { id: conversationId },
+      "SET #deletedAt = :deletedAt",
+      { "#deletedAt": "deletedAt" },
+      { ":deletedAt": new Date().toISOString() }
+    );
+  } catch (error) {
+    logger.error(
+      { error, conversationId },
+      "Failed to soft-delete conversation state"
+    );
+    throw new Error(
+      `Failed to soft-delete conversation state: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Restore a soft-deleted conversation state
+ */
+export async function restoreConversationState(
+  conversationId: string
+): Promise<void> {
+  logger.debug({ conversationId }, "Restoring conversation state");
+
+  try {
+    const storedState = await getStoredConversationState(conversationId);
+
+    if (!storedState) {
+      throw new Error("Conversation state not found");
+    }
+
+    const restoredState = { ...storedState };
+    delete restoredState.deletedAt;
+
+    await putItem(TABLE_NAME, {
+      ...restoredState,
+      lastUpdated: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error(
+      { error, conversationId },
+      "Failed to restore conversation state"
+    );
+    throw new Error(
+      `Failed to restore conversation state: ${(error as Error).message}`
+    );
+  }
+}
+
 /**
  * Get all conversation states for a user
  */
@@ -316,3 +499,79 @@ export async function getUserConversations(
     );
   }
 }
+
+/**
+ * A page of conversation summaries
+ */
+export interface ConversationSummaryPage {
+  conversations: ConversationSummary[];
+  nextCursor?: string;
+}
+
+/**
+ * List a user's conversations in a tenant, most recently updated first
+ *
+ * Requires the userId-index GSI (partition key userId, sort key lastUpdated).
+ * Soft-deleted conversations and those of other tenants are skipped; without
+ * a tenant only untenanted conversations are listed. The cursor is the
+ * encoded LastEvaluatedKey of the previous page; throws on a malformed cursor.
+ */
+export async function listUserConversations(
+  userId: string,
+  tenantId: string | undefined,
+  limit: number,
+  cursor?: string
+): Promise<ConversationSummaryPage> {
+  logger.debug({ userId, tenantId, limit }, "Listing user conversations");
+
+  const exclusiveStartKey = cursor ? decodeCursor(cursor) : undefined;
+
+  if (exclusiveStartKey === null) {
+    throw ErrorFactory.badRequest("Invalid cursor");
+  }
+
+  try {
+    const page = await queryItemsPage<StoredConversationState>(
+      TABLE_NAME,
+      "userId = :userId",
+      {},
+      { ":userId": userId, ...(tenantId ? { ":tenantId": tenantId } : {}) },
+      {
+        indexName: "userId-index",
+        limit,
+        exclusiveStartKey,
+        filterExpression: `attribute_not_exists(deletedAt) AND ${
+          tenantId ? "tenantId = :tenantId" : "attribute_not_exists(tenantId)"
+        }`,
+        scanIndexForward: false,
+      }
+    );
+
+    // Numbers are unmarshalled as wrapped values, so convert explicitly
+    const conversations = page.items.map((item) => ({
+      conversationId: item.id,
+      title: item.title || "New conversation",
+      lastMessagePreview: item.lastMessagePreview || "",
+      lastUpdated: item.lastUpdated,
+      messageCount: Number(item.messageCount ?? 0),
+      actionCount: Number(item.actionCount ?? 0),
+    }));
+
+    logger.debug(
+      { userId, count: conversations.length },
+      "Listed user conversations"
+    );
+
+    return {
+      conversations,
+      nextCursor: page.lastEvaluatedKey
+        ? encodeCursor(page.lastEvaluatedKey)
+        : undefined,
+    };
+  } catch (error) {
+    logger.error({ error, userId }, "Failed to list user conversations");
+    throw new Error(
+      `Failed to list user conversations: ${(error as Error).message}`
+    );
+  }
+}
@@ -10,6 +10,13 @@ import {
 } from "@aws-sdk/lib-dynamodb";
 import { AWS_REGION } from "../config/env";
 import { createLogger } from "../utils/logger";
+import { ConditionalWriteError } from "./storage-errors";
+import type {
+  QueryPage,
+  QueryPageOptions,
+  StorageAdapter,
+  WriteCondition,
+} from "./storage-adapter";
 
 const logger = createLogger("dynamodb");
 
@@ -92,7 +99,8 @@ export async function getItem<T>(
  */
 export async function putItem(
   tableName: string,
-  item: Record<string, any>
+  item: Record<string, any>,
+  condition?: WriteCondition
 ): Promise<void> {
   const client = initDynamoClient();
 
@@ -100,10 +108,17 @@ export async function putItem(
     const command = new PutCommand({
       TableName: tableName,
       Item: item,
+      ConditionExpression: condition?.expression,
+      ExpressionAttributeNames: condition?.names,
+      ExpressionAttributeValues: condition?.values,
     });
 
     await client.send(command);
   } catch (error) {
+    if ((error as Error).name === "ConditionalCheckFailedException") {
+      throw new ConditionalWriteError(tableName);
+    }
+
     logger.error({ error, tableName }, "Failed to put item into DynamoDB");
     throw new Error(
       `Failed to put item into DynamoDB: ${(error as Error).message}`
@@ -176,6 +191,47 @@ export async function queryItems<T>(
   }
 }
 
+/**
+ * Query a single page of items from DynamoDB
+ */
+export async function queryItemsPage<T>(
+  tableName: string,
+  keyConditionExpression: string,
+  expressionAttributeNames: Record<string, string>,
+  expressionAttributeValues: Record<string, any>,
+  options: QueryPageOptions = {}
+): Promise<QueryPage<T>> {
+  const client = initDynamoClient();
+
+  try {
+    const command = new QueryCommand({
+      TableName: tableName,
+      IndexName: options.indexName,
+      KeyConditionExpression: keyConditionExpression,
+      FilterExpression: options.filterExpression,
+      ExpressionAttributeNames: Object.keys(expressionAttributeNames).length
+        ? expressionAttributeNames
+        : undefined,
+      ExpressionAttributeValues: expressionAttributeValues,
+      Limit: options.limit,
+      ExclusiveStartKey: options.exclusiveStartKey,
+      ScanIndexForward: options.scanIndexForward,
+    });
+
+    const response = await client.send(command);
+
+    return {
+      items: (response.Items || []) as T[],
+      lastEvaluatedKey: response.LastEvaluatedKey,
+    };
+  } catch (error) {
+    logger.error({ error, tableName }, "Failed to query page from DynamoDB");
+    throw new Error(
+      `Failed to query page from DynamoDB: ${(error as Error).message}`
+    );
+  }
+}
+
 /**
  * Delete an item from DynamoDB
  */
@@ -257,3 +313,17 @@ export async function pingDynamoDB(): Promise<boolean> {
     return false;
   }
 }
+
+/**
+ * DynamoDB storage adapter
+ */
+export const dynamoStorageAdapter: StorageAdapter = {
+  name: "dynamodb",
+  getItem,
+  putItem,
+  updateItem,
+  queryItemsPage,
+  deleteItem,
+  scanItems,
+  ping: pingDynamoDB,
+};
@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createLogger } from "../utils/logger";
+import { MemoryStorageAdapter } from "./memory-storage";
+
+const logger = createLogger("file-storage");
+
+/**
+ * JSON file storage adapter
+ *
+ * Keeps each table in memory and writes it to `<directory>/<table>.json`
+ * after every change, so data survives restarts without AWS.
+ * Intended for a single process; concurrent writers would overwrite each
+ * other.
+ */
+export class FileStorageAdapter extends MemoryStorageAdapter {
+  readonly name: string = "file";
+  private loading = new Map<string, Promise<Map<string, any>>>();
+  private writing = new Map<string, Promise<void>>();
+
+  constructor(private directory: string) {
+    super();
+  }
+
+  private tablePath(tableName: string): string {
+    return path.join(this.directory, `${tableName}.json`);
+  }
+
+  /**
+   * Load a table from disk on first use
+   */
+  protected async getTable(tableName: string): Promise<Map<string, any>> {
+    let loading = this.loading.get(tableName);
+
+    if (!loading) {
+      loading = this.loadTable(tableName);
+      this.loading.set(tableName, loading);
+    }
+
+    return loading;
+  }
+
+  private async loadTable(tableName: string): Promise<Map<string, any>> {
+    const table = new Map<string, any>();
+
+    try {
+      const contents = await fs.readFile(this.tablePath(tableName), "utf8");
+      for (const [id, item] of Object.entries(JSON.parse(contents))) {
+        table.set(id, item);
+      }
+      logger.debug({ tableName, count: table.size }, "Loaded table from disk");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error({ error, tableName }, "Failed to load table from disk");
+        throw new Error(
+          `Failed to load table ${tableName}: ${(error as Error).message}`
+        );
+      }
+    }
+
+    this.tables.set(tableName, table);
+    return table;
+  }
+
+  /**
+   * Write the table to disk, serializing writes per table
+   * The file is replaced atomically so a crash never leaves it half-written
+   */
+  protected async onTableChanged(tableName: string): Promise<void> {
+    const previous = this.writing.get(tableName) ?? Promise.resolve();
+
+    const write = previous.then(async () => {
+      const table = await this.getTable(tableName);
+      const filePath = this.tablePath(tableName);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(
+        tempPath,
+        JSON.stringify(Object.fromEntries(table), null, 2)
+      );
+      await fs.rename(tempPath, filePath);
+    });
+
+    // Keep the chain alive after a failed write
+    this.writing.set(
+      tableName,
+      write.catch(() => undefined)
+    );
+
+    try {
+      await write;
+    } catch (error) {
+      logger.error({ error, tableName }, "Failed to write table to disk");
+      throw new Error(
+        `Failed to write table ${tableName}: ${(error as Error).message}`
+      );
+    }
+  }
+}
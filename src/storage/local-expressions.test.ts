@@ -0,0 +1,89 @@
+import { applyUpdate, matchesCondition } from "./local-expressions";
+
+describe("matchesCondition", () => {
+  const item = { id: "1", status: "pending", count: 3, name: "report-q1" };
+
+  it("evaluates comparisons joined with AND", () => {
+    const values = { ":status": "pending", ":count": 2 };
+
+    expect(
+      matchesCondition(
+        item,
+        "#s = :status AND count > :count",
+        { "#s": "status" },
+        values
+      )
+    ).toBe(true);
+    expect(
+      matchesCondition(
+        item,
+        "#s <> :status AND count > :count",
+        { "#s": "status" },
+        values
+      )
+    ).toBe(false);
+  });
+
+  it("evaluates functions", () => {
+    expect(
+      matchesCondition(
+        item,
+        "begins_with(name, :prefix)",
+        {},
+        { ":prefix": "report" }
+      )
+    ).toBe(true);
+    expect(matchesCondition(item, "attribute_exists(status)")).toBe(true);
+    expect(matchesCondition(item, "attribute_not_exists(deletedAt)")).toBe(
+      true
+    );
+  });
+
+  it("treats a missing attribute as unequal", () => {
+    expect(matchesCondition(item, "deletedAt = :v", {}, { ":v": 1 })).toBe(
+      false
+    );
+    expect(matchesCondition(item, "deletedAt <> :v", {}, { ":v": 1 })).toBe(
+      true
+    );
+  });
+
+  it("rejects unknown placeholders", () => {
+    expect(() =>
+      matchesCondition(item, "#missing = :v", {}, { ":v": 1 })
+    ).toThrow("Unknown expression attribute name: #missing");
+  });
+});
+
+describe("applyUpdate", () => {
+  it("sets and removes attributes without changing the input", () => {
+    const item = { id: "1", status: "pending", error: "timeout" };
+
+    const updated = applyUpdate(
+      item,
+      "SET #s = :status, updatedAt = :now REMOVE error",
+      { "#s": "status" },
+      { ":status": "completed", ":now": 10 }
+    );
+
+    expect(updated).toEqual({ id: "1", status: "completed", updatedAt: 10 });
+    expect(item.status).toBe("pending");
+  });
+
+  it("appends to lists that may not exist yet", () => {
+    const expression =
+      "SET items = list_append(if_not_exists(items, :empty), :new)";
+    const values = { ":empty": [], ":new": ["b"] };
+
+    const created = applyUpdate({ id: "1" }, expression, {}, values);
+    const appended = applyUpdate(
+      created,
+      expression,
+      {},
+      { ...values, ":new": ["c"] }
+    );
+
+    expect(created.items).toEqual(["b"]);
+    expect(appended.items).toEqual(["b", "c"]);
+  });
+});
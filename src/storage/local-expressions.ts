@@ -0,0 +1,258 @@
+/**
+ * Evaluation of the DynamoDB expression subset used by the stores, for the
+ * local storage backends
+ *
+ * Supported:
+ * - conditions joined with AND: `a = :v` (also <>, <, <=, >, >=),
+ *   `begins_with(a, :v)`, `attribute_exists(a)`, `attribute_not_exists(a)`
+ * - updates: `SET a = :v, b = list_append(if_not_exists(b, :empty), :v)`
+ *   and `REMOVE a, b`
+ * Attribute names may be `#name` placeholders.
+ */
+
+type Item = Record<string, any>;
+
+const COMPARISON = /^(\S+)\s*(=|<>|<=|>=|<|>)\s*(\S+)$/;
+const FUNCTION_CALL = /^(\w+)\s*\((.*)\)$/;
+
+/**
+ * Split on a separator that is not nested inside parentheses
+ */
+function splitTopLevel(expression: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+
+    if (depth === 0) {
+      const match = separator.exec(expression.slice(index));
+      if (match && match.index === 0) {
+        parts.push(current.trim());
+        current = "";
+        index += match[0].length;
+        continue;
+      }
+    }
+
+    current += char;
+    index++;
+  }
+
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+
+  return parts;
+}
+
+/**
+ * Resolve a `#name` placeholder to the attribute name
+ */
+function resolveName(token: string, names: Record<string, string> = {}) {
+  const name = token.trim();
+
+  if (name.startsWith("#")) {
+    if (!(name in names)) {
+      throw new Error(`Unknown expression attribute name: ${name}`);
+    }
+    return names[name];
+  }
+
+  return name;
+}
+
+/**
+ * Resolve a `:value` placeholder
+ */
+function resolveValue(token: string, values: Record<string, any> = {}) {
+  const value = token.trim();
+
+  if (!(value in values)) {
+    throw new Error(`Unknown expression attribute value: ${value}`);
+  }
+
+  return values[value];
+}
+
+/**
+ * Compare two attribute values the way DynamoDB orders them
+ */
+export function compareValues(left: any, right: any): number {
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+
+  return String(left).localeCompare(String(right));
+}
+
+/**
+ * Evaluate a single condition clause against an item
+ */
+function evaluateClause(
+  item: Item,
+  clause: string,
+  names?: Record<string, string>,
+  values?: Record<string, any>
+): boolean {
+  const call = FUNCTION_CALL.exec(clause);
+
+  if (call) {
+    const [, fn, rawArgs] = call;
+    const args = splitTopLevel(rawArgs, /^,/);
+
+    switch (fn) {
+      case "attribute_exists":
+        return item[resolveName(args[0], names)] !== undefined;
+      case "attribute_not_exists":
+        return item[resolveName(args[0], names)] === undefined;
+      case "begins_with": {
+        const attribute = item[resolveName(args[0], names)];
+        return (
+          typeof attribute === "string" &&
+          attribute.startsWith(resolveValue(args[1], values))
+        );
+      }
+      default:
+        throw new Error(`Unsupported condition function: ${fn}`);
+    }
+  }
+
+  const comparison = COMPARISON.exec(clause);
+
+  if (!comparison) {
+    throw new Error(`Unsupported condition: ${clause}`);
+  }
+
+  const [, rawName, operator, rawValue] = comparison;
+  const attribute = item[resolveName(rawName, names)];
+  const value = resolveValue(rawValue, values);
+
+  if (attribute === undefined) {
+    return operator === "<>";
+  }
+
+  const order = compareValues(attribute, value);
+
+  switch (operator) {
+    case "=":
+      return JSON.stringify(attribute) === JSON.stringify(value);
+    case "<>":
+      return JSON.stringify(attribute) !== JSON.stringify(value);
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
+
+/**
+ * Evaluate a key condition or filter expression against an item
+ */
+export function matchesCondition(
+  item: Item,
+  expression: string | undefined,
+  names?: Record<string, string>,
+  values?: Record<string, any>
+): boolean {
+  if (!expression) {
+    return true;
+  }
+
+  return splitTopLevel(expression, /^\s+AND\s+/i).every((clause) =>
+    evaluateClause(item, clause, names, values)
+  );
+}
+
+/**
+ * Evaluate the right-hand side of a SET assignment
+ */
+function evaluateOperand(
+  item: Item,
+  operand: string,
+  names?: Record<string, string>,
+  values?: Record<string, any>
+): any {
+  const trimmed = operand.trim();
+  const call = FUNCTION_CALL.exec(trimmed);
+
+  if (call) {
+    const [, fn, rawArgs] = call;
+    const args = splitTopLevel(rawArgs, /^,/);
+
+    switch (fn) {
+      case "if_not_exists": {
+        const current = item[resolveName(args[0], names)];
+        return current !== undefined
+          ? current
+          : evaluateOperand(item, args[1], names, values);
+      }
+      case "list_append":
+        return [
+          ...evaluateOperand(item, args[0], names, values),
+          ...evaluateOperand(item, args[1], names, values),
+        ];
+      default:
+        throw new Error(`Unsupported update function: ${fn}`);
+    }
+  }
+
+  if (trimmed.startsWith(":")) {
+    return resolveValue(trimmed, values);
+  }
+
+  return item[resolveName(trimmed, names)];
+}
+
+/**
+ * Apply an update expression to an item, returning the updated item
+ */
+export function applyUpdate(
+  item: Item,
+  expression: string,
+  names?: Record<string, string>,
+  values?: Record<string, any>
+): Item {
+  const updated = { ...item };
+  const sections = expression
+    .split(/\b(SET|REMOVE)\b/i)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  for (let index = 0; index < sections.length; index += 2) {
+    const action = sections[index].toUpperCase();
+    const body = sections[index + 1] || "";
+
+    for (const part of splitTopLevel(body, /^,/)) {
+      if (action === "REMOVE") {
+        delete updated[resolveName(part, names)];
+        continue;
+      }
+
+      if (action !== "SET") {
+        throw new Error(`Unsupported update action: ${action}`);
+      }
+
+      const separator = part.indexOf("=");
+      const name = resolveName(part.slice(0, separator), names);
+      // Operands read the item as it was before this update
+      updated[name] = evaluateOperand(
+        item,
+        part.slice(separator + 1),
+        names,
+        values
+      );
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,73 @@
+import { MemoryStorageAdapter } from "./memory-storage";
+import { DB_TABLES } from "../config/constants";
+
+const TABLE = DB_TABLES.CONVERSATION_STATES;
+
+/**
+ * Query a user's items through the userId index, newest first
+ */
+function queryPage(
+  storage: MemoryStorageAdapter,
+  exclusiveStartKey?: Record<string, any>
+) {
+  return storage.queryItemsPage<{ id: string }>(
+    TABLE,
+    "userId = :userId",
+    {},
+    { ":userId": "user-1" },
+    {
+      indexName: "userId-index",
+      scanIndexForward: false,
+      limit: 2,
+      exclusiveStartKey,
+    }
+  );
+}
+
+describe("MemoryStorageAdapter queries", () => {
+  let storage: MemoryStorageAdapter;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageAdapter();
+    for (const [id, lastUpdated] of [
+      ["a", 1],
+      ["b", 2],
+      ["c", 3],
+      ["d", 3],
+      ["e", 5],
+    ] as const) {
+      await storage.putItem(TABLE, { id, userId: "user-1", lastUpdated });
+    }
+  });
+
+  it("pages in index order, breaking sort key ties by id", async () => {
+    const first = await queryPage(storage);
+    const second = await queryPage(storage, first.lastEvaluatedKey);
+    const third = await queryPage(storage, second.lastEvaluatedKey);
+
+    expect(first.items.map((item) => item.id)).toEqual(["e", "d"]);
+    expect(second.items.map((item) => item.id)).toEqual(["c", "b"]);
+    expect(third.items.map((item) => item.id)).toEqual(["a"]);
+    expect(third.lastEvaluatedKey).toBeUndefined();
+  });
+
+  it("resumes after a cursor whose item was deleted", async () => {
+    const first = await queryPage(storage);
+    await storage.deleteItem(TABLE, { id: "d" });
+
+    const second = await queryPage(storage, first.lastEvaluatedKey);
+
+    expect(second.items.map((item) => item.id)).toEqual(["c", "b"]);
+  });
+
+  it("returns nothing after a cursor past the last item", async () => {
+    const page = await queryPage(storage, {
+      id: "0",
+      userId: "user-1",
+      lastUpdated: 0,
+    });
+
+    expect(page.items).toEqual([]);
+    expect(page.lastEvaluatedKey).toBeUndefined();
+  });
+});
@@ -0,0 +1,272 @@
+import {
+  DB_INDEXES,
+  DB_PRIMARY_KEY,
+  DB_TTL_ATTRIBUTE,
+} from "../config/constants";
+import { createLogger } from "../utils/logger";
+import {
+  applyUpdate,
+  compareValues,
+  matchesCondition,
+} from "./local-expressions";
+import { ConditionalWriteError } from "./storage-errors";
+import type {
+  QueryPage,
+  QueryPageOptions,
+  StorageAdapter,
+  WriteCondition,
+} from "./storage-adapter";
+
+const logger = createLogger("memory-storage");
+
+type Item = Record<string, any>;
+
+/**
+ * In-memory storage adapter
+ *
+ * Emulates the DynamoDB behaviour the stores rely on: primary key lookups,
+ * conditional puts, the global secondary indexes in DB_INDEXES (sparse, sorted by sort key),
+ * Limit/LastEvaluatedKey pagination and TTL expiry. Items are copied on the
+ * way in and out so callers never share references with the store.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name: string = "memory";
+  protected tables = new Map<string, Map<string, Item>>();
+
+  /**
+   * Get a table's items, creating the table on first use
+   */
+  protected async getTable(tableName: string): Promise<Map<string, Item>> {
+    let table = this.tables.get(tableName);
+
+    if (!table) {
+      table = new Map();
+      this.tables.set(tableName, table);
+    }
+
+    return table;
+  }
+
+  /**
+   * Called after a table changes; file-backed storage persists here
+   */
+  protected onTableChanged?(tableName: string): Promise<void>;
+
+  /**
+   * Check whether an item's TTL has passed
+   */
+  private isExpired(item: Item): boolean {
+    const ttl = item[DB_TTL_ATTRIBUTE];
+    return ttl !== undefined && Number(ttl) <= Math.floor(Date.now() / 1000);
+  }
+
+  /**
+   * Get the live items of a table, removing expired ones
+   */
+  private async liveItems(tableName: string): Promise<Item[]> {
+    const table = await this.getTable(tableName);
+    const items: Item[] = [];
+    let expired = 0;
+
+    for (const [id, item] of table) {
+      if (this.isExpired(item)) {
+        table.delete(id);
+        expired++;
+      } else {
+        items.push(item);
+      }
+    }
+
+    if (expired > 0) {
+      logger.debug({ tableName, expired }, "Removed expired items");
+      await this.onTableChanged?.(tableName);
+    }
+
+    return items;
+  }
+
+  async getItem<T>(tableName: string, key: Item): Promise<T | null> {
+    const table = await this.getTable(tableName);
+    const item = table.get(key[DB_PRIMARY_KEY]);
+
+    if (!item || this.isExpired(item)) {
+      return null;
+    }
+
+    return structuredClone(item) as T;
+  }
+
+  async putItem(
+    tableName: string,
+    item: Item,
+    condition?: WriteCondition
+  ): Promise<void> {
+    const table = await this.getTable(tableName);
+
+    if (condition) {
+      const current = table.get(item[DB_PRIMARY_KEY]);
+      const existing = current && !this.isExpired(current) ? current : {};
+
+      if (
+        !matchesCondition(
+          existing,
+          condition.expression,
+          condition.names,
+          condition.values
+        )
+      ) {
+        throw new ConditionalWriteError(tableName);
+      }
+    }
+
+    table.set(item[DB_PRIMARY_KEY], structuredClone(item));
+    await this.onTableChanged?.(tableName);
+  }
+
+  async updateItem(
+    tableName: string,
+    key: Item,
+    updateExpression: string,
+    expressionAttributeNames: Record<string, string>,
+    expressionAttributeValues: Record<string, any>
+  ): Promise<void> {
+    const table = await this.getTable(tableName);
+    const current = table.get(key[DB_PRIMARY_KEY]);
+
+    // Like DynamoDB, updating a missing item creates it from the key
+    const base = current && !this.isExpired(current) ? current : { ...key };
+
+    table.set(
+      key[DB_PRIMARY_KEY],
+      structuredClone(
+        applyUpdate(
+          base,
+          updateExpression,
+          expressionAttributeNames,
+          expressionAttributeValues
+        )
+      )
+    );
+    await this.onTableChanged?.(tableName);
+  }
+
+  async queryItemsPage<T>(
+    tableName: string,
+    keyConditionExpression: string,
+    expressionAttributeNames: Record<string, string>,
+    expressionAttributeValues: Record<string, any>,
+    options: QueryPageOptions = {}
+  ): Promise<QueryPage<T>> {
+    const index = options.indexName
+      ? DB_INDEXES[tableName]?.[options.indexName]
+      : { partitionKey: DB_PRIMARY_KEY };
+
+    if (!index) {
+      throw new Error(
+        `The table does not have the specified index: ${options.indexName}`
+      );
+    }
+
+    // Secondary indexes are sparse: items without the key are not indexed
+    const keyAttributes = [index.partitionKey, index.sortKey].filter(
+      Boolean
+    ) as string[];
+
+    const compareKeys = (
+      left: Record<string, any>,
+      right: Record<string, any>
+    ) =>
+      (index.sortKey
+        ? compareValues(left[index.sortKey], right[index.sortKey])
+        : 0) || compareValues(left[DB_PRIMARY_KEY], right[DB_PRIMARY_KEY]);
+
+    const matching = (await this.liveItems(tableName))
+      .filter((item) =>
+        keyAttributes.every((attribute) => item[attribute] !== undefined)
+      )
+      .filter((item) =>
+        matchesCondition(
+          item,
+          keyConditionExpression,
+          expressionAttributeNames,
+          expressionAttributeValues
+        )
+      )
+      .sort(compareKeys);
+
+    if (options.scanIndexForward === false) {
+      matching.reverse();
+    }
+
+    // Resume after the cursor's key position, which still works when the
+    // last evaluated item has since been deleted
+    let start = 0;
+    const startKey = options.exclusiveStartKey;
+    if (startKey) {
+      const direction = options.scanIndexForward === false ? -1 : 1;
+      start = matching.findIndex(
+        (item) => compareKeys(item, startKey) * direction > 0
+      );
+      if (start === -1) {
+        start = matching.length;
+      }
+    }
+
+    // The limit applies before filtering, as in DynamoDB
+    const end = options.limit ? start + options.limit : matching.length;
+    const evaluated = matching.slice(start, end);
+    const lastItem = evaluated[evaluated.length - 1];
+
+    return {
+      items: evaluated
+        .filter((item) =>
+          matchesCondition(
+            item,
+            options.filterExpression,
+            expressionAttributeNames,
+            expressionAttributeValues
+          )
+        )
+        .map((item) => structuredClone(item) as T),
+      lastEvaluatedKey:
+        end < matching.length && lastItem
+          ? Object.fromEntries(
+              [DB_PRIMARY_KEY, ...keyAttributes].map((attribute) => [
+                attribute,
+                lastItem[attribute],
+              ])
+            )
+          : undefined,
+    };
+  }
+
+  async deleteItem(tableName: string, key: Item): Promise<void> {
+    const table = await this.getTable(tableName);
+
+    if (table.delete(key[DB_PRIMARY_KEY])) {
+      await this.onTableChanged?.(tableName);
+    }
+  }
+
+  async scanItems<T>(
+    tableName: string,
+    filterExpression?: string,
+    expressionAttributeNames?: Record<string, string>,
+    expressionAttributeValues?: Record<string, any>
+  ): Promise<T[]> {
+    return (await this.liveItems(tableName))
+      .filter((item) =>
+        matchesCondition(
+          item,
+          filterExpression,
+          expressionAttributeNames,
+          expressionAttributeValues
+        )
+      )
+      .map((item) => structuredClone(item) as T);
+  }
+
+  async ping(): Promise<boolean> {
+    return true;
+  }
+}
@@ -0,0 +1,263 @@
+import { STORAGE_BACKEND, STORAGE_FILE_DIR } from "../config/env";
+import { createLogger } from "../utils/logger";
+import { dynamoStorageAdapter } from "./dynamo-client";
+import { MemoryStorageAdapter } from "./memory-storage";
+import { FileStorageAdapter } from "./file-storage";
+
+export { ConditionalWriteError } from "./storage-errors";
+
+const logger = createLogger("storage-adapter");
+
+/**
+ * Options for a paginated query
+ */
+export interface QueryPageOptions {
+  indexName?: string;
+  limit?: number;
+  exclusiveStartKey?: Record<string, any>;
+  filterExpression?: string;
+  scanIndexForward?: boolean; // false for descending sort key order
+}
+
+/**
+ * Condition the current item must meet for a write to go through, where a
+ * missing item has no attributes
+ */
+export interface WriteCondition {
+  expression: string;
+  names?: Record<string, string>;
+  values?: Record<string, any>;
+}
+
+/**
+ * A page of query results with the key to continue from, if any
+ */
+export interface QueryPage<T> {
+  items: T[];
+  lastEvaluatedKey?: Record<string, any>;
+}
+
+/**
+ * Storage backend used by the stores
+ *
+ * Operations take DynamoDB-style key conditions, filter and update
+ * expressions; local backends evaluate the subset the stores use.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+
+  getItem<T>(tableName: string, key: Record<string, any>): Promise<T | null>;
+
+  putItem(
+    tableName: string,
+    item: Record<string, any>,
+    condition?: WriteCondition
+  ): Promise<void>;
+
+  updateItem(
+    tableName: string,
+    key: Record<string, any>,
+    updateExpression: string,
+    expressionAttributeNames: Record<string, string>,
+    expressionAttributeValues: Record<string, any>
+  ): Promise<void>;
+
+  queryItemsPage<T>(
+    tableName: string,
+    keyConditionExpression: string,
+    expressionAttributeNames: Record<string, string>,
+    expressionAttributeValues: Record<string, any>,
+    options?: QueryPageOptions
+  ): Promise<QueryPage<T>>;
+
+  deleteItem(tableName: string, key: Record<string, any>): Promise<void>;
+
+  scanItems<T>(
+    tableName: string,
+    filterExpression?: string,
+    expressionAttributeNames?: Record<string, string>,
+    expressionAttributeValues?: Record<string, any>
+  ): Promise<T[]>;
+
+  ping(): Promise<boolean>;
+}
+
+// Storage adapter singleton
+let adapter: StorageAdapter | null = null;
+
+/**
+ * Get the storage adapter selected by STORAGE_BACKEND
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (adapter) {
+    return adapter;
+  }
+
+  // The DynamoDB client is only created on first use, so local backends
+  // never need AWS credentials
+  switch (STORAGE_BACKEND) {
+    case "memory":
+      adapter = new MemoryStorageAdapter();
+      break;
+    case "file":
+      adapter = new FileStorageAdapter(STORAGE_FILE_DIR);
+      break;
+    default:
+      adapter = dynamoStorageAdapter;
+  }
+
+  logger.info({ backend: adapter.name }, "Storage adapter initialized");
+  return adapter;
+}
+
+/**
+ * Replace the storage adapter, e.g. with an in-memory one in tests
+ */
+export function setStorageAdapter(storageAdapter: StorageAdapter): void {
+  adapter = storageAdapter;
+}
+
+/**
+ * Get an item by its primary key
+ */
+export function getItem<T>(
+  tableName: string,
+  key: Record<string, any>
+): Promise<T | null> {
+  return getStorageAdapter().getItem<T>(tableName, key);
+}
+
+/**
+ * Put an item, replacing any item with the same key
+ * With a condition, throws a ConditionalWriteError when it is not met.
+ */
+export function putItem(
+  tableName: string,
+  item: Record<string, any>,
+  condition?: WriteCondition
+): Promise<void> {
+  return getStorageAdapter().putItem(tableName, item, condition);
+}
+
+/**
+ * Update an item with an update expression
+ */
+export function updateItem(
+  tableName: string,
+  key: Record<string, any>,
+  updateExpression: string,
+  expressionAttributeNames: Record<string, string>,
+  expressionAttributeValues: Record<string, any>
+): Promise<void> {
+  return getStorageAdapter().updateItem(
+    tableName,
+    key,
+    updateExpression,
+    expressionAttributeNames,
+    expressionAttributeValues
+  );
+}
+
+/**
+ * Query all items matching a key condition
+ * DynamoDB returns at most 1 MB per query, so every page is read.
+ */
+export async function queryItems<T>(
+  tableName: string,
+  keyConditionExpression: string,
+  expressionAttributeNames: Record<string, string>,
+  expressionAttributeValues: Record<string, any>,
+  indexName?: string
+): Promise<T[]> {
+  const items: T[] = [];
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const page = await getStorageAdapter().queryItemsPage<T>(
+      tableName,
+      keyConditionExpression,
+      expressionAttributeNames,
+      expressionAttributeValues,
+      { indexName, exclusiveStartKey }
+    );
+
+    items.push(...page.items);
+    exclusiveStartKey = page.lastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
+
+/**
+ * Query a single page of items
+ */
+export function queryItemsPage<T>(
+  tableName: string,
+  keyConditionExpression: string,
+  expressionAttributeNames: Record<string, string>,
+  expressionAttributeValues: Record<string, any>,
+  options: QueryPageOptions = {}
+): Promise<QueryPage<T>> {
+  return getStorageAdapter().queryItemsPage<T>(
+    tableName,
+    keyConditionExpression,
+    expressionAttributeNames,
+    expressionAttributeValues,
+    options
+  );
+}
+
+/**
+ * Delete an item by its primary key
+ */
+export function deleteItem(
+  tableName: string,
+  key: Record<string, any>
+): Promise<void> {
+  return getStorageAdapter().deleteItem(tableName, key);
+}
+
+/**
+ * Scan all items in a table, optionally filtered
+ */
+export function scanItems<T>(
+  tableName: string,
+  filterExpression?: string,
+  expressionAttributeNames?: Record<string, string>,
+  expressionAttributeValues?: Record<string, any>
+): Promise<T[]> {
+  return getStorageAdapter().scanItems<T>(
+    tableName,
+    filterExpression,
+    expressionAttributeNames,
+    expressionAttributeValues
+  );
+}
+
+/**
+ * Check that the storage backend is reachable
+ */
+export function pingStorage(): Promise<boolean> {
+  return getStorageAdapter().ping();
+}
+
+/**
+ * Encode a key as an opaque pagination cursor
+ */
+export function encodeCursor(key: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+/**
+ * Decode a pagination cursor back into a key
+ * Returns null if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): Record<string, any> | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return key && typeof key === "object" && !Array.isArray(key) ? key : null;
+  } catch (error) {
+    logger.debug({ error }, "Invalid pagination cursor");
+    return null;
+  }
+}
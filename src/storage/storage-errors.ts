@@ -0,0 +1,9 @@
+/**
+ * Thrown when the condition of a conditional write is not met
+ */
+export class ConditionalWriteError extends Error {
+  constructor(tableName: string) {
+    super(`Write condition not met in ${tableName}`);
+    this.name = "ConditionalWriteError";
+  }
+}
@@ -0,0 +1,101 @@
+import { StoredUserMemory } from "../types/memory";
+import { DB_TABLES } from "../config/constants";
+import { deleteItem, getItem, putItem, queryItems } from "./storage-adapter";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("user-memory-store");
+const TABLE_NAME = DB_TABLES.USER_MEMORIES;
+
+/**
+ * Save a user memory, replacing any memory with the same ID
+ */
+export async function saveUserMemory(memory: StoredUserMemory): Promise<void> {
+  logger.debug(
+    { memoryId: memory.id, userId: memory.userId },
+    "Saving user memory"
+  );
+
+  try {
+    await putItem(TABLE_NAME, memory);
+  } catch (error) {
+    logger.error({ error, memoryId: memory.id }, "Failed to save user memory");
+    throw new Error(`Failed to save user memory: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Get a user memory by ID
+ */
+export async function getUserMemory(
+  memoryId: string
+): Promise<StoredUserMemory | null> {
+  try {
+    return await getItem<StoredUserMemory>(TABLE_NAME, { id: memoryId });
+  } catch (error) {
+    logger.error({ error, memoryId }, "Failed to get user memory");
+    throw new Error(`Failed to get user memory: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Get a user's memories within a tenant, oldest first
+ * Memories learned in other tenants, or outside any tenant when a tenant
+ * is given, are left out
+ */
+export async function getUserMemories(
+  userId: string,
+  tenantId?: string
+): Promise<StoredUserMemory[]> {
+  logger.debug({ userId, tenantId }, "Getting user memories");
+
+  try {
+    // Requires a GSI on userId
+    const memories = await queryItems<StoredUserMemory>(
+      TABLE_NAME,
+      "userId = :userId",
+      {},
+      { ":userId": userId },
+      "userId-index"
+    );
+
+    return memories.filter((memory) => memory.tenantId === tenantId);
+  } catch (error) {
+    logger.error({ error, userId }, "Failed to get user memories");
+    throw new Error(`Failed to get user memories: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Delete a user memory
+ */
+export async function deleteUserMemory(memoryId: string): Promise<void> {
+  logger.debug({ memoryId }, "Deleting user memory");
+
+  try {
+    await deleteItem(TABLE_NAME, { id: memoryId });
+  } catch (error) {
+    logger.error({ error, memoryId }, "Failed to delete user memory");
+    throw new Error(
+      `Failed to delete user memory: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Delete all of a user's memories within a tenant
+ * Returns the number of memories deleted
+ */
+export async function deleteUserMemories(
+  userId: string,
+  tenantId?: string
+): Promise<number> {
+  const memories = await getUserMemories(userId, tenantId);
+
+  await Promise.all(memories.map((memory) => deleteUserMemory(memory.id)));
+
+  logger.debug(
+    { userId, tenantId, count: memories.length },
+    "Deleted user memories"
+  );
+  return memories.length;
+}
@@ -0,0 +1,161 @@
+import { promises as fs } from "fs";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { app } from "../api/server";
+import { configureContainer } from "../container";
+import {
+  FakeChatModel,
+  FakeModelProvider,
+  FakeModelProviderOptions,
+} from "../models/fake-models";
+import { MemoryStorageAdapter } from "../storage/memory-storage";
+import {
+  getOrCreateConversationState,
+  saveConversationState,
+} from "../storage/conversation-store";
+import { LocalVectorStoreProvider } from "../vectorstore/local-vector-store";
+import { ingestDocument } from "../knowledge/ingestion";
+import { addHumanMessage } from "../conversation/memory";
+import {
+  createAdvancedConversationGraph,
+  runConversationGraph,
+} from "../graphs/conversation-graph";
+import { ConversationState, NodeOptions } from "../types/conversation";
+import { KnowledgeDocumentInput } from "../types/knowledge";
+
+export interface TestHarnessOptions extends FakeModelProviderOptions {
+  documents?: KnowledgeDocumentInput[]; // Ingested into the default namespace
+}
+
+export interface RequestOptions {
+  method?: string;
+  body?: unknown; // Sent as JSON
+  headers?: Record<string, string>;
+}
+
+export interface TestResponse<T> {
+  status: number;
+  body: T; // Parsed JSON, or the events of an event stream
+}
+
+export interface TestHarness {
+  modelProvider: FakeModelProvider;
+  chatModel: FakeChatModel;
+  storage: MemoryStorageAdapter;
+
+  /**
+   * Run one turn through the advanced conversation graph and save it
+   * Starts a new conversation when no ID is given.
+   */
+  sendMessage(
+    message: string,
+    conversationId?: string,
+    options?: NodeOptions
+  ): Promise<ConversationState>;
+
+  /**
+   * Send an HTTP request to the application
+   */
+  request<T = unknown>(
+    path: string,
+    options?: RequestOptions
+  ): Promise<TestResponse<T>>;
+
+  /**
+   * Remove the harness's vector store directory
+   */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Parse the events of a Server-Sent Events response body
+ */
+function parseEventStream(text: string): unknown[] {
+  return text
+    .split("\n\n")
+    .map((block) => block.split("\n").find((line) => line.startsWith("data: ")))
+    .filter((line): line is string => Boolean(line))
+    .map((line) => JSON.parse(line.slice("data: ".length)));
+}
+
+/**
+ * Send a request to the application on an ephemeral port
+ */
+async function request<T>(
+  path: string,
+  options: RequestOptions = {}
+): Promise<TestResponse<T>> {
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method: options.method ?? "GET",
+      headers: { "Content-Type": "application/json", ...options.headers },
+      body:
+        options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+    const text = await response.text();
+
+    return {
+      status: response.status,
+      body: (response.headers.get("content-type")?.includes("text/event-stream")
+        ? parseEventStream(text)
+        : JSON.parse(text)) as T,
+    };
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+}
+
+/**
+ * Set up the application on in-memory stand-ins
+ *
+ * The container gets a fake model provider for chat and embeddings, an
+ * in-memory storage adapter and a local vector store in a temporary
+ * directory, so full conversation turns run without network access.
+ */
+export async function createTestHarness(
+  options: TestHarnessOptions = {}
+): Promise<TestHarness> {
+  const { documents = [], ...modelOptions } = options;
+
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), "agent-test-"));
+  const modelProvider = new FakeModelProvider(modelOptions);
+  const storage = new MemoryStorageAdapter();
+
+  configureContainer({
+    modelProvider,
+    embeddingProvider: modelProvider,
+    storageAdapter: storage,
+    vectorStoreProvider: new LocalVectorStoreProvider(directory),
+  });
+
+  for (const document of documents) {
+    await ingestDocument(document);
+  }
+
+  return {
+    modelProvider,
+    chatModel: modelProvider.chatModel,
+    storage,
+
+    async sendMessage(message, conversationId, nodeOptions) {
+      const state = await getOrCreateConversationState(conversationId);
+      const result = await runConversationGraph(
+        createAdvancedConversationGraph(),
+        addHumanMessage(state, message),
+        nodeOptions
+      );
+
+      await saveConversationState(result);
+      return result;
+    },
+
+    request,
+
+    cleanup: () => fs.rm(directory, { recursive: true, force: true }),
+  };
+}
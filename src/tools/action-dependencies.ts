@@ -0,0 +1,192 @@
+import { ActionStatus } from "../config/constants";
+
+/**
+ * Dependencies between actions extracted from the same message
+ *
+ * The model declares dependencies positionally, since it cannot know the IDs
+ * of the actions it is creating: `depends_on: [0]` and references such as
+ * `{{actions.0.appointmentId}}` point at the first tool call in the response.
+ * After extraction the positions are rewritten to stored action IDs
+ * (`{{act_123.appointmentId}}`), which are resolved against the dependency's
+ * result right before execution.
+ */
+
+// Argument added to every tool so the model can declare dependencies
+export const DEPENDS_ON_ARGUMENT = "depends_on";
+
+// {{actions.<position>.<path>}} as written by the model
+const POSITION_REFERENCE = /\{\{\s*actions\.(\d+)((?:\.[\w-]+)*)\s*\}\}/g;
+
+// {{<actionId>.<path>}} as stored on the action
+const ACTION_REFERENCE = /\{\{\s*(act_[\w-]+)((?:\.[\w-]+)*)\s*\}\}/g;
+
+/**
+ * A dependency as seen by the executor
+ */
+export interface DependencyRecord {
+  id: string;
+  status: ActionStatus | string;
+  result?: Record<string, any> | null;
+}
+
+/**
+ * Outcome of checking an action's dependencies
+ * - ready: every dependency completed; results are keyed by action ID
+ * - waiting: some dependency has not finished yet
+ * - blocked: some dependency failed, was cancelled or no longer exists
+ */
+export type DependencyCheck =
+  | { status: "ready"; results: Record<string, Record<string, any>> }
+  | { status: "waiting" }
+  | { status: "blocked"; reason: string };
+
+/**
+ * Add the dependency argument to tool definitions
+ */
+export function withDependencyParameter(tools: any[]) {
+  return tools.map((tool) => ({
+    ...tool,
+    function: {
+      ...tool.function,
+      parameters: {
+        ...tool.function.parameters,
+        properties: {
+          ...tool.function.parameters.properties,
+          [DEPENDS_ON_ARGUMENT]: {
+            type: "array",
+            items: { type: "integer" },
+            description:
+              "Zero-based positions of earlier tool calls in this response that must complete before this one. " +
+              "Use {{actions.N.field}} in any argument to insert a field from that call's result.",
+          },
+        },
+      },
+    },
+  }));
+}
+
+/**
+ * Apply a function to every string inside a JSON-like value
+ */
+function mapStrings(value: any, fn: (text: string) => any): any {
+  if (typeof value === "string") {
+    return fn(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, fn));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Get the tool call positions referenced in action data
+ */
+export function getReferencedPositions(data: Record<string, any>): number[] {
+  const positions = new Set<number>();
+
+  mapStrings(data, (text) => {
+    for (const match of text.matchAll(POSITION_REFERENCE)) {
+      positions.add(Number(match[1]));
+    }
+    return text;
+  });
+
+  return Array.from(positions);
+}
+
+/**
+ * Rewrite positional references to the IDs of the stored actions
+ */
+export function linkActionReferences(
+  data: Record<string, any>,
+  actionIds: (string | undefined)[]
+): Record<string, any> {
+  return mapStrings(data, (text) =>
+    text.replace(POSITION_REFERENCE, (match, position, path) => {
+      const actionId = actionIds[Number(position)];
+      return actionId ? `{{${actionId}${path}}}` : match;
+    })
+  );
+}
+
+/**
+ * Read a dotted path from a value
+ */
+function readPath(value: any, path: string): any {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce(
+      (current, key) => (current == null ? undefined : current[key]),
+      value
+    );
+}
+
+/**
+ * Substitute dependency results into action data
+ * A string that is exactly one reference takes the referenced value as-is,
+ * so numbers and objects keep their type
+ */
+export function resolveActionReferences(
+  data: Record<string, any>,
+  results: Record<string, Record<string, any>>
+): Record<string, any> {
+  return mapStrings(data, (text) => {
+    const whole = new RegExp(`^${ACTION_REFERENCE.source}$`).exec(text.trim());
+
+    if (whole && whole[1] in results) {
+      return readPath(results[whole[1]], whole[2]);
+    }
+
+    return text.replace(ACTION_REFERENCE, (match, actionId, path) => {
+      if (!(actionId in results)) return match;
+
+      const value = readPath(results[actionId], path);
+      if (value === undefined) return "";
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    });
+  });
+}
+
+/**
+ * Check whether an action's dependencies allow it to run
+ */
+export function checkDependencies(
+  dependsOn: string[] | undefined,
+  lookup: (actionId: string) => DependencyRecord | null | undefined
+): DependencyCheck {
+  const results: Record<string, Record<string, any>> = {};
+  let waiting = false;
+
+  for (const actionId of dependsOn || []) {
+    const dependency = lookup(actionId);
+
+    if (!dependency) {
+      return { status: "blocked", reason: `Dependency not found: ${actionId}` };
+    }
+
+    switch (dependency.status) {
+      case ActionStatus.COMPLETED:
+        results[actionId] = dependency.result || {};
+        break;
+      case ActionStatus.FAILED:
+      case ActionStatus.CANCELLED:
+        return {
+          status: "blocked",
+          reason: `Dependency ${actionId} did not complete (${dependency.status})`,
+        };
+      default:
+        waiting = true;
+    }
+  }
+
+  return waiting ? { status: "waiting" } : { status: "ready", results };
+}
@@ -0,0 +1,196 @@
+import { z } from "zod";
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import {
+  ActionDefinition,
+  ActionHandlerInput,
+  ActionHandlerResult,
+} from "../types/actions";
+import { TIMEOUTS } from "../config/constants";
+import { createLogger } from "../utils/logger";
+import { bookingAction } from "./booking-tool";
+import { noteAction } from "./note-tool";
+import { reminderAction } from "./reminder-tool";
+import { searchKnowledgeAction } from "./search-knowledge-tool";
+
+const logger = createLogger("action-registry");
+
+// Registered actions keyed by name
+const registry = new Map<string, ActionDefinition>();
+
+/**
+ * Register an action type
+ * Re-registering a name replaces the previous definition
+ */
+export function registerAction<TSchema extends z.ZodTypeAny>(
+  definition: ActionDefinition<TSchema>
+) {
+  if (registry.has(definition.name)) {
+    logger.warn({ name: definition.name }, "Replacing registered action");
+  }
+
+  registry.set(definition.name, definition);
+  logger.debug({ name: definition.name }, "Action registered");
+}
+
+/**
+ * Get a registered action by name
+ */
+export function getActionDefinition(
+  name: string
+): ActionDefinition | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Get all registered actions
+ */
+export function getRegisteredActions(): ActionDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Get the names of all registered actions
+ */
+export function getRegisteredActionNames(): string[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Build the OpenAI tool definitions for the registered actions
+ * Parameters are generated from each action's zod schema
+ */
+export function getToolDefinitions(names?: string[]) {
+  return getRegisteredActions()
+    .filter((definition) => !names || names.includes(definition.name))
+    .map((definition) => {
+      // A fresh schema is generated per call, so it can be trimmed in place
+      const parameters = toJsonSchema(definition.schema) as any;
+      delete parameters.$schema;
+
+      return {
+        type: "function",
+        function: {
+          name: definition.name,
+          description: definition.description,
+          parameters,
+        },
+      };
+    });
+}
+
+/**
+ * Validate action data against the registered schema
+ */
+export function validateAction(
+  type: string,
+  data: unknown
+): z.SafeParseReturnType<any, any> {
+  const definition = registry.get(type);
+
+  if (!definition) {
+    const names = getRegisteredActionNames();
+    return {
+      success: false,
+      error: new z.ZodError([
+        {
+          code: "invalid_enum_value",
+          path: ["type"],
+          message: `Invalid action type: ${type}. Expected one of: ${names.join(
+            ", "
+          )}`,
+          received: type,
+          options: names,
+        },
+      ]),
+    };
+  }
+
+  return definition.schema.safeParse(data);
+}
+
+/**
+ * Run a handler, rejecting if it does not settle within the timeout
+ */
+async function runWithTimeout(
+  definition: ActionDefinition,
+  action: ActionHandlerInput,
+  timeoutMs: number
+): Promise<ActionHandlerResult> {
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error("Action execution timed out")),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([definition.handler(action), timeoutPromise]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Execute an action with its registered handler, timeout and retry policy
+ * Never throws; failures are reported in the result
+ */
+export async function executeAction(
+  action: ActionHandlerInput
+): Promise<ActionHandlerResult> {
+  const definition = registry.get(action.type);
+
+  if (!definition) {
+    logger.warn(
+      { actionId: action.id, actionType: action.type },
+      "No handler for action type"
+    );
+    return {
+      success: false,
+      error: `No handler for action type: ${action.type}`,
+    };
+  }
+
+  const timeoutMs =
+    definition.timeoutMs ?? TIMEOUTS.ACTION_EXECUTION_TIMEOUT_MS;
+  const maxAttempts = Math.max(1, definition.retry?.maxAttempts ?? 1);
+  const backoffMs = definition.retry?.backoffMs ?? 0;
+
+  let lastError: Error | undefined;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await runWithTimeout(definition, action, timeoutMs);
+    } catch (error) {
+      lastError = error as Error;
+
+      logger.warn(
+        {
+          error,
+          actionId: action.id,
+          actionType: action.type,
+          attempt,
+          maxAttempts,
+        },
+        "Action attempt failed"
+      );
+
+      if (attempt < maxAttempts) {
+        const delay = backoffMs * Math.pow(2, attempt - 1);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  return {
+    success: false,
+    error: lastError?.message || "Unknown error",
+  };
+}
+
+// Built-in actions
+registerAction(bookingAction);
+registerAction(noteAction);
+registerAction(reminderAction);
+registerAction(searchKnowledgeAction);
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { ActionDefinition, ActionHandlerInput } from "../types/actions";
+import { ActionType, ApprovalPolicy } from "../config/constants";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("booking-tool");
+
+/**
+ * Booking action data validation
+ */
+export const bookingActionSchema = z.object({
+  person: z
+    .string()
+    .min(1, "Person is required")
+    .describe("The person to meet with"),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .describe("The date of the appointment (YYYY-MM-DD format)"),
+  time: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format")
+    .describe("The time of the appointment (HH:MM format)"),
+  duration: z
+    .number()
+    .int()
+    .positive()
+    .default(30)
+    .describe("The duration of the meeting in minutes"),
+  purpose: z
+    .string()
+    .optional()
+    .describe("The purpose or topic of the meeting"),
+  location: z
+    .string()
+    .default("Virtual")
+    .describe("The location of the meeting (physical location or virtual)"),
+});
+
+/**
+ * Booking handler
+ * Mock implementation; in a real application this would call a calendar service
+ */
+async function handleBookingAction(action: ActionHandlerInput) {
+  logger.info(
+    { actionId: action.id, data: action.data },
+    "Processing booking action"
+  );
+
+  try {
+    const { person, date, time, duration = 30, purpose } = action.data;
+
+    // Validate required fields
+    if (!person || !date || !time) {
+      throw new Error("Missing required fields for booking");
+    }
+
+    // Simulate API call to booking service
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    // Mock successful booking
+    return {
+      success: true,
+      result: {
+        appointmentId: `appt_${Date.now()}`,
+        confirmed: true,
+        details: {
+          person,
+          date,
+          time,
+          duration,
+          purpose: purpose || "Not specified",
+        },
+      },
+    };
+  } catch (error) {
+    logger.error({ error, actionId: action.id }, "Booking action failed");
+    return {
+      success: false,
+      error: (error as Error).message || "Booking action failed",
+    };
+  }
+}
+
+export const bookingAction: ActionDefinition<typeof bookingActionSchema> = {
+  name: ActionType.BOOK_APPOINTMENT,
+  description: "Book an appointment or meeting with someone",
+  schema: bookingActionSchema,
+  handler: handleBookingAction,
+  retry: { maxAttempts: 2, backoffMs: 1000 },
+  approvalPolicy: ApprovalPolicy.REQUIRE_CONFIRMATION,
+  clarifications: {
+    person: "Who is the meeting with?",
+    date: "What day should I book it for?",
+    time: "What time should I book it?",
+    duration: "How long should the meeting be, in minutes?",
+  },
+};
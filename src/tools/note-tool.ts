@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { ActionDefinition, ActionHandlerInput } from "../types/actions";
+import { ActionType, ApprovalPolicy } from "../config/constants";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("note-tool");
+
+/**
+ * Note action data validation
+ */
+export const noteActionSchema = z.object({
+  title: z.string().optional().describe("Title for the note"),
+  content: z
+    .string()
+    .min(1, "Content is required")
+    .describe("Content of the note"),
+  category: z
+    .enum(["personal", "work", "ideas", "tasks", "other"])
+    .default("other")
+    .describe("Category for organizing the note"),
+  tags: z.array(z.string()).optional().describe("Tags for the note"),
+});
+
+/**
+ * Note-taking handler
+ * Mock implementation; in a real application this would call a notes service
+ */
+async function handleNoteAction(action: ActionHandlerInput) {
+  logger.info(
+    { actionId: action.id, data: action.data },
+    "Processing note action"
+  );
+
+  try {
+    const {
+      title = "Untitled Note",
+      content,
+      category = "other",
+    } = action.data;
+
+    // Validate required fields
+    if (!content) {
+      throw new Error("Missing required content for note");
+    }
+
+    // Simulate API call to note service
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    // Mock successful note creation
+    return {
+      success: true,
+      result: {
+        noteId: `note_${Date.now()}`,
+        saved: true,
+        title,
+        category,
+        snippet: content.substring(0, 50) + (content.length > 50 ? "..." : ""),
+        timestamp: new Date().toISOString(),
+      },
+    };
+  } catch (error) {
+    logger.error({ error, actionId: action.id }, "Note action failed");
+    return {
+      success: false,
+      error: (error as Error).message || "Note action failed",
+    };
+  }
+}
+
+export const noteAction: ActionDefinition<typeof noteActionSchema> = {
+  name: ActionType.TAKE_NOTE,
+  description: "Create a note or save information",
+  schema: noteActionSchema,
+  handler: handleNoteAction,
+  approvalPolicy: ApprovalPolicy.AUTO,
+  clarifications: {
+    content: "What should the note say?",
+  },
+};
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { ActionDefinition, ActionHandlerInput } from "../types/actions";
+import { ActionType, ApprovalPolicy } from "../config/constants";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("reminder-tool");
+
+/**
+ * Reminder action data validation
+ */
+export const reminderActionSchema = z.object({
+  title: z
+    .string()
+    .min(1, "Title is required")
+    .describe("Title for the reminder"),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .describe("The date for the reminder (YYYY-MM-DD format)"),
+  time: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format")
+    .describe("The time for the reminder (HH:MM format)"),
+  description: z
+    .string()
+    .optional()
+    .describe("Additional details for the reminder"),
+  priority: z
+    .enum(["low", "medium", "high"])
+    .default("medium")
+    .describe("Priority level of the reminder"),
+  recurrence: z
+    .enum(["none", "daily", "weekly", "monthly"])
+    .default("none")
+    .describe("How often the reminder should repeat"),
+});
+
+/**
+ * Reminder handler
+ * Mock implementation; in a real application this would call a reminder service
+ */
+async function handleReminderAction(action: ActionHandlerInput) {
+  logger.info(
+    { actionId: action.id, data: action.data },
+    "Processing reminder action"
+  );
+
+  try {
+    const { title, date, time, description, priority = "medium" } = action.data;
+
+    // Validate required fields
+    if (!title || !date || !time) {
+      throw new Error("Missing required fields for reminder");
+    }
+
+    // Simulate API call to reminder service
+    await new Promise((resolve) => setTimeout(resolve, 400));
+
+    // Mock successful reminder creation
+    return {
+      success: true,
+      result: {
+        reminderId: `reminder_${Date.now()}`,
+        scheduled: true,
+        notificationTime: `${date} ${time}`,
+        priority,
+        description: description || "No description provided",
+      },
+    };
+  } catch (error) {
+    logger.error({ error, actionId: action.id }, "Reminder action failed");
+    return {
+      success: false,
+      error: (error as Error).message || "Reminder action failed",
+    };
+  }
+}
+
+export const reminderAction: ActionDefinition<typeof reminderActionSchema> = {
+  name: ActionType.SET_REMINDER,
+  description: "Set a reminder for a future time",
+  schema: reminderActionSchema,
+  handler: handleReminderAction,
+  retry: { maxAttempts: 2, backoffMs: 1000 },
+  approvalPolicy: ApprovalPolicy.REQUIRE_CONFIRMATION,
+  clarifications: {
+    title: "What should I remind you about?",
+    date: "What day should the reminder be for?",
+    time: "What time should I remind you?",
+  },
+};
@@ -0,0 +1,14 @@
+import { searchKnowledgeActionSchema } from "./search-knowledge-tool";
+import { RETRIEVAL } from "../config/constants";
+
+describe("search knowledge action schema", () => {
+  it("limits how many results a search may ask for", () => {
+    const parse = (maxResults?: number) =>
+      searchKnowledgeActionSchema.safeParse({ query: "refunds", maxResults });
+
+    expect(parse().data?.maxResults).toBe(5);
+    expect(parse(RETRIEVAL.MAX_SEARCH_RESULTS).success).toBe(true);
+    expect(parse(RETRIEVAL.MAX_SEARCH_RESULTS + 1).success).toBe(false);
+    expect(parse(2.5).success).toBe(false);
+  });
+});
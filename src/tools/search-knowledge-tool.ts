@@ -0,0 +1,162 @@
+import { z } from "zod";
+import {
+  ActionDefinition,
+  ActionHandlerInput,
+  ActionHandlerResult,
+} from "../types/actions";
+import { ActionType, ApprovalPolicy, RETRIEVAL } from "../config/constants";
+import {
+  getTenantNamespace,
+  querySimilarDocuments,
+} from "../vectorstore/vector-store";
+import { createLogger } from "../utils/logger";
+
+const logger = createLogger("search-knowledge-tool");
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+/**
+ * Search knowledge action data validation
+ */
+export const searchKnowledgeActionSchema = z.object({
+  query: z.string().min(1, "Query is required").describe("The search query"),
+  filters: z
+    .object({
+      category: z.string().optional().describe("Category to search within"),
+      dateRange: z
+        .object({
+          from: dateSchema.optional().describe("Start date (YYYY-MM-DD)"),
+          to: dateSchema.optional().describe("End date (YYYY-MM-DD)"),
+        })
+        .optional(),
+      author: z.string().optional().describe("Author of the content"),
+    })
+    .optional()
+    .describe("Additional filters for the search"),
+  maxResults: z
+    .number()
+    .int()
+    .positive()
+    .max(RETRIEVAL.MAX_SEARCH_RESULTS)
+    .default(5)
+    .describe("Maximum number of results to return"),
+});
+
+type SearchKnowledgeFilters = z.infer<
+  typeof searchKnowledgeActionSchema
+>["filters"];
+
+// Length of the snippet stored in the action result for each hit
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Translate search filters into a vector store metadata filter
+ *
+ * Category and author match exactly; the date range is applied to the
+ * numeric `publishedAt` set at ingestion, inclusive of both days.
+ */
+export function buildKnowledgeFilter(
+  filters: SearchKnowledgeFilters
+): Record<string, any> | undefined {
+  if (!filters) {
+    return undefined;
+  }
+
+  const metadataFilter: Record<string, any> = {};
+
+  if (filters.category) {
+    metadataFilter.category = { $eq: filters.category };
+  }
+
+  if (filters.author) {
+    metadataFilter.author = { $eq: filters.author };
+  }
+
+  const { from, to } = filters.dateRange ?? {};
+  if (from || to) {
+    metadataFilter.publishedAt = {
+      ...(from && { $gte: Date.parse(`${from}T00:00:00.000Z`) }),
+      ...(to && { $lte: Date.parse(`${to}T23:59:59.999Z`) }),
+    };
+  }
+
+  return Object.keys(metadataFilter).length ? metadataFilter : undefined;
+}
+
+/**
+ * Knowledge search handler
+ * Hits are returned as the action result and as context for the answer
+ */
+async function handleSearchKnowledgeAction(
+  action: ActionHandlerInput
+): Promise<ActionHandlerResult> {
+  logger.info(
+    { actionId: action.id, data: action.data },
+    "Processing knowledge search action"
+  );
+
+  try {
+    const { query, filters, maxResults = 5 } = action.data;
+    logger.info({ query, filters, maxResults }, "Knowledge search action data");
+
+    // Validate required fields
+    if (!query) {
+      throw new Error("Missing required query for knowledge search");
+    }
+
+    // Searches are confined to the knowledge base of the action's tenant
+    const chunks = await querySimilarDocuments(
+      query,
+      maxResults,
+      getTenantNamespace(action.tenantId),
+      buildKnowledgeFilter(filters)
+    );
+
+    const results = chunks.map((chunk) => ({
+      id: chunk.metadata.sourceId ?? chunk.metadata.source,
+      title: chunk.metadata.title,
+      source: chunk.metadata.source,
+      snippet:
+        chunk.content.length > SNIPPET_LENGTH
+          ? `${chunk.content.slice(0, SNIPPET_LENGTH)}...`
+          : chunk.content,
+      score: chunk.score,
+    }));
+
+    return {
+      success: true,
+      result: {
+        query,
+        resultsCount: results.length,
+        results,
+        filters: filters || {},
+      },
+      context: chunks,
+    };
+  } catch (error) {
+    logger.error(
+      { error, actionId: action.id },
+      "Knowledge search action failed"
+    );
+    return {
+      success: false,
+      error: (error as Error).message || "Knowledge search action failed",
+    };
+  }
+}
+
+export const searchKnowledgeAction: ActionDefinition<
+  typeof searchKnowledgeActionSchema
+> = {
+  name: ActionType.SEARCH_KNOWLEDGE,
+  description: "Search for specific information in the knowledge base",
+  schema: searchKnowledgeActionSchema,
+  handler: handleSearchKnowledgeAction,
+  timeoutMs: 10000,
+  approvalPolicy: ApprovalPolicy.AUTO,
+  clarifications: {
+    query: "What should I search for?",
+  },
+};
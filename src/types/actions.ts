@@ -1,4 +1,6 @@
-import { ActionStatus, ActionType } from "../config/constants";
+import { z } from "zod";
+import { ActionStatus, ActionType, ApprovalPolicy } from "../config/constants";
+import type { ContextChunk } from "./conversation";
 
 /**
  * Base action interface with common properties
@@ -6,6 +8,7 @@ import { ActionStatus, ActionType } from "../config/constants";
 export interface BaseAction {
   id: string;
   conversationId: string;
+  tenantId?: string; // Tenant of the conversation, scopes knowledge access
   type: string;
   status: ActionStatus;
   createdAt: string;
@@ -13,6 +16,7 @@ export interface BaseAction {
   data: Record<string, any>;
   result?: Record<string, any> | null;
   error?: string | null;
+  dependsOn?: string[]; // IDs of actions that must complete first
 }
 
 /**
@@ -113,10 +117,50 @@ export interface UpdateActionStatusInput {
 }
 
 /**
- * Action handler function signature
+ * Action handler result
  */
-export type ActionHandler = (action: BaseAction) => Promise<{
+export interface ActionHandlerResult {
   success: boolean;
   result?: Record<string, any>;
   error?: string;
-}>;
+  context?: ContextChunk[]; // Added to the turn's context, e.g. search hits
+}
+
+/**
+ * Action handler input: the stored action or a pending action from state
+ */
+export type ActionHandlerInput = Pick<
+  BaseAction,
+  "id" | "conversationId" | "tenantId" | "type" | "data"
+>;
+
+/**
+ * Action handler function signature
+ */
+export type ActionHandler = (
+  action: ActionHandlerInput
+) => Promise<ActionHandlerResult>;
+
+/**
+ * Retry policy for action execution
+ * Retries apply when a handler throws or times out, not when it reports failure
+ */
+export interface ActionRetryPolicy {
+  maxAttempts: number;
+  backoffMs: number; // Base for exponential backoff
+}
+
+/**
+ * Action registration: everything needed to extract, validate and execute
+ * an action type
+ */
+export interface ActionDefinition<TSchema extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: TSchema;
+  handler: ActionHandler;
+  timeoutMs?: number;
+  retry?: ActionRetryPolicy;
+  approvalPolicy?: ApprovalPolicy;
+  clarifications?: Record<string, string>; // Question to ask per missing field
+}
@@ -1,5 +1,6 @@
 import { BaseMessage } from "@langchain/core/messages";
-import { ActionStatus } from "../config/constants";
+import { ActionStatus, RESPONSE_STYLES } from "../config/constants";
+import { RecalledMemory } from "./memory";
 
 /**
  * Represents an action extracted from user input
@@ -23,6 +24,44 @@ export interface PendingAction {
   type: string;
   data: Record<string, any>;
   status: ActionStatus;
+  dependsOn?: string[]; // IDs of actions that must complete first
+  result?: Record<string, any> | null;
+  error?: string | null;
+}
+
+/**
+ * An extracted action whose arguments failed validation, kept while the
+ * user is asked for the missing or invalid fields
+ */
+export interface DraftAction {
+  type: string;
+  data: Record<string, any>; // Arguments collected so far
+  errors: Record<string, string>; // Validation error per field still needed
+  attempts: number; // Clarification questions asked so far
+  createdAt: string;
+}
+
+/**
+ * Running summary of the earlier turns of a long conversation
+ * The summarized messages stay in the state; only prompts use the summary
+ */
+export interface HistorySummary {
+  content: string;
+  summarizedCount: number; // Leading messages covered by the summary
+  updatedAt: string;
+}
+
+export type ResponseStyle = keyof typeof RESPONSE_STYLES;
+
+/**
+ * Model and generation settings chosen for a conversation, replacing the
+ * configured defaults for its answers
+ */
+export interface GenerationSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number; // Limit on the length of each answer
+  style?: ResponseStyle;
 }
 
 /**
@@ -30,9 +69,15 @@ export interface PendingAction {
  */
 export interface ConversationState {
   conversationId: string;
+  tenantId?: string; // Tenant whose knowledge base the conversation searches
+  userId?: string; // User whose memories are recalled
   messages: BaseMessage[];
-  context: string[];
+  context: ContextChunk[]; // Numbered from 1 in the prompt for citations
+  memories?: RecalledMemory[]; // Facts about the user relevant to this turn
   pending_actions: PendingAction[];
+  draft_action?: DraftAction | null;
+  summary?: HistorySummary | null;
+  generationSettings?: GenerationSettings | null;
 }
 
 /**
@@ -44,7 +89,25 @@ export interface StoredConversationState {
   lastUpdated: string; // ISO timestamp
   ttl?: number; // TTL for DynamoDB
   userId?: string; // Optional user ID for multi-tenant systems
+  tenantId?: string; // Tenant the conversation is bound to
   metadata?: Record<string, any>; // Additional metadata
+  deletedAt?: string; // ISO timestamp, set when soft-deleted
+  title?: string; // First user message, truncated
+  lastMessagePreview?: string; // Last message, truncated
+  messageCount?: number;
+  actionCount?: number;
+}
+
+/**
+ * Conversation summary for listings
+ */
+export interface ConversationSummary {
+  conversationId: string;
+  title: string;
+  lastMessagePreview: string;
+  lastUpdated: string;
+  messageCount: number;
+  actionCount: number;
 }
 
 /**
@@ -53,6 +116,7 @@ export interface StoredConversationState {
 export interface ChatRequest {
   message: string;
   conversationId?: string;
+  userId?: string;
   metadata?: Record<string, any>;
 }
 
@@ -63,9 +127,62 @@ export interface ChatResponse {
   message: string;
   conversationId: string;
   actions: PendingAction[];
+  citations: Citation[];
   metadata?: Record<string, any>;
 }
 
+/**
+ * One model tried for a call in the fallback chain
+ */
+export interface ModelAttempt {
+  provider: string;
+  model: string;
+  outcome: "succeeded" | "failed" | "skipped"; // Skipped while its circuit is open
+  error?: string;
+  durationMs?: number;
+}
+
+/**
+ * The model that served a call, and the models tried before it
+ */
+export interface ModelUsage {
+  provider?: string; // Unset when every model failed
+  model?: string;
+  fallback: boolean; // Served by a model other than the first
+  attempts: ModelAttempt[];
+}
+
+/**
+ * Tokens used by each part of a generated prompt
+ */
+export interface PromptTokenBreakdown {
+  budget: number;
+  total: number;
+  systemPrompt: number;
+  input: number;
+  actionSummary: number;
+  userMemories: number;
+  context: number;
+  historySummary: number;
+  history: number;
+  contextChunks: { included: number; dropped: number; truncated: number };
+  memories: { included: number; dropped: number };
+  historyMessages: { included: number; dropped: number };
+  inputTruncated: boolean;
+}
+
+/**
+ * A context chunk cited in an answer as `[index]`
+ */
+export interface Citation {
+  index: number;
+  chunkId?: string;
+  sourceId?: string;
+  title?: string;
+  url?: string;
+  score?: number;
+}
+
 /**
  * Function calling result structure
  */
@@ -78,7 +195,41 @@ export interface FunctionCall {
  * Context chunk from vector store
  */
 export interface ContextChunk {
+  id?: string; // Vector id of the chunk
+  sourceId?: string; // Document the chunk belongs to
   content: string;
   metadata: Record<string, any>;
-  score?: number;
+  score?: number; // Reranker relevance when reranked, else retrieval score
+  retrievalScore?: number; // Retrieval score of a reranked chunk
+}
+
+/**
+ * Events emitted while a chat turn is streamed to the client
+ */
+export type ChatStreamEvent =
+  | { type: "retrieval_complete"; contextCount: number }
+  | { type: "action_extracted"; action: PendingAction }
+  | {
+      type: "action_status";
+      actionId: string;
+      actionType: string;
+      status: ActionStatus;
+      error?: string;
+    }
+  // Raw model output, before invalid citations are removed
+  | { type: "token"; delta: string }
+  // The answer as stored, which can differ from the joined token deltas
+  | { type: "done"; message: string; response: ChatResponse }
+  | { type: "error"; error: string; message?: string };
+
+/**
+ * Callback receiving stream events from graph nodes
+ */
+export type ChatStreamEventHandler = (event: ChatStreamEvent) => void;
+
+/**
+ * Per-run options passed through the graph to each node
+ */
+export interface NodeOptions {
+  onEvent?: ChatStreamEventHandler;
 }
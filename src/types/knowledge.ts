@@ -0,0 +1,120 @@
+/**
+ * Formats accepted by the document ingestion pipeline
+ */
+export type DocumentContentType = "text" | "markdown" | "html" | "json";
+
+/**
+ * Metadata values that every vector store backend can filter on
+ */
+export type DocumentMetadataValue = string | number | boolean | string[];
+
+/**
+ * A document submitted to the knowledge base
+ */
+export interface KnowledgeDocumentInput {
+  sourceId?: string; // Derived from source or title when omitted
+  source?: string; // URL, file name or other origin of the document
+  title?: string;
+  content: unknown; // Text, or any JSON value for JSON documents
+  contentType: DocumentContentType;
+  category?: string;
+  author?: string;
+  date?: string; // YYYY-MM-DD
+  metadata?: Record<string, DocumentMetadataValue>;
+}
+
+/**
+ * Chunking settings for an ingestion request
+ */
+export interface ChunkingOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+/**
+ * Outcome of ingesting one document
+ */
+export interface IngestionResult {
+  sourceId: string;
+  title: string;
+  chunkCount: number;
+  removedChunks: number; // Chunks left over from a previous, longer version
+}
+
+/**
+ * Outcome of ingesting a batch of documents
+ */
+export interface BatchIngestionResult {
+  documents: IngestionResult[];
+  failed: Array<{ sourceId: string; error: string }>;
+  chunkCount: number;
+}
+
+/**
+ * Progress reported while documents are ingested
+ */
+export type IngestionProgressEvent =
+  | {
+      type: "document_started";
+      sourceId: string;
+      index: number;
+      total: number;
+    }
+  | {
+      type: "chunks_indexed";
+      sourceId: string;
+      indexed: number;
+      total: number;
+    }
+  | { type: "document_completed"; result: IngestionResult }
+  | { type: "document_failed"; sourceId: string; error: string }
+  | { type: "done"; result: BatchIngestionResult }
+  | { type: "error"; error: string; message?: string };
+
+/**
+ * Callback for ingestion progress
+ */
+export type IngestionProgressHandler = (event: IngestionProgressEvent) => void;
+
+/**
+ * A source in the knowledge base with the metadata of its first chunk
+ */
+export interface KnowledgeSourceSummary {
+  sourceId: string;
+  chunkCount: number;
+  title?: string;
+  source?: string;
+  category?: string;
+  author?: string;
+  date?: string;
+  contentType?: DocumentContentType;
+  ingestedAt?: string;
+}
+
+/**
+ * A stored chunk of a source
+ */
+export interface KnowledgeChunk {
+  id: string;
+  chunkIndex: number;
+  content: string;
+  metadata: Record<string, any>;
+}
+
+/**
+ * A source with all of its chunks, in order
+ */
+export interface KnowledgeSource extends KnowledgeSourceSummary {
+  chunks: KnowledgeChunk[];
+}
+
+/**
+ * Size of a knowledge base namespace
+ */
+export interface KnowledgeBaseStats {
+  namespace: string;
+  provider: string;
+  vectorCount: number;
+  sourceCount: number;
+  dimension?: number;
+}
@@ -0,0 +1,36 @@
+/**
+ * Where a remembered fact was learned
+ */
+export interface MemorySource {
+  conversationId: string;
+  messageId?: string;
+  excerpt: string; // The user's message the fact was extracted from, truncated
+}
+
+/**
+ * A fact about a user remembered across conversations
+ */
+export interface UserMemory {
+  id: string;
+  userId: string;
+  tenantId?: string; // Tenant the fact was learned in; only recalled there
+  content: string; // The fact as a standalone sentence
+  confidence: number; // 0-1, how clearly the user stated it
+  source: MemorySource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A stored memory with the embedding used to recall it
+ */
+export interface StoredUserMemory extends UserMemory {
+  embedding: number[];
+}
+
+/**
+ * A memory recalled for a message, with its relevance to it
+ */
+export interface RecalledMemory extends UserMemory {
+  score: number; // Cosine similarity to the message
+}
@@ -1,4 +1,5 @@
 import { NextFunction } from "express";
+import { LLM_PROVIDERS } from "../config/env";
 import { createLogger } from "./logger";
 
 const logger = createLogger("error-handler");
@@ -28,6 +29,7 @@ export const ErrorFactory = {
   forbidden: (message = "Forbidden") => new AppError(message, 403),
   notFound: (message = "Not found") => new AppError(message, 404),
   conflict: (message = "Conflict") => new AppError(message, 409),
+  gone: (message = "Gone") => new AppError(message, 410),
   serverError: (message = "Internal server error") =>
     new AppError(message, 500, true),
   serviceUnavailable: (message = "Service unavailable") =>
@@ -84,12 +86,15 @@ export function handleServiceError(error: any, service: string): AppError {
     }
   }
 
-  if (service === "openai") {
-    if (error.name === "RateLimitError") {
-      return ErrorFactory.serviceUnavailable("OpenAI rate limit exceeded");
+  if ((LLM_PROVIDERS as readonly string[]).includes(service)) {
+    if (error.name === "RateLimitError" || error.status === 429) {
+      return ErrorFactory.serviceUnavailable(`${service} rate limit exceeded`);
     }
-    if (error.name === "OpenAIError" && error.status === 401) {
-      return ErrorFactory.unauthorized("Invalid OpenAI API key");
+    if (error.name === "TimeoutError") {
+      return ErrorFactory.serviceUnavailable(`${service} request timed out`);
+    }
+    if (error.status === 401) {
+      return ErrorFactory.unauthorized(`Invalid ${service} API key`);
     }
   }
 
@@ -22,7 +22,12 @@ const pinoConfig: pino.LoggerOptions = {
         return { level: label };
       },
     },
-    redact: ["req.headers.authorization", "*.password", "*.apiKey"],
+    redact: [
+      "req.headers.authorization",
+      'req.headers["x-api-key"]',
+      "*.password",
+      "*.apiKey",
+    ],
   }),
 };
 
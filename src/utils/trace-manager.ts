@@ -15,6 +15,7 @@ interface TraceOptions {
  */
 class TraceManager {
   private sessionMap = new Map<string, boolean>();
+  private runMetadata = new Map<string, Record<string, any>>();
   private traceEnabled: boolean;
 
   constructor() {
@@ -77,6 +78,7 @@ class TraceManager {
       if (options?.metadata) {
         process.env.LANGCHAIN_METADATA = JSON.stringify(options.metadata);
       }
+      this.runMetadata.set(conversationId, { ...options?.metadata });
 
       // Run the function
       return await fn();
@@ -88,9 +90,25 @@ class TraceManager {
       delete process.env.LANGCHAIN_RUN_ID;
       delete process.env.LANGCHAIN_PARENT_RUN_ID;
       delete process.env.LANGCHAIN_METADATA;
+      this.runMetadata.delete(conversationId);
     }
   }
 
+  /**
+   * Add metadata to the conversation's current run, e.g. from a graph node
+   * Ignored when no run is in progress for the conversation
+   */
+  addMetadata(conversationId: string, metadata: Record<string, any>): void {
+    const current = this.runMetadata.get(conversationId);
+
+    if (!this.traceEnabled || !current) return;
+
+    Object.assign(current, metadata);
+    process.env.LANGCHAIN_METADATA = JSON.stringify(current);
+
+    logger.debug({ conversationId, metadata }, "Trace metadata added");
+  }
+
   /**
    * End a trace session
    */
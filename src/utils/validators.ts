@@ -1,5 +1,9 @@
 import { z } from "zod";
-import { ActionStatus, ActionType } from "../config/constants";
+import { ActionStatus } from "../config/constants";
+import {
+  getRegisteredActionNames,
+  validateAction,
+} from "../tools/action-registry";
 
 /**
  * Common validation schemas used throughout the application
@@ -38,81 +42,24 @@ export const actionStatusSchema = z.enum([
   ActionStatus.COMPLETED,
   ActionStatus.FAILED,
   ActionStatus.CANCELLED,
+  ActionStatus.AWAITING_APPROVAL,
 ]);
 
 /**
  * Action type validation
+ * Accepts any action type registered in the action registry
  */
-export const actionTypeSchema = z.enum([
-  ActionType.BOOK_APPOINTMENT,
-  ActionType.TAKE_NOTE,
-  ActionType.SET_REMINDER,
-  ActionType.SEARCH_KNOWLEDGE,
-]);
-
-/**
- * Booking action data validation
- */
-export const bookingActionSchema = z.object({
-  person: z.string().min(1, "Person is required"),
-  date: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
-  time: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format"),
-  duration: z.number().int().positive().optional(),
-  purpose: z.string().optional(),
-  location: z.string().optional(),
-});
-
-/**
- * Note action data validation
- */
-export const noteActionSchema = z.object({
-  title: z.string().optional(),
-  content: z.string().min(1, "Content is required"),
-  category: z.enum(["personal", "work", "ideas", "tasks", "other"]).optional(),
-  tags: z.array(z.string()).optional(),
-});
-
-/**
- * Reminder action data validation
- */
-export const reminderActionSchema = z.object({
-  title: z.string().min(1, "Title is required"),
-  date: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
-  time: z.string().regex(/^\d{2}:\d{2}$/, "Time must be in HH:MM format"),
-  description: z.string().optional(),
-  priority: z.enum(["low", "medium", "high"]).optional(),
-  recurrence: z.enum(["none", "daily", "weekly", "monthly"]).optional(),
-});
+export const actionTypeSchema = z
+  .string()
+  .refine((type) => getRegisteredActionNames().includes(type), {
+    message: "Unknown action type",
+  });
 
-/**
- * Search knowledge action data validation
- */
-export const searchKnowledgeActionSchema = z.object({
-  query: z.string().min(1, "Query is required"),
-  filters: z
-    .object({
-      category: z.string().optional(),
-      dateRange: z
-        .object({
-          from: z
-            .string()
-            .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
-            .optional(),
-          to: z
-            .string()
-            .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
-            .optional(),
-        })
-        .optional(),
-      author: z.string().optional(),
-    })
-    .optional(),
-  maxResults: z.number().int().positive().optional(),
-});
+// Action data schemas live with their action registrations
+export { bookingActionSchema } from "../tools/booking-tool";
+export { noteActionSchema } from "../tools/note-tool";
+export { reminderActionSchema } from "../tools/reminder-tool";
+export { searchKnowledgeActionSchema } from "../tools/search-knowledge-tool";
 
 /**
  * Validate action data based on action type
@@ -121,31 +68,7 @@ export function validateActionData(
   type: string,
   data: any
 ): z.SafeParseReturnType<any, any> {
-  switch (type) {
-    case ActionType.BOOK_APPOINTMENT:
-      return bookingActionSchema.safeParse(data);
-    case ActionType.TAKE_NOTE:
-      return noteActionSchema.safeParse(data);
-    case ActionType.SET_REMINDER:
-      return reminderActionSchema.safeParse(data);
-    case ActionType.SEARCH_KNOWLEDGE:
-      return searchKnowledgeActionSchema.safeParse(data);
-    default:
-      return {
-        success: false,
-        error: new z.ZodError([
-          {
-            code: "invalid_enum_value",
-            path: ["type"],
-            message: `Invalid action type: ${type}. Expected one of: ${Object.values(
-              ActionType
-            ).join(", ")}`,
-            received: type,
-            options: Object.values(ActionType),
-          },
-        ]),
-      };
-  }
+  return validateAction(type, data);
 }
 
 /**
@@ -0,0 +1,79 @@
+import { Document } from "@langchain/core/documents";
+import { BM25Index, reciprocalRankFusion, tokenize } from "./keyword-index";
+
+/**
+ * Create a chunk with an id
+ */
+function chunk(id: string, pageContent: string, metadata = {}) {
+  return new Document({ id, pageContent, metadata });
+}
+
+describe("tokenize", () => {
+  it("keeps codes whole and indexes their parts", () => {
+    expect(tokenize("Error ERR-4012 in v2.3")).toEqual([
+      "error",
+      "err-4012",
+      "err",
+      "4012",
+      "in",
+      "v2.3",
+      "v2",
+      "3",
+    ]);
+  });
+});
+
+describe("BM25Index", () => {
+  const index = new BM25Index([
+    chunk("a", "Error ERR-4012 means the payment was declined."),
+    chunk("b", "Error ERR-4013 means the card expired.", { category: "cards" }),
+    chunk("c", "Payments are settled every night. Payments settle in bulk."),
+  ]);
+
+  it("ranks an exact code above documents sharing its parts", () => {
+    const ids = index.search("ERR-4012", 3).map(([doc]) => doc.id);
+
+    expect(ids).toEqual(["a", "b"]);
+  });
+
+  it("leaves out documents sharing no terms", () => {
+    const ids = index.search("payments", 3).map(([doc]) => doc.id);
+
+    expect(ids).toEqual(["c"]);
+  });
+
+  it("applies metadata filters", () => {
+    const ids = index
+      .search("error", 3, { category: "cards" })
+      .map(([doc]) => doc.id);
+
+    expect(ids).toEqual(["b"]);
+  });
+
+  it("replaces documents with the same id", () => {
+    const updated = new BM25Index([chunk("a", "Old text")]);
+    updated.add(chunk("a", "New text"));
+
+    expect(updated.size).toBe(1);
+    expect(updated.search("old", 1)).toEqual([]);
+    expect(updated.search("new", 1).map(([doc]) => doc.id)).toEqual(["a"]);
+  });
+});
+
+describe("reciprocalRankFusion", () => {
+  it("favours documents ranked by several retrievers", () => {
+    const [a, b, c] = ["a", "b", "c"].map((id) => chunk(id, id));
+
+    const fused = reciprocalRankFusion(
+      [
+        [a, b],
+        [c, b],
+      ],
+      2
+    );
+
+    expect(fused.map(([doc]) => doc.id)).toEqual(["b", "a"]);
+    expect(fused[0][1]).toBeCloseTo(1 / 62 + 1 / 62);
+    expect(fused[1][1]).toBeCloseTo(1 / 61);
+  });
+});
@@ -0,0 +1,184 @@
+import { Document } from "@langchain/core/documents";
+import { RETRIEVAL } from "../config/constants";
+import { matchesMetadataFilter, MetadataFilter } from "./local-vector-store";
+
+interface IndexedDocument {
+  document: Document;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+// Words, numbers and codes such as "ERR-4012", "v2.3.1" or "SKU_991"
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Split text into lowercase terms for keyword matching
+ *
+ * Compound tokens like product and error codes are kept whole, so an exact
+ * code ranks above documents that only share its parts, and are also
+ * indexed by their parts.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const [token] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    terms.push(token);
+
+    const parts = token.split(/[-_./]/);
+    if (parts.length > 1) {
+      terms.push(...parts);
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * In-memory BM25 index over document chunks
+ */
+export class BM25Index {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(documents: Document[] = []) {
+    for (const document of documents) {
+      this.add(document);
+    }
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Add a document, replacing any document with the same id
+   */
+  add(document: Document): void {
+    const id = document.id ?? document.pageContent;
+    this.remove(id);
+
+    const terms = tokenize(document.pageContent);
+    const termFrequencies = new Map<string, number>();
+
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+    }
+
+    for (const term of termFrequencies.keys()) {
+      this.documentFrequencies.set(
+        term,
+        (this.documentFrequencies.get(term) ?? 0) + 1
+      );
+    }
+
+    this.documents.set(id, { document, termFrequencies, length: terms.length });
+    this.totalLength += terms.length;
+  }
+
+  /**
+   * Remove a document by id
+   */
+  remove(id: string): void {
+    const indexed = this.documents.get(id);
+
+    if (!indexed) {
+      return;
+    }
+
+    for (const term of indexed.termFrequencies.keys()) {
+      const frequency = this.documentFrequencies.get(term)! - 1;
+
+      if (frequency) {
+        this.documentFrequencies.set(term, frequency);
+      } else {
+        this.documentFrequencies.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= indexed.length;
+  }
+
+  /**
+   * Rank documents matching the filter by BM25 score
+   * Documents sharing no terms with the query are left out
+   */
+  search(
+    query: string,
+    k: number,
+    filter?: MetadataFilter
+  ): [Document, number][] {
+    const queryTerms = [...new Set(tokenize(query))];
+
+    if (!queryTerms.length || !this.documents.size) {
+      return [];
+    }
+
+    const { K1, B } = RETRIEVAL.BM25;
+    const averageLength = this.totalLength / this.documents.size;
+    const results: [Document, number][] = [];
+
+    for (const {
+      document,
+      termFrequencies,
+      length,
+    } of this.documents.values()) {
+      let score = 0;
+
+      for (const term of queryTerms) {
+        const frequency = termFrequencies.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequencies.get(term)!;
+        const idf = Math.log(
+          1 +
+            (this.documents.size - documentFrequency + 0.5) /
+              (documentFrequency + 0.5)
+        );
+
+        score +=
+          (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * length) / averageLength));
+      }
+
+      if (
+        score > 0 &&
+        (!filter || matchesMetadataFilter(document.metadata, filter))
+      ) {
+        results.push([document, score]);
+      }
+    }
+
+    return results.sort((a, b) => b[1] - a[1]).slice(0, k);
+  }
+}
+
+/**
+ * Merge ranked result lists with reciprocal-rank fusion
+ *
+ * Each document scores the sum of 1 / (RRF_K + rank) over the lists it
+ * appears in, so documents ranked well by several retrievers rise to the
+ * top regardless of how each retriever scales its scores.
+ */
+export function reciprocalRankFusion(
+  rankings: Document[][],
+  k: number
+): [Document, number][] {
+  const fused = new Map<string, { document: Document; score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((document, rank) => {
+      const id = document.id ?? document.pageContent;
+      const entry = fused.get(id) ?? { document, score: 0 };
+
+      entry.score += 1 / (RETRIEVAL.RRF_K + rank + 1);
+      fused.set(id, entry);
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(({ document, score }) => [document, score]);
+}
@@ -0,0 +1,405 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { createLogger } from "../utils/logger";
+import type {
+  ManagedVectorStore,
+  VectorStoreProvider,
+  VectorStoreStats,
+} from "./vector-store-provider";
+
+const logger = createLogger("local-vector-store");
+
+export type MetadataFilter = Record<string, any>;
+
+/**
+ * A stored vector with its document
+ */
+interface VectorRecord {
+  id: string;
+  content: string;
+  metadata: Record<string, any>;
+  embedding: number[];
+}
+
+export interface LocalVectorStoreArgs {
+  directory: string;
+  namespace?: string;
+}
+
+/**
+ * Convert a stored record to a document with its id
+ */
+function toDocument(record: VectorRecord): Document {
+  return new Document({
+    id: record.id,
+    pageContent: record.content,
+    metadata: record.metadata,
+  });
+}
+
+/**
+ * Cosine similarity between two vectors, 0 when either has no magnitude
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Check a single metadata value against a filter condition
+ * Array values match when any element matches, as in Pinecone
+ */
+function matchesCondition(value: any, condition: any): boolean {
+  if (Array.isArray(value)) {
+    if (
+      condition &&
+      typeof condition === "object" &&
+      !Array.isArray(condition)
+    ) {
+      if ("$nin" in condition || "$ne" in condition) {
+        return value.every((element) => matchesCondition(element, condition));
+      }
+    }
+    return value.some((element) => matchesCondition(element, condition));
+  }
+
+  if (condition === null || typeof condition !== "object") {
+    return value === condition;
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case "$eq":
+        return value === operand;
+      case "$ne":
+        return value !== operand;
+      case "$in":
+        return (operand as any[]).includes(value);
+      case "$nin":
+        return !(operand as any[]).includes(value);
+      case "$gt":
+        return value !== undefined && value > (operand as any);
+      case "$gte":
+        return value !== undefined && value >= (operand as any);
+      case "$lt":
+        return value !== undefined && value < (operand as any);
+      case "$lte":
+        return value !== undefined && value <= (operand as any);
+      case "$exists":
+        return (value !== undefined) === operand;
+      default:
+        throw new Error(`Unsupported metadata filter operator: ${operator}`);
+    }
+  });
+}
+
+/**
+ * Check document metadata against a Pinecone-style filter
+ *
+ * Supports field equality, $eq, $ne, $in, $nin, $gt, $gte, $lt, $lte,
+ * $exists and the $and/$or combinators.
+ */
+export function matchesMetadataFilter(
+  metadata: Record<string, any>,
+  filter?: MetadataFilter
+): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$and") {
+      return (condition as MetadataFilter[]).every((clause) =>
+        matchesMetadataFilter(metadata, clause)
+      );
+    }
+
+    if (key === "$or") {
+      return (condition as MetadataFilter[]).some((clause) =>
+        matchesMetadataFilter(metadata, clause)
+      );
+    }
+
+    return matchesCondition(metadata[key], condition);
+  });
+}
+
+/**
+ * Brute-force cosine similarity vector store persisted to disk
+ *
+ * Each namespace lives in `<directory>/<namespace>.json` and is loaded on
+ * first use. Search scans every vector in the namespace, which is fine for
+ * development and test corpora but not for production-sized indexes.
+ * Scores are cosine similarities, matching a cosine Pinecone index.
+ */
+export class LocalVectorStore
+  extends VectorStore
+  implements ManagedVectorStore
+{
+  declare FilterType: MetadataFilter;
+
+  private directory: string;
+  private namespace: string;
+  private records: Map<string, VectorRecord> | null = null;
+  private loading: Promise<Map<string, VectorRecord>> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(embeddings: EmbeddingsInterface, args: LocalVectorStoreArgs) {
+    super(embeddings, args);
+    this.directory = args.directory;
+    this.namespace = args.namespace || "default";
+  }
+
+  _vectorstoreType(): string {
+    return "local";
+  }
+
+  private filePath(): string {
+    return path.join(
+      this.directory,
+      `${encodeURIComponent(this.namespace)}.json`
+    );
+  }
+
+  /**
+   * Load the namespace from disk on first use
+   */
+  private async getRecords(): Promise<Map<string, VectorRecord>> {
+    if (this.records) {
+      return this.records;
+    }
+
+    if (!this.loading) {
+      this.loading = this.loadRecords();
+    }
+
+    return this.loading;
+  }
+
+  private async loadRecords(): Promise<Map<string, VectorRecord>> {
+    const records = new Map<string, VectorRecord>();
+
+    try {
+      const contents = await fs.readFile(this.filePath(), "utf8");
+      for (const record of JSON.parse(contents) as VectorRecord[]) {
+        records.set(record.id, record);
+      }
+      logger.debug(
+        { namespace: this.namespace, count: records.size },
+        "Loaded vectors from disk"
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.error(
+          { error, namespace: this.namespace },
+          "Failed to load vectors from disk"
+        );
+        throw new Error(
+          `Failed to load vectors for namespace ${this.namespace}: ${(error as Error).message}`
+        );
+      }
+    }
+
+    this.records = records;
+    return records;
+  }
+
+  /**
+   * Write the namespace to disk, serializing writes
+   * The file is replaced atomically so a crash never leaves it half-written
+   */
+  private async persist(): Promise<void> {
+    const write = this.writing.then(async () => {
+      const records = await this.getRecords();
+      const filePath = this.filePath();
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify([...records.values()]));
+      await fs.rename(tempPath, filePath);
+    });
+
+    // Keep the chain alive after a failed write
+    this.writing = write.catch(() => undefined);
+
+    try {
+      await write;
+    } catch (error) {
+      logger.error(
+        { error, namespace: this.namespace },
+        "Failed to write vectors to disk"
+      );
+      throw new Error(
+        `Failed to write vectors for namespace ${this.namespace}: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Add precomputed vectors, replacing any with the same ids
+   */
+  async addVectors(
+    vectors: number[][],
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const records = await this.getRecords();
+    const ids = documents.map((_, i) => options?.ids?.[i] ?? uuidv4());
+
+    documents.forEach((doc, i) => {
+      records.set(ids[i], {
+        id: ids[i],
+        content: doc.pageContent,
+        metadata: doc.metadata ?? {},
+        embedding: vectors[i],
+      });
+    });
+
+    await this.persist();
+    return ids;
+  }
+
+  /**
+   * Embed and add documents, replacing any with the same ids
+   */
+  async addDocuments(
+    documents: DocumentInterface[],
+    options?: { ids?: string[] }
+  ): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(
+      documents.map((doc) => doc.pageContent)
+    );
+
+    return this.addVectors(vectors, documents, options);
+  }
+
+  /**
+   * Delete vectors by id, by metadata filter, or all of them
+   */
+  async delete(params: {
+    ids?: string[];
+    filter?: MetadataFilter;
+    deleteAll?: boolean;
+  }): Promise<void> {
+    const records = await this.getRecords();
+
+    if (params.deleteAll) {
+      records.clear();
+    } else if (params.ids) {
+      params.ids.forEach((id) => records.delete(id));
+    } else if (params.filter) {
+      for (const [id, record] of records) {
+        if (matchesMetadataFilter(record.metadata, params.filter)) {
+          records.delete(id);
+        }
+      }
+    } else {
+      throw new Error("Either ids, filter or deleteAll must be provided");
+    }
+
+    await this.persist();
+  }
+
+  /**
+   * Score every vector in the namespace and return the top k matches
+   */
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: MetadataFilter
+  ): Promise<[Document, number][]> {
+    const records = await this.getRecords();
+
+    return [...records.values()]
+      .filter((record) => matchesMetadataFilter(record.metadata, filter))
+      .map((record): [Document, number] => [
+        toDocument(record),
+        cosineSimilarity(query, record.embedding),
+      ])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k);
+  }
+
+  /**
+   * Ids of the vectors whose id starts with the prefix
+   */
+  async listIds(prefix: string): Promise<string[]> {
+    const records = await this.getRecords();
+    return [...records.keys()].filter((id) => id.startsWith(prefix));
+  }
+
+  /**
+   * Documents for the given ids, skipping unknown ones
+   */
+  async getByIds(ids: string[]): Promise<Document[]> {
+    const records = await this.getRecords();
+
+    return ids
+      .map((id) => records.get(id))
+      .filter((record): record is VectorRecord => Boolean(record))
+      .map(toDocument);
+  }
+
+  /**
+   * Number of vectors in the namespace and their dimension
+   */
+  async describe(): Promise<VectorStoreStats> {
+    const records = await this.getRecords();
+    const first = records.values().next().value;
+
+    return {
+      vectorCount: records.size,
+      dimension: first?.embedding.length,
+    };
+  }
+}
+
+/**
+ * Vector store provider backed by LocalVectorStore files
+ */
+export class LocalVectorStoreProvider implements VectorStoreProvider {
+  readonly name: string = "local";
+
+  constructor(private directory: string) {}
+
+  async init(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  async createStore(
+    embeddings: EmbeddingsInterface,
+    namespace?: string
+  ): Promise<LocalVectorStore> {
+    return new LocalVectorStore(embeddings, {
+      directory: this.directory,
+      namespace,
+    });
+  }
+
+  async ping(): Promise<boolean> {
+    try {
+      await fs.access(this.directory);
+      return true;
+    } catch (error) {
+      logger.error({ error }, "Local vector store health check failed");
+      return false;
+    }
+  }
+}
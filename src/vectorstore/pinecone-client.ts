@@ -1,6 +1,14 @@
 import { Pinecone } from "@pinecone-database/pinecone";
+import { PineconeStore } from "@langchain/pinecone";
+import { Document } from "@langchain/core/documents";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
 import { PINECONE_API_KEY, PINECONE_INDEX } from "../config/env";
 import { createLogger } from "../utils/logger";
+import type {
+  ManagedVectorStore,
+  VectorStoreProvider,
+  VectorStoreStats,
+} from "./vector-store-provider";
 
 const logger = createLogger("pinecone");
 
@@ -19,6 +27,10 @@ export async function initPinecone() {
   logger.info("Initializing Pinecone client");
 
   try {
+    if (!PINECONE_API_KEY || !PINECONE_INDEX) {
+      throw new Error("PINECONE_API_KEY and PINECONE_INDEX must be set");
+    }
+
     // Initialize Pinecone client with the current SDK's recommended pattern
     pineconeInstance = new Pinecone({
       apiKey: PINECONE_API_KEY,
@@ -52,7 +64,7 @@ export async function getPineconeIndex() {
     logger.info(`Getting Pinecone index: ${PINECONE_INDEX}`);
 
     // Get the index
-    pineconeIndex = pinecone.Index(PINECONE_INDEX);
+    pineconeIndex = pinecone.Index(PINECONE_INDEX!);
 
     // Validate the index by checking its stats
     const stats = await pineconeIndex.describeIndexStats();
@@ -96,3 +108,87 @@ export async function pingPinecone(): Promise<boolean> {
     return false;
   }
 }
+
+// Pinecone accepts at most 1000 ids per fetch request
+const FETCH_BATCH_SIZE = 1000;
+
+/**
+ * PineconeStore with id listing, fetching and stats
+ * Listing by prefix requires a serverless index
+ */
+export class PineconeVectorStore
+  extends PineconeStore
+  implements ManagedVectorStore
+{
+  async listIds(prefix: string): Promise<string[]> {
+    const index = this.pineconeIndex.namespace(this.namespace ?? "");
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await index.listPaginated({
+        prefix: prefix || undefined,
+        paginationToken,
+      });
+      ids.push(...(page.vectors ?? []).map((vector) => vector.id!));
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    return ids;
+  }
+
+  async getByIds(ids: string[]): Promise<Document[]> {
+    const index = this.pineconeIndex.namespace(this.namespace ?? "");
+    const documents: Document[] = [];
+
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const batch = ids.slice(i, i + FETCH_BATCH_SIZE);
+      const { records } = await index.fetch(batch);
+
+      for (const id of batch) {
+        if (!records[id]) continue;
+
+        const { [this.textKey]: text, ...metadata } =
+          records[id].metadata ?? {};
+        documents.push(
+          new Document({ id, pageContent: String(text ?? ""), metadata })
+        );
+      }
+    }
+
+    return documents;
+  }
+
+  async describe(): Promise<VectorStoreStats> {
+    const stats = await this.pineconeIndex.describeIndexStats();
+
+    return {
+      vectorCount: stats.namespaces?.[this.namespace ?? ""]?.recordCount ?? 0,
+      dimension: stats.dimension,
+    };
+  }
+}
+
+/**
+ * Vector store provider backed by the Pinecone index
+ */
+export const pineconeVectorStoreProvider: VectorStoreProvider = {
+  name: "pinecone",
+
+  async init() {
+    await initPinecone();
+  },
+
+  async createStore(embeddings: EmbeddingsInterface, namespace?: string) {
+    const pineconeIndex = await getPineconeIndex();
+
+    return new PineconeVectorStore(embeddings, {
+      pineconeIndex,
+      namespace,
+      textKey: "text",
+      filter: {}, // Default empty filter
+    });
+  },
+
+  ping: pingPinecone,
+};
@@ -0,0 +1,95 @@
+import { Document } from "@langchain/core/documents";
+import { EmbeddingsInterface } from "@langchain/core/embeddings";
+import { VectorStore } from "@langchain/core/vectorstores";
+import { VECTOR_STORE_DIR, VECTOR_STORE_PROVIDER } from "../config/env";
+import { createLogger } from "../utils/logger";
+import { pineconeVectorStoreProvider } from "./pinecone-client";
+import { LocalVectorStoreProvider } from "./local-vector-store";
+
+const logger = createLogger("vector-store-provider");
+
+/**
+ * Size of a vector store namespace
+ */
+export interface VectorStoreStats {
+  vectorCount: number;
+  dimension?: number;
+}
+
+/**
+ * Vector store for one namespace, with the id listing and lookups the
+ * knowledge base needs to inspect, replace and remove documents
+ */
+export interface ManagedVectorStore extends VectorStore {
+  listIds(prefix: string): Promise<string[]>;
+
+  // Documents are returned with their ids; unknown ids are skipped
+  getByIds(ids: string[]): Promise<Document[]>;
+
+  describe(): Promise<VectorStoreStats>;
+}
+
+/**
+ * Vector database used by the vector store
+ *
+ * Stores take Pinecone-style metadata filters and return similarity scores
+ * where higher means more similar.
+ */
+export interface VectorStoreProvider {
+  readonly name: string;
+
+  init(): Promise<void>;
+
+  createStore(
+    embeddings: EmbeddingsInterface,
+    namespace?: string
+  ): Promise<ManagedVectorStore>;
+
+  ping(): Promise<boolean>;
+}
+
+// Vector store provider singleton
+let provider: VectorStoreProvider | null = null;
+
+/**
+ * Get the vector store provider selected by VECTOR_STORE_PROVIDER
+ */
+export function getVectorStoreProvider(): VectorStoreProvider {
+  if (provider) {
+    return provider;
+  }
+
+  switch (VECTOR_STORE_PROVIDER) {
+    case "local":
+      provider = new LocalVectorStoreProvider(VECTOR_STORE_DIR);
+      break;
+    default:
+      provider = pineconeVectorStoreProvider;
+  }
+
+  logger.info({ provider: provider.name }, "Vector store provider selected");
+  return provider;
+}
+
+/**
+ * Replace the vector store provider, e.g. with a local one in tests
+ */
+export function setVectorStoreProvider(
+  vectorStoreProvider: VectorStoreProvider
+): void {
+  provider = vectorStoreProvider;
+}
+
+/**
+ * Connect to the vector database
+ */
+export function initVectorStore(): Promise<void> {
+  return getVectorStoreProvider().init();
+}
+
+/**
+ * Check that the vector database is reachable
+ */
+export function pingVectorStore(): Promise<boolean> {
+  return getVectorStoreProvider().ping();
+}
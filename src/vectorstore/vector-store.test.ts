@@ -0,0 +1,68 @@
+import { createTestHarness, TestHarness } from "../testing/harness";
+import { RETRIEVAL } from "../config/constants";
+import { KnowledgeDocumentInput } from "../types/knowledge";
+import { querySimilarDocuments } from "./vector-store";
+
+const DOCUMENTS: KnowledgeDocumentInput[] = [
+  {
+    sourceId: "declined",
+    contentType: "text",
+    content: "Error ERR-4012 means the payment was declined by the bank.",
+  },
+  {
+    sourceId: "expired",
+    contentType: "text",
+    content: "Error ERR-4013 means the card has expired.",
+  },
+  {
+    sourceId: "refunds",
+    contentType: "text",
+    content: "Refunds are paid back to the original card.",
+  },
+];
+
+describe("hybrid retrieval", () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await createTestHarness({ documents: DOCUMENTS });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await harness.cleanup();
+  });
+
+  it("fuses vector and keyword rankings", async () => {
+    const chunks = await querySimilarDocuments(
+      "ERR-4012",
+      2,
+      undefined,
+      undefined,
+      {
+        mode: "hybrid",
+      }
+    );
+
+    expect(chunks[0].sourceId).toBe("declined");
+    // Ranked first by both retrievers
+    expect(chunks[0].score).toBeCloseTo(2 / (RETRIEVAL.RRF_K + 1));
+  });
+
+  it("uses vector search only for namespaces too large to index", async () => {
+    jest.replaceProperty(RETRIEVAL, "KEYWORD_INDEX_MAX_SIZE", 2);
+
+    const hybrid = await querySimilarDocuments(
+      "ERR-4012",
+      2,
+      undefined,
+      undefined,
+      {
+        mode: "hybrid",
+      }
+    );
+    const vector = await querySimilarDocuments("ERR-4012", 2);
+
+    expect(hybrid).toEqual(vector);
+  });
+});
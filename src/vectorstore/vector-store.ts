@@ -1,22 +1,58 @@
 import { Document } from "@langchain/core/documents";
-import { PineconeStore } from "@langchain/pinecone";
-import { getPineconeIndex } from "./pinecone-client";
+import {
+  getVectorStoreProvider,
+  ManagedVectorStore,
+  VectorStoreStats,
+} from "./vector-store-provider";
 import { createCachedEmbeddings } from "../models/embeddings";
-import { CONVERSATION } from "../config/constants";
+import { BM25Index, reciprocalRankFusion } from "./keyword-index";
+import { CONVERSATION, KNOWLEDGE, RETRIEVAL } from "../config/constants";
+import { RETRIEVAL_MODE } from "../config/env";
 import { createLogger } from "../utils/logger";
 import { ContextChunk } from "../types/conversation";
 
 const logger = createLogger("vectorstore");
 
 // Cache for vector store instances to avoid recreation
-const vectorStoreCache = new Map<string, PineconeStore>();
+const vectorStoreCache = new Map<string, ManagedVectorStore>();
+
+// Keyword indexes per namespace, built on first hybrid query and dropped
+// when the namespace is written to
+const keywordIndexCache = new Map<string, Promise<BM25Index | null>>();
+
+// Pinecone accepts at most 1000 ids per delete request
+const DELETE_BATCH_SIZE = 1000;
+
+export type RetrievalMode = "vector" | "hybrid";
+
+export interface QueryOptions {
+  mode?: RetrievalMode; // Defaults to RETRIEVAL_MODE
+}
+
+/**
+ * Get the namespace of a tenant's knowledge base
+ * Without a tenant the default namespace is used
+ */
+export function getTenantNamespace(tenantId?: string): string | undefined {
+  return tenantId
+    ? `${KNOWLEDGE.TENANT_NAMESPACE_PREFIX}${tenantId}`
+    : undefined;
+}
+
+/**
+ * Whether a namespace belongs to a tenant
+ */
+export function isTenantNamespace(namespace?: string): boolean {
+  return Boolean(namespace?.startsWith(KNOWLEDGE.TENANT_NAMESPACE_PREFIX));
+}
 
 /**
  * Create a vector store with the specified namespace
+ * The backing database is chosen by the vector store provider
  */
 export async function createVectorStore(
   namespace?: string
-): Promise<PineconeStore> {
+): Promise<ManagedVectorStore> {
   const cacheKey = namespace || "default";
 
   // Check cache first
@@ -29,15 +65,11 @@ export async function createVectorStore(
   );
 
   try {
-    const pineconeIndex = await getPineconeIndex();
     const embeddings = createCachedEmbeddings();
-
-    const vectorStore = await PineconeStore.fromExistingIndex(embeddings, {
-      pineconeIndex,
-      namespace,
-      textKey: "text",
-      filter: {}, // Default empty filter
-    });
+    const vectorStore = await getVectorStoreProvider().createStore(
+      embeddings,
+      namespace
+    );
 
     // Cache the instance
     vectorStoreCache.set(cacheKey, vectorStore);
@@ -53,10 +85,12 @@ export async function createVectorStore(
 
 /**
  * Add documents to the vector store
+ * Documents with the ids of existing vectors replace them
  */
 export async function addDocuments(
   docs: Document[],
-  namespace?: string
+  namespace?: string,
+  ids?: string[]
 ): Promise<void> {
   if (!docs.length) {
     logger.warn("No documents to add to vector store");
@@ -70,7 +104,8 @@ export async function addDocuments(
 
   try {
     const vectorStore = await createVectorStore(namespace);
-    await vectorStore.addDocuments(docs);
+    await vectorStore.addDocuments(docs, ids ? { ids } : undefined);
+    keywordIndexCache.delete(namespace || "default");
 
     logger.info(
       { count: docs.length },
@@ -87,34 +122,211 @@ export async function addDocuments(
   }
 }
 
+/**
+ * List the ids of the vectors whose id starts with the prefix
+ */
+export async function listDocumentIds(
+  prefix: string,
+  namespace?: string
+): Promise<string[]> {
+  try {
+    const vectorStore = await createVectorStore(namespace);
+    return await vectorStore.listIds(prefix);
+  } catch (error) {
+    logger.error({ error, prefix, namespace }, "Failed to list document ids");
+    throw new Error(`Failed to list document ids: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Get documents by vector id, skipping unknown ids
+ */
+export async function getDocumentsByIds(
+  ids: string[],
+  namespace?: string
+): Promise<Document[]> {
+  if (!ids.length) {
+    return [];
+  }
+
+  try {
+    const vectorStore = await createVectorStore(namespace);
+    return await vectorStore.getByIds(ids);
+  } catch (error) {
+    logger.error(
+      { error, count: ids.length, namespace },
+      "Failed to get documents from vector store"
+    );
+    throw new Error(
+      `Failed to get documents from vector store: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Get the vector count and dimension of a namespace
+ */
+export async function getVectorStoreStats(
+  namespace?: string
+): Promise<VectorStoreStats> {
+  try {
+    const vectorStore = await createVectorStore(namespace);
+    return await vectorStore.describe();
+  } catch (error) {
+    logger.error({ error, namespace }, "Failed to get vector store stats");
+    throw new Error(
+      `Failed to get vector store stats: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Delete vectors by id
+ */
+export async function deleteDocuments(
+  ids: string[],
+  namespace?: string
+): Promise<void> {
+  if (!ids.length) {
+    return;
+  }
+
+  logger.info(
+    { count: ids.length, namespace },
+    "Deleting documents from vector store"
+  );
+
+  try {
+    const vectorStore = await createVectorStore(namespace);
+
+    for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+      await vectorStore.delete({ ids: ids.slice(i, i + DELETE_BATCH_SIZE) });
+    }
+    keywordIndexCache.delete(namespace || "default");
+  } catch (error) {
+    logger.error(
+      { error, count: ids.length, namespace },
+      "Failed to delete documents from vector store"
+    );
+    throw new Error(
+      `Failed to delete documents from vector store: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Get the keyword index of a namespace, building it from the stored chunks
+ *
+ * Building lists and fetches every vector in the namespace, so it happens
+ * once per namespace and again only after the namespace changes. Writes
+ * made by other processes are not seen until this one writes or restarts.
+ * Returns null for namespaces too large to index in memory.
+ */
+async function getKeywordIndex(namespace?: string): Promise<BM25Index | null> {
+  const cacheKey = namespace || "default";
+  const cached = keywordIndexCache.get(cacheKey);
+
+  if (cached) {
+    return cached;
+  }
+
+  const building = (async () => {
+    const ids = await listDocumentIds("", namespace);
+
+    if (ids.length > RETRIEVAL.KEYWORD_INDEX_MAX_SIZE) {
+      logger.warn(
+        { namespace, count: ids.length },
+        "Namespace too large for a keyword index, using vector search"
+      );
+      return null;
+    }
+
+    if (ids.length > RETRIEVAL.KEYWORD_INDEX_WARN_SIZE) {
+      logger.warn(
+        { namespace, count: ids.length },
+        "Building a keyword index over a large namespace"
+      );
+    }
+
+    const documents = await getDocumentsByIds(ids, namespace);
+
+    logger.debug({ namespace, count: documents.length }, "Built keyword index");
+    return new BM25Index(documents);
+  })();
+
+  keywordIndexCache.set(cacheKey, building);
+  // A failed build is retried on the next query
+  building.catch(() => {
+    if (keywordIndexCache.get(cacheKey) === building) {
+      keywordIndexCache.delete(cacheKey);
+    }
+  });
+
+  return building;
+}
+
 /**
  * Query the vector store for similar documents
+ *
+ * In hybrid mode the vector search runs next to a BM25 keyword search over
+ * the same chunks, which catches exact codes and names that embeddings
+ * miss. Both fetch extra candidates and are merged with reciprocal-rank
+ * fusion, so chunk scores are fused ranks rather than similarities.
  */
 export async function querySimilarDocuments(
   query: string,
   k = CONVERSATION.DEFAULT_RETRIEVAL_LIMIT,
   namespace?: string,
-  filter?: Record<string, any>
+  filter?: Record<string, any>,
+  options: QueryOptions = {}
 ): Promise<ContextChunk[]> {
+  const mode = options.mode ?? RETRIEVAL_MODE;
+
   logger.debug(
-    { query, k, namespace },
+    { query, k, namespace, mode },
     "Querying vector store for similar documents"
   );
 
   try {
     const vectorStore = await createVectorStore(namespace);
+    let results: [Document, number][];
+
+    if (mode === "hybrid") {
+      const candidates = k * RETRIEVAL.HYBRID_CANDIDATE_MULTIPLIER;
+      const [vectorResults, keywordIndex] = await Promise.all([
+        vectorStore.similaritySearchWithScore(query, candidates, filter),
+        getKeywordIndex(namespace),
+      ]);
+
+      if (keywordIndex) {
+        const keywordResults = keywordIndex.search(query, candidates, filter);
 
-    // Use vector store's similarity search
-    const documents = await vectorStore.similaritySearch(query, k, filter);
+        results = reciprocalRankFusion(
+          [
+            vectorResults.map(([doc]) => doc),
+            keywordResults.map(([doc]) => doc),
+          ],
+          k
+        );
+      } else {
+        results = vectorResults.slice(0, k);
+      }
+    } else {
+      // Use vector store's similarity search, keeping the scores
+      results = await vectorStore.similaritySearchWithScore(query, k, filter);
+    }
 
     // Format the results into ContextChunks
-    const contextChunks: ContextChunk[] = documents.map((doc) => ({
+    const contextChunks: ContextChunk[] = results.map(([doc, score]) => ({
+      id: doc.id,
+      sourceId: doc.metadata.sourceId,
       content: doc.pageContent,
       metadata: doc.metadata,
+      score,
     }));
 
     logger.debug(
-      { count: contextChunks.length },
+      { count: contextChunks.length, mode },
       "Retrieved similar documents"
     );
     return contextChunks;
@@ -142,4 +354,5 @@ export async function createRetriever(
  */
 export function clearVectorStoreCache() {
   vectorStoreCache.clear();
+  keywordIndexCache.clear();
 }